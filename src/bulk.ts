@@ -0,0 +1,1775 @@
+// Tools running one Emelia request over a whole list, e.g. to clean a lead
+// list and import it. Lists come from a CSV or JSON file or the tool
+// arguments, and results are written back as CSV next to the input or
+// reported row by row.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  CsvTable,
+  findColumn,
+  readCsvFile,
+  siblingPath,
+  writeCsvFile,
+} from "./csv.js";
+import {
+  authRequiredResult,
+  EmeliaApiResponse,
+  EmeliaError,
+  emeliaErrorResult,
+  errorResult,
+  formatEmeliaError,
+  getEmeliaApiKey,
+  makeEmeliaRequest,
+  mapWithConcurrency,
+  sleep,
+  waitForEmeliaJob,
+} from "./helpers.js";
+import { toE164 } from "./phone.js";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+const EMAIL_COLUMNS = ["email", "emailAddress", "e-mail", "mail"];
+
+// Header names detected for each field of the email finder
+const FINDER_COLUMNS = {
+  fullname: ["fullname", "name", "contactName"],
+  first_name: ["firstName", "first", "givenName"],
+  last_name: ["lastName", "last", "surname", "familyName"],
+  company_name: ["companyName", "company", "organization", "organisation"],
+  company_website: ["companyWebsite", "website", "domain", "companyDomain"],
+  country: ["country", "countryCode"],
+};
+
+type FinderField = keyof typeof FINDER_COLUMNS;
+
+const LINKEDIN_COLUMNS = [
+  "linkedinUrl",
+  "linkedin",
+  "linkedinUrlProfile",
+  "linkedinProfile",
+  "profileUrl",
+];
+
+const LINKEDIN_PROFILE =
+  /^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\/in\/[^/?#\s]+/i;
+
+// Contacts endpoint of each campaign type, with the fields of its contacts
+// (ContactModel, LKContactModel and advanced contacts) in export order
+const CAMPAIGN_CONTACTS = {
+  email: {
+    path: "/emails/campaign/contacts",
+    label: "email campaign",
+    fields: [
+      "email",
+      "firstName",
+      "lastName",
+      "phoneNumber",
+      "status",
+      "sentiment",
+      "interested",
+      "mailsSent",
+      "lastContacted",
+      "lastOpen",
+      "lastReplied",
+    ],
+  },
+  linkedin: {
+    path: "/linkedin/campaign/contacts",
+    label: "LinkedIn campaign",
+    fields: [
+      "url",
+      "id",
+      "handle",
+      "firstName",
+      "lastName",
+      "status",
+      "sentiment",
+      "lastContacted",
+      "lastReplied",
+    ],
+  },
+  advanced: {
+    path: "/advanced/campaign/contacts",
+    label: "advanced campaign",
+    fields: [
+      "id",
+      "email",
+      "linkedinUrlProfile",
+      "firstName",
+      "lastName",
+      "phoneNumber",
+      "status",
+      "sentiment",
+      "lastContacted",
+      "lastReplied",
+    ],
+  },
+};
+
+const EXPORT_PAGE_SIZE = 100;
+
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Failures listed in the tool result, the rest are only in the failures CSV
+const MAX_LISTED_FAILURES = 20;
+
+// Identify a LinkedIn profile whatever its URL variant, e.g. with a trailing
+// slash, a query string or a country subdomain
+function linkedinProfileKey(url: string): string | undefined {
+  return url
+    .trim()
+    .match(LINKEDIN_PROFILE)?.[0]
+    .toLowerCase()
+    .replace(/^https?:\/\/([a-z]{2,3}\.)?/, "");
+}
+
+// The column named like a LinkedIn URL, otherwise the first one holding
+// profile URLs, e.g. "Profile"
+function findLinkedinColumn(table: CsvTable): string | undefined {
+  return (
+    findColumn(table.columns, LINKEDIN_COLUMNS) ||
+    table.columns.find((column) =>
+      table.rows.some((row) => LINKEDIN_PROFILE.test(row[column]))
+    )
+  );
+}
+
+// Space out the start of jobs, on top of the API rate limit shared by all tools
+function startThrottle(perMinute: number) {
+  const interval = 60_000 / perMinute;
+  let nextStart = 0;
+
+  return async (signal: AbortSignal) => {
+    const now = Date.now();
+    const start = Math.max(nextStart, now);
+    nextStart = start + interval;
+    await sleep(start - now, signal);
+  };
+}
+
+// Report bulk progress, when the client asked for it
+function bulkProgress(extra: ToolExtra, total: number, unit: string) {
+  const progressToken = extra._meta?.progressToken;
+  let processed = 0;
+
+  return async () => {
+    processed++;
+    if (progressToken === undefined) return;
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: processed,
+        total,
+        message: `${processed}/${total} ${unit}`,
+      },
+    });
+  };
+}
+
+interface VerificationResult {
+  email: string;
+  jobId?: string;
+  qualification?: string;
+  status: "running" | "done" | "error";
+  error?: string;
+}
+
+interface JobRun {
+  jobId?: string;
+  // Last status of the job, still `running` when the deadline passed
+  job?: Record<string, any>;
+  error?: EmeliaError;
+}
+
+// Run the requests of a bulk tool with bounded concurrency, reporting
+// progress. Nothing new starts once the deadline passes or the request is
+// cancelled, and the first authentication error stops the run, since every
+// other request would fail the same way. `task` gets a signal aborted when the
+// run stops, and returns nothing for an item it did not start; items not
+// started have no result.
+async function runBulk<T, R extends { error?: EmeliaError }>(
+  extra: ToolExtra,
+  items: T[],
+  concurrency: number,
+  unit: string,
+  deadline: number | undefined,
+  task: (item: T, signal: AbortSignal) => Promise<R | undefined>
+): Promise<{ results: Array<R | undefined>; authError?: EmeliaError }> {
+  const progress = bulkProgress(extra, items.length, unit);
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  extra.signal.addEventListener("abort", stop, { once: true });
+  const timer =
+    deadline === undefined
+      ? undefined
+      : setTimeout(stop, Math.max(deadline - Date.now(), 0));
+  let authError: EmeliaError | undefined;
+
+  try {
+    const results = await mapWithConcurrency(
+      items,
+      concurrency,
+      controller.signal,
+      async (item) => {
+        const run = await task(item, controller.signal);
+        if (!run) return undefined;
+        if (run.error?.category === "auth") {
+          authError = run.error;
+          controller.abort();
+        }
+        await progress();
+        return run;
+      }
+    );
+    return { results, authError };
+  } finally {
+    clearTimeout(timer);
+    extra.signal.removeEventListener("abort", stop);
+  }
+}
+
+// Result of a run stopped by an authentication error, once the results of
+// the items run before it are written to `paths`
+function authStoppedResult(
+  action: string,
+  error: EmeliaError,
+  paths: Array<string | undefined>
+): CallToolResult {
+  const written = paths.filter(Boolean);
+  if (written.length === 0) {
+    return emeliaErrorResult(action, error);
+  }
+  const text = formatEmeliaError(action, error);
+  return errorResult(
+    `${text}\n\nThe results of the run so far were written to ${written.join(
+      ", "
+    )}.`
+  );
+}
+
+// Jobs of a bulk finder run, saved after every change so a run stopped by the
+// timeout, a cancellation or a crash resumes without searching a row twice
+interface FinderState {
+  jobs: Record<string, { jobId: string; job?: Record<string, any> }>;
+}
+
+// Node modules are imported lazily so the Cloudflare Worker build never loads them
+async function readFinderState(path: string): Promise<FinderState> {
+  const { readFile } = await import("node:fs/promises");
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { jobs: {} };
+    }
+    throw error;
+  }
+
+  const state = JSON.parse(content) as Partial<FinderState> | null;
+  if (!state || typeof state.jobs !== "object") {
+    throw new Error('missing "jobs" object');
+  }
+  return { jobs: state.jobs };
+}
+
+async function writeFinderState(
+  path: string,
+  state: FinderState
+): Promise<void> {
+  const { writeFile } = await import("node:fs/promises");
+  await writeFile(path, JSON.stringify(state, null, 2), "utf8");
+}
+
+// Read a CSV file, or a JSON file holding an array of objects, as a table
+async function readContactsFile(path: string): Promise<CsvTable> {
+  if (!/\.json$/i.test(path)) {
+    return readCsvFile(path);
+  }
+
+  const { readFile } = await import("node:fs/promises");
+  const items = JSON.parse(await readFile(path, "utf8")) as unknown;
+  if (
+    !Array.isArray(items) ||
+    items.some((item) => !item || typeof item !== "object")
+  ) {
+    throw new Error("expected an array of objects");
+  }
+
+  const columns = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  const rows = items.map((item: Record<string, unknown>) =>
+    Object.fromEntries(
+      columns.map((column) => {
+        return [column, cellValue(item[column])];
+      })
+    )
+  );
+  return { columns, rows };
+}
+
+async function writeJsonLines(path: string, items: unknown[]): Promise<void> {
+  const { writeFile } = await import("node:fs/promises");
+  await writeFile(
+    path,
+    items.map((item) => `${JSON.stringify(item)}\n`).join(""),
+    "utf8"
+  );
+}
+
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// One column per contact field, then one per custom field, named after the
+// field unless a contact field already has that name
+function contactsTable(
+  contacts: Array<Record<string, any>>,
+  fields: string[]
+): CsvTable {
+  const columns = [...fields];
+  contacts.forEach((contact) =>
+    Object.keys(contact).forEach((key) => {
+      if (key !== "custom" && !columns.includes(key)) columns.push(key);
+    })
+  );
+  const customColumns = new Map<string, string>();
+  contacts.forEach((contact) =>
+    Object.keys(contact.custom || {}).forEach((key) => {
+      if (!customColumns.has(key)) {
+        customColumns.set(key, columns.includes(key) ? `custom.${key}` : key);
+      }
+    })
+  );
+
+  return {
+    columns: [...columns, ...customColumns.values()],
+    rows: contacts.map((contact) => ({
+      ...Object.fromEntries(
+        columns.map((column) => [column, cellValue(contact[column])])
+      ),
+      ...Object.fromEntries(
+        [...customColumns].map(([key, column]) => [
+          column,
+          cellValue(contact.custom?.[key]),
+        ])
+      ),
+    })),
+  };
+}
+
+function appendColumns(columns: string[], added: string[]): string[] {
+  return [...columns, ...added.filter((column) => !columns.includes(column))];
+}
+
+export function registerBulkTools(server: McpServer, apiUrl: string): void {
+  server.registerTool(
+    "verify-emails-bulk",
+    {
+      description:
+        "Verify every email address of a CSV file or list, and write the CSV back with the qualification of each row",
+      inputSchema: {
+        csv_path: z
+          .string()
+          .optional()
+          .describe("Path of a CSV file with a header row (Optional)"),
+        emails: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Email addresses to verify, instead of a CSV file (Optional)"
+          ),
+        email_column: z
+          .string()
+          .optional()
+          .describe(
+            "Column holding the email addresses (Optional, detected from the header by default)"
+          ),
+        output_path: z
+          .string()
+          .optional()
+          .describe(
+            "Path of the annotated CSV (Optional, defaults to the input file with a .verified.csv extension)"
+          ),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(5)
+          .describe("Verifications run at the same time (Optional)"),
+        timeout_seconds: z
+          .number()
+          .min(1)
+          .max(3600)
+          .default(600)
+          .describe(
+            "Maximum time to wait for all verifications, in seconds (Optional)"
+          ),
+      },
+      outputSchema: {
+        emailColumn: z.string(),
+        contactsCount: z.number(),
+        contactsProcessed: z.number(),
+        status: z.enum(["running", "done"]),
+        qualifications: z.record(z.number()),
+        output: z.string().optional(),
+        results: z
+          .array(
+            z.object({
+              email: z.string(),
+              jobId: z.string().optional(),
+              qualification: z.string().optional(),
+              status: z.enum(["running", "done", "error"]),
+              error: z.string().optional(),
+            })
+          )
+          .optional(),
+      },
+    },
+    async (
+      {
+        csv_path,
+        emails,
+        email_column,
+        output_path,
+        concurrency,
+        timeout_seconds,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      if (!csv_path === !emails) {
+        return errorResult("Either csv_path or emails must be provided");
+      }
+
+      let table: CsvTable;
+      if (csv_path) {
+        try {
+          table = await readCsvFile(csv_path);
+        } catch (error) {
+          return errorResult(
+            `Failed to read ${csv_path}: ${(error as Error).message}`
+          );
+        }
+      } else {
+        table = {
+          columns: ["email"],
+          rows: (emails || []).map((email) => ({ email })),
+        };
+      }
+
+      const emailColumn = email_column
+        ? table.columns.find((column) => column === email_column)
+        : findColumn(table.columns, EMAIL_COLUMNS);
+      if (!emailColumn) {
+        return errorResult(
+          `${
+            email_column
+              ? `Column "${email_column}" not found`
+              : "No email column found"
+          } in ${
+            csv_path || "the list"
+          }. Pass email_column with one of: ${table.columns.join(", ")}`
+        );
+      }
+
+      // Each address is verified once, however many rows share it
+      const addresses = [
+        ...new Set(
+          table.rows
+            .map((row) => row[emailColumn].trim().toLowerCase())
+            .filter((email) => EMAIL_FORMAT.test(email))
+        ),
+      ];
+
+      const deadline = Date.now() + timeout_seconds * 1000;
+      const runs = await runBulk(
+        extra,
+        addresses,
+        concurrency,
+        "emails verified",
+        deadline,
+        (email, signal) =>
+          runJob(extra, signal, "/tools/verify/email", { email }, deadline)
+      );
+
+      const results = new Map<string, VerificationResult>();
+      runs.results.forEach((run, i) => {
+        if (!run) return;
+        results.set(addresses[i], {
+          email: addresses[i],
+          jobId: run.jobId,
+          qualification: run.job?.qualification,
+          status: run.error ? "error" : run.job!.status,
+          error:
+            run.error?.message ||
+            (run.job!.status === "error" ? "Verification failed" : undefined),
+        });
+      });
+      const contactsProcessed = [...results.values()].filter(
+        (result) => result.status !== "running"
+      ).length;
+      const qualifications: Record<string, number> = {};
+      results.forEach((result) => {
+        if (result.status === "done") {
+          const key = result.qualification || "unknown";
+          qualifications[key] = (qualifications[key] || 0) + 1;
+        }
+      });
+
+      let skipped = 0;
+      const annotated: CsvTable = {
+        columns: appendColumns(table.columns, [
+          "qualification",
+          "verification_status",
+        ]),
+        rows: table.rows.map((row) => {
+          const email = row[emailColumn].trim().toLowerCase();
+          const result = results.get(email);
+          const valid = EMAIL_FORMAT.test(email);
+          if (!valid) skipped++;
+          return {
+            ...row,
+            qualification: result?.qualification || "",
+            verification_status:
+              result?.status || (valid ? "not_started" : "skipped"),
+          };
+        }),
+      };
+
+      const output =
+        output_path ||
+        (csv_path ? siblingPath(csv_path, "verified") : undefined);
+      if (output) {
+        try {
+          await writeCsvFile(output, annotated);
+        } catch (error) {
+          return errorResult(
+            `Failed to write ${output}: ${(error as Error).message}`
+          );
+        }
+      }
+      if (runs.authError) {
+        return authStoppedResult(
+          "Failed to start email verification",
+          runs.authError,
+          [output]
+        );
+      }
+
+      const running = [...results.values()].filter(
+        (result) => result.status === "running"
+      );
+      const failed = [...results.values()].filter(
+        (result) => result.status === "error"
+      );
+      let text = `Verified ${contactsProcessed} of ${
+        addresses.length
+      } email addresses${
+        csv_path ? ` from ${csv_path} (column "${emailColumn}")` : ""
+      }.\n`;
+      if (Object.keys(qualifications).length > 0) {
+        text += "\nQualifications:\n";
+        Object.entries(qualifications).forEach(([qualification, count]) => {
+          text += `- ${qualification}: ${count}\n`;
+        });
+      }
+      if (skipped > 0) {
+        text += `\nSkipped ${skipped} row${
+          skipped > 1 ? "s" : ""
+        } without a valid email address.\n`;
+      }
+      if (failed.length > 0) {
+        text += `\nFailed verifications:\n`;
+        failed.forEach((result) => {
+          text += `- ${result.email}: ${result.error}\n`;
+        });
+      }
+      if (running.length > 0) {
+        text += `\nStill running after ${timeout_seconds} seconds, use the check-email-verification tool with these job IDs to get the results:\n`;
+        running.forEach((result) => {
+          text += `- ${result.email}: ${result.jobId}\n`;
+        });
+      }
+      const notStarted = addresses.length - results.size;
+      if (notStarted > 0) {
+        text += `\n${notStarted} address${
+          notStarted > 1 ? "es were" : " was"
+        } not started: ${
+          extra.signal.aborted
+            ? "the request was cancelled"
+            : `the ${timeout_seconds} seconds timeout passed`
+        } first.\n`;
+      }
+      if (!csv_path && !output) {
+        text += "\nResults:\n";
+        results.forEach((result) => {
+          text += `- ${result.email}: ${
+            result.qualification || result.status
+          }\n`;
+        });
+      }
+      if (output) {
+        text += `\nAnnotated CSV written to ${output}`;
+      }
+
+      return {
+        content: [{ type: "text", text: text.trimEnd() }],
+        structuredContent: {
+          emailColumn,
+          contactsCount: addresses.length,
+          contactsProcessed,
+          status: contactsProcessed < addresses.length ? "running" : "done",
+          qualifications,
+          output,
+          // A whole CSV file would flood the client's context
+          results: csv_path ? undefined : [...results.values()],
+        },
+      };
+    }
+  );
+
+  server.registerTool(
+    "find-emails-bulk",
+    {
+      description:
+        "Find the email address of every prospect of a CSV file. Writes the CSV back with the email found for each row, and the rows without one to a separate CSV. Running it again on the same file resumes where the previous run stopped.",
+      inputSchema: {
+        csv_path: z.string().describe("Path of a CSV file with a header row"),
+        columns: z
+          .object({
+            fullname: z.string().optional().describe("Full name column"),
+            first_name: z
+              .string()
+              .optional()
+              .describe("First name column, when there is no full name"),
+            last_name: z
+              .string()
+              .optional()
+              .describe("Last name column, when there is no full name"),
+            company_name: z.string().optional().describe("Company name column"),
+            company_website: z
+              .string()
+              .optional()
+              .describe("Company website column"),
+            country: z
+              .string()
+              .optional()
+              .describe("Column with the two letter country of the company"),
+          })
+          .optional()
+          .describe(
+            "Columns holding each finder field (Optional, detected from the header by default)"
+          ),
+        default_country: z
+          .string()
+          .length(2)
+          .optional()
+          .describe(
+            "Country of the rows without one, in two letter format (e.g. US, DE, FR, etc.) (Optional)"
+          ),
+        output_path: z
+          .string()
+          .optional()
+          .describe(
+            "Path of the enriched CSV (Optional, defaults to the input file with a .enriched.csv extension)"
+          ),
+        failures_path: z
+          .string()
+          .optional()
+          .describe(
+            "Path of the CSV of rows without an email (Optional, defaults to the input file with a .failed.csv extension)"
+          ),
+        restart: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Ignore the previous runs on this file and search every row again (Optional)"
+          ),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(5)
+          .describe("Searches run at the same time (Optional)"),
+        timeout_seconds: z
+          .number()
+          .min(1)
+          .max(3600)
+          .default(600)
+          .describe(
+            "Maximum time to wait for all searches, in seconds (Optional)"
+          ),
+      },
+      outputSchema: {
+        columns: z.record(z.string()),
+        contactsCount: z.number(),
+        contactsProcessed: z.number(),
+        contactsFound: z.number(),
+        contactsFailed: z.number(),
+        status: z.enum(["running", "done"]),
+        output: z.string(),
+        failures: z.string(),
+        state: z.string(),
+      },
+    },
+    async (
+      {
+        csv_path,
+        columns,
+        default_country,
+        output_path,
+        failures_path,
+        restart,
+        concurrency,
+        timeout_seconds,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let table: CsvTable;
+      try {
+        table = await readCsvFile(csv_path);
+      } catch (error) {
+        return errorResult(
+          `Failed to read ${csv_path}: ${(error as Error).message}`
+        );
+      }
+
+      const mapping: Partial<Record<FinderField, string>> = {};
+      for (const field of Object.keys(FINDER_COLUMNS) as FinderField[]) {
+        const column = columns?.[field];
+        if (column && !table.columns.includes(column)) {
+          return errorResult(
+            `Column "${column}" not found in ${csv_path}. Available columns: ${table.columns.join(
+              ", "
+            )}`
+          );
+        }
+        const detected =
+          column ||
+          (columns === undefined
+            ? findColumn(table.columns, FINDER_COLUMNS[field])
+            : undefined);
+        if (detected) mapping[field] = detected;
+      }
+      if (!mapping.fullname && !mapping.first_name && !mapping.last_name) {
+        return errorResult(
+          `No name column found in ${csv_path}. Pass columns.fullname, or columns.first_name and columns.last_name, with one of: ${table.columns.join(
+            ", "
+          )}`
+        );
+      }
+      if (!mapping.company_name) {
+        return errorResult(
+          `No company column found in ${csv_path}. Pass columns.company_name with one of: ${table.columns.join(
+            ", "
+          )}`
+        );
+      }
+
+      const value = (row: Record<string, string>, field: FinderField) =>
+        mapping[field] ? row[mapping[field]!].trim() : "";
+      const prospects = table.rows.map((row) => {
+        const fullname =
+          value(row, "fullname") ||
+          `${value(row, "first_name")} ${value(row, "last_name")}`.trim();
+        const payload = {
+          fullname,
+          companyName: value(row, "company_name"),
+          ...(value(row, "company_website") && {
+            companyWebsite: value(row, "company_website"),
+          }),
+          ...((value(row, "country") || default_country) && {
+            country: (value(row, "country") || default_country)!.toUpperCase(),
+          }),
+        };
+        return {
+          payload,
+          key: [
+            fullname,
+            payload.companyName,
+            payload.companyWebsite,
+            payload.country,
+          ]
+            .map((part) => (part || "").toLowerCase())
+            .join("|"),
+        };
+      });
+
+      // Each prospect is searched once, however many rows share it
+      const searches = new Map<string, Record<string, string>>();
+      prospects.forEach(({ payload, key }) => {
+        if (payload.fullname && payload.companyName && !searches.has(key)) {
+          searches.set(key, payload);
+        }
+      });
+
+      const statePath = siblingPath(csv_path, "find-emails", ".json");
+      let state: FinderState = { jobs: {} };
+      if (!restart) {
+        try {
+          state = await readFinderState(statePath);
+        } catch (error) {
+          return errorResult(
+            `Failed to read ${statePath}: ${
+              (error as Error).message
+            }. Use restart to search every row again.`
+          );
+        }
+      }
+      // Saves are chained so concurrent jobs never write the file at once. A
+      // failed save is reported with the results instead of failing the run,
+      // and the next save tries again.
+      let saveError: Error | undefined;
+      let saving = Promise.resolve();
+      const saveState = () => {
+        saving = saving
+          .then(() => writeFinderState(statePath, state))
+          .then(
+            () => {
+              saveError = undefined;
+            },
+            (error) => {
+              saveError = error as Error;
+            }
+          );
+        return saving;
+      };
+
+      // Searches a previous run finished are not run again
+      const results = new Map<string, JobRun>();
+      for (const key of searches.keys()) {
+        const saved = state.jobs[key];
+        if (saved?.job)
+          results.set(key, { jobId: saved.jobId, job: saved.job });
+      }
+      let resumed = results.size;
+
+      const deadline = Date.now() + timeout_seconds * 1000;
+      const keys = [...searches.keys()].filter((key) => !results.has(key));
+      const runs = await runBulk(
+        extra,
+        keys,
+        concurrency,
+        "prospects searched",
+        deadline,
+        async (key, signal) => {
+          const saved = state.jobs[key];
+          if (saved) resumed++;
+
+          const run = await runJob(
+            extra,
+            signal,
+            "/tools/find/email",
+            searches.get(key)!,
+            deadline,
+            {
+              jobId: saved?.jobId,
+              onStarted: (jobId) => {
+                state.jobs[key] = { jobId };
+                return saveState();
+              },
+            }
+          );
+          if (run.job && run.job.status !== "running") {
+            state.jobs[key] = { jobId: run.jobId!, job: run.job };
+            await saveState();
+          }
+          return run;
+        }
+      );
+      await saving;
+
+      runs.results.forEach((run, i) => run && results.set(keys[i], run));
+
+      const failed: Array<{
+        line: number;
+        row: Record<string, string>;
+        reason: string;
+      }> = [];
+      const enriched: CsvTable = {
+        columns: appendColumns(table.columns, [
+          "found_email",
+          "qualification",
+          "finder_status",
+        ]),
+        rows: table.rows.map((row, i) => {
+          const { payload, key } = prospects[i];
+          const run = results.get(key);
+          let status = run?.error ? "error" : run?.job?.status || "not_started";
+          let reason: string | undefined;
+          if (!searches.has(key)) {
+            status = "skipped";
+            reason = `Missing ${payload.fullname ? "company name" : "name"}`;
+          } else if (run?.error) {
+            reason = run.error.message;
+          } else if (status === "error") {
+            reason = run!.job!.error || "Search failed";
+          } else if (status === "done" && !run!.job!.email) {
+            reason = "No email found";
+          }
+          // Line numbers as shown by spreadsheets, after the header
+          if (reason) failed.push({ line: i + 2, row, reason });
+
+          return {
+            ...row,
+            found_email: run?.job?.email || "",
+            qualification: run?.job?.qualification || "",
+            finder_status: status,
+          };
+        }),
+      };
+      const failures: CsvTable = {
+        columns: appendColumns(table.columns, ["failure_reason"]),
+        rows: failed.map(({ row, reason }) => ({
+          ...row,
+          failure_reason: reason,
+        })),
+      };
+
+      const output = output_path || siblingPath(csv_path, "enriched");
+      const failuresOutput = failures_path || siblingPath(csv_path, "failed");
+      for (const [path, csv] of [
+        [output, enriched],
+        [failuresOutput, failures],
+      ] as const) {
+        try {
+          await writeCsvFile(path, csv);
+        } catch (error) {
+          return errorResult(
+            `Failed to write ${path}: ${(error as Error).message}`
+          );
+        }
+      }
+      if (runs.authError) {
+        return authStoppedResult(
+          "Failed to start email finder",
+          runs.authError,
+          [output, failuresOutput, saveError ? undefined : statePath]
+        );
+      }
+
+      const finished = [...results.values()].filter(
+        (run) => run.error || run.job?.status !== "running"
+      );
+      const contactsProcessed = finished.length;
+      const contactsFound = finished.filter((run) => run.job?.email).length;
+      const pending = searches.size - contactsProcessed;
+
+      let text = `Searched ${contactsProcessed} of ${
+        searches.size
+      } prospects from ${csv_path}: ${contactsFound} email${
+        contactsFound === 1 ? "" : "s"
+      } found.\n`;
+      if (resumed > 0) {
+        text += `${resumed} prospect${
+          resumed > 1 ? "s were" : " was"
+        } resumed from a previous run.\n`;
+      }
+      text += `Columns: ${Object.entries(mapping)
+        .map(([field, column]) => `${field} "${column}"`)
+        .join(", ")}\n`;
+      if (failed.length > 0) {
+        text += `\nRows without an email (${failed.length}), written to ${failuresOutput}:\n`;
+        failed.slice(0, MAX_LISTED_FAILURES).forEach(({ line, reason }) => {
+          const { fullname, companyName } = prospects[line - 2].payload;
+          const who = [fullname, companyName].filter(Boolean).join(", ");
+          text += `- Row ${line}${who ? ` (${who})` : ""}: ${reason}\n`;
+        });
+        if (failed.length > MAX_LISTED_FAILURES) {
+          text += `- ... and ${failed.length - MAX_LISTED_FAILURES} more\n`;
+        }
+      }
+      if (pending > 0) {
+        const notStarted = searches.size - results.size;
+        text += `\n${pending} search${
+          pending > 1 ? "es are" : " is"
+        } not finished${
+          notStarted > 0 ? `, ${notStarted} of them not started` : ""
+        }. Use this tool again on the same file to resume ${
+          pending > 1 ? "them" : "it"
+        }.\n`;
+      }
+      if (saveError) {
+        text += `\nFailed to write ${statePath}: ${saveError.message}. A new run searches the prospects not saved again.\n`;
+      }
+      text += `\nEnriched CSV written to ${output}`;
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          columns: mapping,
+          contactsCount: searches.size,
+          contactsProcessed,
+          contactsFound,
+          contactsFailed: failed.length,
+          status: pending > 0 ? "running" : "done",
+          output,
+          failures: failuresOutput,
+          state: statePath,
+        },
+      };
+    }
+  );
+
+  server.registerTool(
+    "find-phones-bulk",
+    {
+      description:
+        "Find the phone number of every LinkedIn profile of a CSV column. Writes a results CSV with the numbers in E.164 format and reports the hit rate.",
+      inputSchema: {
+        csv_path: z.string().describe("Path of a CSV file with a header row"),
+        linkedin_column: z
+          .string()
+          .optional()
+          .describe(
+            "Column holding the LinkedIn profile URLs (Optional, detected from the header by default)"
+          ),
+        output_path: z
+          .string()
+          .optional()
+          .describe(
+            "Path of the results CSV (Optional, defaults to the input file with a .phones.csv extension)"
+          ),
+        lookups_per_minute: z
+          .number()
+          .int()
+          .min(1)
+          .max(600)
+          .default(60)
+          .describe("Maximum number of lookups started per minute (Optional)"),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(3)
+          .describe("Lookups run at the same time (Optional)"),
+        timeout_seconds: z
+          .number()
+          .min(1)
+          .max(3600)
+          .default(600)
+          .describe(
+            "Maximum time to wait for all lookups, in seconds (Optional)"
+          ),
+      },
+      outputSchema: {
+        linkedinColumn: z.string(),
+        contactsCount: z.number(),
+        contactsProcessed: z.number(),
+        contactsFound: z.number(),
+        hitRate: z.number(),
+        status: z.enum(["running", "done"]),
+        output: z.string(),
+      },
+    },
+    async (
+      {
+        csv_path,
+        linkedin_column,
+        output_path,
+        lookups_per_minute,
+        concurrency,
+        timeout_seconds,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let table: CsvTable;
+      try {
+        table = await readCsvFile(csv_path);
+      } catch (error) {
+        return errorResult(
+          `Failed to read ${csv_path}: ${(error as Error).message}`
+        );
+      }
+
+      const linkedinColumn = linkedin_column
+        ? table.columns.find((column) => column === linkedin_column)
+        : findLinkedinColumn(table);
+      if (!linkedinColumn) {
+        return errorResult(
+          `${
+            linkedin_column
+              ? `Column "${linkedin_column}" not found`
+              : "No LinkedIn URL column found"
+          } in ${csv_path}. Pass linkedin_column with one of: ${table.columns.join(
+            ", "
+          )}`
+        );
+      }
+
+      // Each profile is looked up once, whatever its URL variant
+      const profiles = new Map<string, string>();
+      table.rows.forEach((row) => {
+        const key = linkedinProfileKey(row[linkedinColumn]);
+        if (key && !profiles.has(key))
+          profiles.set(key, row[linkedinColumn].trim());
+      });
+
+      const deadline = Date.now() + timeout_seconds * 1000;
+      const throttle = startThrottle(lookups_per_minute);
+      const keys = [...profiles.keys()];
+      const runs = await runBulk(
+        extra,
+        keys,
+        concurrency,
+        "profiles looked up",
+        deadline,
+        async (key, signal): Promise<JobRun | undefined> => {
+          try {
+            await throttle(signal);
+          } catch {
+            // The run stopped while this lookup waited for its turn
+            return undefined;
+          }
+          return runJob(
+            extra,
+            signal,
+            "/tools/find/phone",
+            { linkedinUrl: profiles.get(key) },
+            deadline
+          );
+        }
+      );
+
+      const results = new Map<string, JobRun>();
+      runs.results.forEach((run, i) => run && results.set(keys[i], run));
+
+      let skipped = 0;
+      const unformatted: string[] = [];
+      const output = output_path || siblingPath(csv_path, "phones");
+      const phones: CsvTable = {
+        columns: appendColumns(table.columns, [
+          "phone_number",
+          "phone_e164",
+          "phone_country",
+          "finder_status",
+        ]),
+        rows: table.rows.map((row) => {
+          const key = linkedinProfileKey(row[linkedinColumn]);
+          const run = key ? results.get(key) : undefined;
+          if (!key) skipped++;
+          const job = run?.job;
+          const phoneNumber: string = job?.phoneNumber || "";
+          const e164 = phoneNumber ? toE164(phoneNumber, job?.country) : "";
+          if (e164 === undefined) unformatted.push(phoneNumber);
+
+          return {
+            ...row,
+            phone_number: phoneNumber,
+            phone_e164: e164 || "",
+            phone_country: job?.country || "",
+            finder_status: !key
+              ? "skipped"
+              : run?.error
+              ? "error"
+              : job?.status || "not_started",
+          };
+        }),
+      };
+      try {
+        await writeCsvFile(output, phones);
+      } catch (error) {
+        return errorResult(
+          `Failed to write ${output}: ${(error as Error).message}`
+        );
+      }
+      if (runs.authError) {
+        return authStoppedResult(
+          "Failed to start phone finder",
+          runs.authError,
+          [output]
+        );
+      }
+
+      const finished = [...results.entries()].filter(
+        ([, run]) => run.error || run.job?.status !== "running"
+      );
+      const contactsProcessed = finished.length;
+      const contactsFound = finished.filter(
+        ([, run]) => run.job?.phoneNumber
+      ).length;
+      const hitRate = contactsProcessed
+        ? Math.round((contactsFound / contactsProcessed) * 1000) / 10
+        : 0;
+      const failed = finished.filter(
+        ([, run]) => run.error || run.job?.status === "error"
+      );
+      const pending = profiles.size - contactsProcessed;
+
+      let text = `Looked up ${contactsProcessed} of ${
+        profiles.size
+      } LinkedIn profiles from ${csv_path} (column "${linkedinColumn}"): ${contactsFound} phone number${
+        contactsFound === 1 ? "" : "s"
+      } found, a ${hitRate}% hit rate.\n`;
+      if (skipped > 0) {
+        text += `\nSkipped ${skipped} row${
+          skipped > 1 ? "s" : ""
+        } without a LinkedIn profile URL.\n`;
+      }
+      if (unformatted.length > 0) {
+        text += `\nNumbers that could not be converted to E.164, kept as found: ${[
+          ...new Set(unformatted),
+        ].join(", ")}\n`;
+      }
+      if (failed.length > 0) {
+        text += `\nFailed lookups:\n`;
+        failed.slice(0, MAX_LISTED_FAILURES).forEach(([key, run]) => {
+          text += `- ${profiles.get(key)}: ${
+            run.error?.message || "Lookup failed"
+          }\n`;
+        });
+        if (failed.length > MAX_LISTED_FAILURES) {
+          text += `- ... and ${failed.length - MAX_LISTED_FAILURES} more\n`;
+        }
+      }
+      if (pending > 0) {
+        text += `\n${pending} lookup${
+          pending > 1 ? "s were" : " was"
+        } not finished after ${timeout_seconds} seconds, their rows are marked as running or not_started.\n`;
+      }
+      text += `\nResults written to ${output}`;
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          linkedinColumn,
+          contactsCount: profiles.size,
+          contactsProcessed,
+          contactsFound,
+          hitRate,
+          status: pending > 0 ? "running" : "done",
+          output,
+        },
+      };
+    }
+  );
+
+  server.registerTool(
+    "import-contacts",
+    {
+      description:
+        "Import the contacts of a CSV or JSON file into an email, LinkedIn or advanced campaign, and report the result of each row. Rows are validated and deduplicated before being added.",
+      inputSchema: {
+        campaign_type: z
+          .enum(["email", "linkedin", "advanced"])
+          .describe("Type of the campaign"),
+        campaign_id: z.string().describe("Campaign ID"),
+        file_path: z
+          .string()
+          .describe(
+            "Path of a CSV file with a header row, or of a JSON file holding an array of contacts"
+          ),
+        columns: z
+          .object({
+            email: z
+              .string()
+              .optional()
+              .describe(
+                "Email address column, for email and advanced campaigns"
+              ),
+            linkedin_url: z
+              .string()
+              .optional()
+              .describe(
+                "LinkedIn profile URL column, for LinkedIn and advanced campaigns"
+              ),
+            first_name: z.string().optional().describe("First name column"),
+            last_name: z.string().optional().describe("Last name column"),
+          })
+          .optional()
+          .describe(
+            "Columns holding each contact field (Optional, detected from the header by default)"
+          ),
+        custom_fields: z
+          .record(z.string())
+          .optional()
+          .describe(
+            'Custom field name for each other column to import, e.g. {"Company": "company"} (Optional, by default every other column is imported under its own name)'
+          ),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(5)
+          .describe("Contacts added at the same time (Optional)"),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        columns: z.record(z.string()),
+        contactsCount: z.number(),
+        contactsAdded: z.number(),
+        contactsFailed: z.number(),
+        rows: z.array(
+          z.object({
+            row: z.number(),
+            status: z.enum([
+              "added",
+              "failed",
+              "invalid",
+              "duplicate",
+              "pending",
+            ]),
+            email: z.string().optional(),
+            linkedinUrl: z.string().optional(),
+            contactId: z.string().optional(),
+            error: z.string().optional(),
+          })
+        ),
+      },
+    },
+    async (
+      {
+        campaign_type,
+        campaign_id,
+        file_path,
+        columns,
+        custom_fields,
+        concurrency,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let table: CsvTable;
+      try {
+        table = await readContactsFile(file_path);
+      } catch (error) {
+        return errorResult(
+          `Failed to read ${file_path}: ${(error as Error).message}`
+        );
+      }
+
+      const missing = Object.keys(custom_fields || {})
+        .concat(Object.values(columns || {}))
+        .filter((column) => !table.columns.includes(column));
+      if (missing.length > 0) {
+        return errorResult(
+          `Column${missing.length > 1 ? "s" : ""} ${missing
+            .map((column) => `"${column}"`)
+            .join(
+              ", "
+            )} not found in ${file_path}. Available columns: ${table.columns.join(
+            ", "
+          )}`
+        );
+      }
+
+      // Email campaigns only identify contacts by email address and LinkedIn
+      // campaigns by profile URL: the other column is a custom field there
+      const detect = columns === undefined;
+      const mapping: Record<string, string> = {};
+      const emailColumn =
+        campaign_type === "linkedin"
+          ? undefined
+          : columns?.email ??
+            (detect ? findColumn(table.columns, EMAIL_COLUMNS) : undefined);
+      const linkedinColumn =
+        campaign_type === "email"
+          ? undefined
+          : columns?.linkedin_url ??
+            (detect ? findLinkedinColumn(table) : undefined);
+      const firstNameColumn =
+        columns?.first_name ??
+        (detect
+          ? findColumn(table.columns, FINDER_COLUMNS.first_name)
+          : undefined);
+      const lastNameColumn =
+        columns?.last_name ??
+        (detect
+          ? findColumn(table.columns, FINDER_COLUMNS.last_name)
+          : undefined);
+      if (emailColumn) mapping.email = emailColumn;
+      if (linkedinColumn) mapping.linkedin_url = linkedinColumn;
+      if (firstNameColumn) mapping.first_name = firstNameColumn;
+      if (lastNameColumn) mapping.last_name = lastNameColumn;
+
+      const needsEmail = campaign_type === "email";
+      const needsLinkedin = campaign_type === "linkedin";
+      if ((needsEmail && !emailColumn) || (needsLinkedin && !linkedinColumn)) {
+        return errorResult(
+          `No ${
+            needsEmail ? "email" : "LinkedIn URL"
+          } column found in ${file_path}. Pass columns.${
+            needsEmail ? "email" : "linkedin_url"
+          } with one of: ${table.columns.join(", ")}`
+        );
+      }
+      if (!emailColumn && !linkedinColumn) {
+        return errorResult(
+          `No email or LinkedIn URL column found in ${file_path}. Pass columns.email or columns.linkedin_url with one of: ${table.columns.join(
+            ", "
+          )}`
+        );
+      }
+
+      // Every column not mapped to a contact field is a custom field
+      const customFields =
+        custom_fields ||
+        Object.fromEntries(
+          table.columns
+            .filter((column) => !Object.values(mapping).includes(column))
+            .map((column) => [column, column])
+        );
+
+      // Line numbers as shown by spreadsheets for CSV files, positions in the
+      // array for JSON files
+      const firstRow = /\.json$/i.test(file_path) ? 1 : 2;
+      type ImportRow = {
+        row: number;
+        status: "added" | "failed" | "invalid" | "duplicate" | "pending";
+        email?: string;
+        linkedinUrl?: string;
+        contactId?: string;
+        error?: string;
+      };
+      const report: ImportRow[] = [];
+      const contacts: Array<{
+        report: ImportRow;
+        contact: Record<string, string>;
+      }> = [];
+      const seen = new Map<string, number>();
+
+      table.rows.forEach((row, i) => {
+        const value = (column?: string) => (column ? row[column].trim() : "");
+        const email = value(emailColumn);
+        const linkedinUrl = value(linkedinColumn);
+        const entry: ImportRow = {
+          row: i + firstRow,
+          status: "pending",
+          ...(email && { email }),
+          ...(linkedinUrl && { linkedinUrl }),
+        };
+        report.push(entry);
+
+        const linkedinKey = linkedinUrl
+          ? linkedinProfileKey(linkedinUrl)
+          : undefined;
+        let error: string | undefined;
+        if (needsEmail && !email) error = "Missing email address";
+        else if (needsLinkedin && !linkedinUrl)
+          error = "Missing LinkedIn profile URL";
+        else if (!email && !linkedinUrl)
+          error = "Missing email address and LinkedIn profile URL";
+        else if (email && !EMAIL_FORMAT.test(email))
+          error = `Invalid email address "${email}"`;
+        else if (linkedinUrl && !linkedinKey)
+          error = `Invalid LinkedIn profile URL "${linkedinUrl}"`;
+        if (error) {
+          entry.status = "invalid";
+          entry.error = error;
+          return;
+        }
+
+        const keys = [
+          email && `email:${email.toLowerCase()}`,
+          linkedinKey && `linkedin:${linkedinKey}`,
+        ].filter((key): key is string => Boolean(key));
+        const duplicateOf = keys
+          .map((key) => seen.get(key))
+          .find((line) => line !== undefined);
+        if (duplicateOf !== undefined) {
+          entry.status = "duplicate";
+          entry.error = `Duplicate of row ${duplicateOf}`;
+          return;
+        }
+        keys.forEach((key) => seen.set(key, entry.row));
+
+        const custom = Object.fromEntries(
+          Object.entries(customFields)
+            .filter(([column]) => value(column))
+            .map(([column, field]) => [field, value(column)])
+        );
+        const firstName = value(firstNameColumn);
+        const lastName = value(lastNameColumn);
+        contacts.push({
+          report: entry,
+          contact: {
+            ...(campaign_type === "email" && { email }),
+            ...(campaign_type === "linkedin" && { url: linkedinUrl }),
+            ...(campaign_type === "advanced" && {
+              ...(email && { email }),
+              ...(linkedinUrl && { linkedinUrlProfile: linkedinUrl }),
+            }),
+            ...(firstName && { firstName }),
+            ...(lastName && { lastName }),
+            ...custom,
+          },
+        });
+      });
+
+      const target = CAMPAIGN_CONTACTS[campaign_type];
+      const runs = await runBulk(
+        extra,
+        contacts,
+        concurrency,
+        "contacts imported",
+        undefined,
+        async ({ report: entry, contact }) => {
+          const result = await makeEmeliaRequest<EmeliaApiResponse>(
+            extra,
+            `${apiUrl}${target.path}`,
+            {
+              method: "POST",
+              body: JSON.stringify({ id: campaign_id, contact }),
+            }
+          );
+          if (result.ok) {
+            entry.status = "added";
+            if (result.data.contactId) entry.contactId = result.data.contactId;
+            return {};
+          }
+          entry.status = "failed";
+          entry.error = result.error.message;
+          return { error: result.error };
+        }
+      );
+      if (runs.authError) {
+        return emeliaErrorResult(
+          `Failed to add contacts to ${target.label}`,
+          runs.authError
+        );
+      }
+
+      const added = report.filter((entry) => entry.status === "added");
+      const failed = report.filter(
+        (entry) => entry.status === "failed" || entry.status === "invalid"
+      );
+      const duplicates = report.filter((entry) => entry.status === "duplicate");
+      const pending = report.filter((entry) => entry.status === "pending");
+
+      let text = `Imported ${added.length} of ${contacts.length} contacts from ${file_path} into ${target.label} ${campaign_id}.\n`;
+      text += `Columns: ${Object.entries(mapping)
+        .map(([field, column]) => `${field} "${column}"`)
+        .join(", ")}\n`;
+      const customNames = Object.values(customFields);
+      if (customNames.length > 0) {
+        text += `Custom fields: ${customNames.join(", ")}\n`;
+      }
+      if (duplicates.length > 0) {
+        text += `\nSkipped ${duplicates.length} duplicate row${
+          duplicates.length > 1 ? "s" : ""
+        }.\n`;
+      }
+      if (failed.length > 0) {
+        text += `\nRows not imported (${failed.length}):\n`;
+        failed.slice(0, MAX_LISTED_FAILURES).forEach((entry) => {
+          text += `- Row ${entry.row}: ${entry.error}\n`;
+        });
+        if (failed.length > MAX_LISTED_FAILURES) {
+          text += `- ... and ${failed.length - MAX_LISTED_FAILURES} more\n`;
+        }
+      }
+      if (pending.length > 0) {
+        text += `\nThe request was cancelled before ${pending.length} row${
+          pending.length > 1 ? "s were" : " was"
+        } imported.\n`;
+      }
+
+      return {
+        content: [{ type: "text", text: text.trimEnd() }],
+        structuredContent: {
+          campaignId: campaign_id,
+          columns: mapping,
+          contactsCount: contacts.length,
+          contactsAdded: added.length,
+          contactsFailed: failed.length,
+          rows: report,
+        },
+      };
+    }
+  );
+
+  server.registerTool(
+    "export-campaign-contacts",
+    {
+      description:
+        "Export every contact of an email, LinkedIn or advanced campaign to a CSV, JSON Lines or Excel-compatible CSV file, going through all the pages",
+      inputSchema: {
+        campaign_type: z
+          .enum(["email", "linkedin", "advanced"])
+          .describe("Type of the campaign"),
+        campaign_id: z.string().describe("Campaign ID"),
+        output_path: z.string().describe("Path of the file to write"),
+        format: z
+          .enum(["csv", "jsonl", "xlsx-csv"])
+          .default("csv")
+          .describe(
+            "csv, jsonl (one JSON contact per line, custom fields nested) or xlsx-csv (CSV that Excel opens as is) (Optional)"
+          ),
+        event: z
+          .string()
+          .optional()
+          .describe(
+            "Only export the contacts with this event (Optional), e.g. REPLIED, OPENED, CLICKED for email campaigns or INVITED, ACCEPTED, REPLIED for LinkedIn campaigns"
+          ),
+        query: z.string().optional().describe("Search query (Optional)"),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        format: z.string(),
+        output: z.string(),
+        contactsCount: z.number(),
+        columns: z.array(z.string()).optional(),
+      },
+    },
+    async (
+      { campaign_type, campaign_id, output_path, format, event, query },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const target = CAMPAIGN_CONTACTS[campaign_type];
+      const progressToken = extra._meta?.progressToken;
+      const contacts: Array<Record<string, any>> = [];
+
+      for (let page = 1; ; page++) {
+        let url = `${apiUrl}${target.path}?id=${campaign_id}&page=${page}&perPage=${EXPORT_PAGE_SIZE}`;
+        if (event) {
+          url += `&event=${event}`;
+        }
+        if (query) {
+          url += `&query=${encodeURIComponent(query)}`;
+        }
+
+        const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, url);
+        if (!result.ok) {
+          return emeliaErrorResult(
+            "Failed to retrieve campaign contacts",
+            result.error
+          );
+        }
+
+        const pageContacts =
+          (result.data.contacts as Array<Record<string, any>>) || [];
+        contacts.push(...pageContacts);
+        const total = (result.data.total as number) || contacts.length;
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: contacts.length,
+              total,
+              message: `${contacts.length}/${total} contacts exported`,
+            },
+          });
+        }
+
+        if (
+          pageContacts.length < EXPORT_PAGE_SIZE ||
+          contacts.length >= total
+        ) {
+          break;
+        }
+      }
+
+      const table =
+        format === "jsonl" ? undefined : contactsTable(contacts, target.fields);
+      try {
+        if (table) {
+          await writeCsvFile(output_path, table, {
+            excel: format === "xlsx-csv",
+          });
+        } else {
+          await writeJsonLines(output_path, contacts);
+        }
+      } catch (error) {
+        return errorResult(
+          `Failed to write ${output_path}: ${(error as Error).message}`
+        );
+      }
+
+      const filters = [
+        event && `event ${event}`,
+        query && `query "${query}"`,
+      ].filter(Boolean);
+      let text = `Exported ${contacts.length} contact${
+        contacts.length === 1 ? "" : "s"
+      } of ${target.label} ${campaign_id}${
+        filters.length ? ` (${filters.join(", ")})` : ""
+      } to ${output_path} as ${format}.`;
+      if (table) {
+        text += `\nColumns: ${table.columns.join(", ")}`;
+      }
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          campaignId: campaign_id,
+          format,
+          output: output_path,
+          contactsCount: contacts.length,
+          columns: table?.columns,
+        },
+      };
+    }
+  );
+
+  // Start a job, or resume the one started by a previous run, and wait for it
+  // until the deadline or until `signal`, the signal of the bulk run, aborts.
+  // `onStarted` runs once the job ID is known.
+  async function runJob(
+    extra: ToolExtra,
+    signal: AbortSignal,
+    path: string,
+    payload: Record<string, unknown>,
+    deadline: number,
+    resume?: { jobId?: string; onStarted?: (jobId: string) => Promise<void> }
+  ): Promise<JobRun> {
+    let jobId = resume?.jobId;
+    if (!jobId) {
+      const started = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${path}`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+        }
+      );
+      if (!started.ok) {
+        return { error: started.error };
+      }
+      jobId = started.data.jobId as string;
+      await resume?.onStarted?.(jobId);
+    }
+
+    const job = await waitForEmeliaJob(
+      { ...extra, signal },
+      `${apiUrl}${path}/${jobId}`,
+      Math.max(deadline - Date.now(), 0)
+    );
+    if (!job.ok && signal.aborted) {
+      // The run stopped, not the job: it goes on, and its ID gets its result
+      return { jobId, job: { status: "running" } };
+    }
+    return job.ok ? { jobId, job: job.data } : { jobId, error: job.error };
+  }
+}
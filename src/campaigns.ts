@@ -0,0 +1,2911 @@
+// Tools changing the configuration and lifecycle of existing campaigns,
+// copying them, or moving them between the LinkedIn accounts running them.
+// Each one reads the campaign first to check the change applies to it, and
+// reads it again afterwards to confirm what the API did.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  authRequiredResult,
+  EmeliaApiResponse,
+  emeliaErrorResult,
+  EmeliaError,
+  errorResult,
+  getCampaign,
+  getEmeliaApiKey,
+  makeEmeliaRequest,
+  mapWithConcurrency,
+  refId,
+} from "./helpers.js";
+import {
+  emailScheduleSchema,
+  emailStepSchema,
+  linkedinAccountSchema,
+  linkedinScheduleSchema,
+  linkedinStepSchema,
+} from "./schemas.js";
+import {
+  CampaignModel,
+  DelayUnit,
+  LinkedinCampaignModel,
+  StepType,
+} from "./types/models.js";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type CampaignType = "email" | "linkedin" | "advanced";
+
+type CampaignStatus = "RUNNING" | "PAUSED" | "DRAFT" | "FINISHED" | "ARCHIVED";
+
+// Endpoints of each campaign type, with the contact fields a copy carries
+// over (custom fields are copied too) and the contact lists it can target,
+// with the fields identifying their contacts
+const CAMPAIGN_TYPES: Record<
+  CampaignType,
+  {
+    path: string;
+    label: string;
+    contacts: string;
+    contactFields: string[];
+    lists: { path: string; keys: string[] };
+  }
+> = {
+  email: {
+    path: "/emails/campaigns",
+    label: "Email campaign",
+    contacts: "/emails/campaign/contacts",
+    contactFields: ["email", "firstName", "lastName", "phoneNumber"],
+    lists: { path: "/emails/lists", keys: ["email"] },
+  },
+  linkedin: {
+    path: "/linkedin/campaigns",
+    label: "LinkedIn campaign",
+    contacts: "/linkedin/campaign/contacts",
+    contactFields: ["url", "firstName", "lastName"],
+    lists: { path: "/linkedin/lists", keys: ["url"] },
+  },
+  advanced: {
+    path: "/advanced/campaigns",
+    label: "Advanced campaign",
+    contacts: "/advanced/campaign/contacts",
+    contactFields: ["email", "linkedinUrlProfile", "firstName", "lastName"],
+    lists: { path: "/advanced/lists", keys: ["email", "linkedinUrlProfile"] },
+  },
+};
+
+// Configuration fields a copy of a campaign starts with. Anything else, e.g.
+// the status, stats or recipients, describes the run of the campaign.
+const COPIED_SETTINGS = [
+  "schedule",
+  "steps",
+  "provider",
+  "useManyProviders",
+  "providersUsed",
+  "account",
+  "zapierData",
+  "hubspotIntegration",
+  "pipedriveIntegration",
+];
+
+// Contacts read per request when copying the contacts of a campaign
+const CONTACTS_PAGE_SIZE = 100;
+
+// Contacts added to a copy at the same time
+const CONTACTS_COPY_CONCURRENCY = 5;
+
+// Status changes of the campaign lifecycle, with the statuses they apply to
+const LIFECYCLE = {
+  start: { from: ["DRAFT"], to: "RUNNING", done: "started" },
+  pause: { from: ["RUNNING"], to: "PAUSED", done: "paused" },
+  resume: { from: ["PAUSED"], to: "RUNNING", done: "resumed" },
+  archive: {
+    from: ["DRAFT", "PAUSED", "FINISHED"],
+    to: "ARCHIVED",
+    done: "archived",
+  },
+} satisfies Record<
+  string,
+  { from: CampaignStatus[]; to: CampaignStatus; done: string }
+>;
+
+type LifecycleAction = keyof typeof LIFECYCLE;
+
+// What to do instead when a change does not apply to the current status
+const LIFECYCLE_HINTS: Partial<Record<string, string>> = {
+  "start:PAUSED": "Use the resume-campaign tool to restart a paused campaign.",
+  "resume:DRAFT": "Use the start-campaign tool to launch a draft campaign.",
+  "archive:RUNNING": "Pause it with the pause-campaign tool first.",
+};
+
+const campaignTypeInput = z
+  .enum(["email", "linkedin", "advanced"])
+  .describe("Type of the campaign");
+
+const lifecycleOutput = {
+  campaignId: z.string(),
+  name: z.string().optional(),
+  previousStatus: z.string(),
+  status: z.string(),
+  plannedStart: z.string().optional(),
+};
+
+// A step of an email campaign sequence and its A/B versions, keeping the
+// fields the API adds (IDs, per-version options) when they are sent back
+interface SequenceVersion {
+  subject?: string;
+  message: string;
+  disabled?: boolean;
+  rawHtml?: boolean;
+  attachments?: Array<{ name: string; url: string }>;
+  options?: { provider?: unknown; [option: string]: unknown };
+  [field: string]: unknown;
+}
+
+interface SequenceStep {
+  delay?: { amount: number; unit: DelayUnit };
+  versions: SequenceVersion[];
+  [field: string]: unknown;
+}
+
+const stepInput = z
+  .number()
+  .int()
+  .min(0)
+  .describe("Step index (0 = first step, 1 = second step, etc.)");
+
+const versionInput = z
+  .number()
+  .int()
+  .min(0)
+  .describe("Version index for A/B testing (0 = A version, 1 = B version)");
+
+const delayUnitInput = z
+  .enum(["MINUTES", "HOURS", "DAYS"])
+  .default("DAYS")
+  .describe("Unit of delay_amount");
+
+const versionInputs = {
+  subject: z
+    .string()
+    .optional()
+    .describe(
+      "Email subject (Optional after the first step: versions without a subject are sent as a reply in the same thread)"
+    ),
+  message: z.string().min(1).describe("Email body, in HTML"),
+  raw_html: z
+    .boolean()
+    .optional()
+    .describe(
+      "Send the message as written, without Emelia's formatting (Optional)"
+    ),
+  attachments: z
+    .array(z.object({ name: z.string(), url: z.string().url() }))
+    .optional()
+    .describe("Attachments as array of {name, url} objects (Optional)"),
+  disabled: z
+    .boolean()
+    .optional()
+    .describe("Keep the version but stop sending it (Optional)"),
+};
+
+const sequenceOutput = {
+  campaignId: z.string(),
+  steps: z.array(emailStepSchema),
+};
+
+const versionName = (index: number) =>
+  `version ${index < 26 ? String.fromCharCode(65 + index) : index + 1}`;
+
+const stepName = (index: number) => `step ${index + 1} (index ${index})`;
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+function formatDelay({ amount, unit }: { amount: number; unit: string }) {
+  const name = unit.toLowerCase();
+  return `${amount} ${amount === 1 ? name.replace(/s$/, "") : name}`;
+}
+
+// First words of a message, without its HTML
+function preview(message: string): string {
+  const text = message
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function formatSequence(steps: SequenceStep[]): string {
+  if (steps.length === 0) {
+    return "The sequence has no steps.";
+  }
+  return steps
+    .map((step, i) => {
+      const timing =
+        i === 0
+          ? "sent first"
+          : `sent ${
+              step.delay ? formatDelay(step.delay) : "with no delay"
+            } after step ${i}`;
+      const versions = step.versions.map((version, j) => {
+        const details = [
+          version.subject
+            ? `subject "${version.subject}"`
+            : "reply in the same thread",
+          `message "${preview(version.message)}"`,
+        ];
+        if (version.rawHtml) details.push("raw HTML");
+        if (version.attachments?.length) {
+          details.push(
+            `${version.attachments.length} attachment${
+              version.attachments.length === 1 ? "" : "s"
+            }`
+          );
+        }
+        if (version.disabled) details.push("disabled");
+        return `  ${capitalize(versionName(j))}: ${details.join(", ")}`;
+      });
+      return [`${capitalize(stepName(i))}, ${timing}`, ...versions].join("\n");
+    })
+    .join("\n\n");
+}
+
+// Why Emelia would not send the sequence as is, if it would not
+function validateSequence(steps: SequenceStep[]): string | undefined {
+  for (const [i, step] of steps.entries()) {
+    if (!step.versions.some((version) => !version.disabled)) {
+      return `${capitalize(
+        stepName(i)
+      )} would have no enabled version left. Enable another version, or delete the step with the delete-campaign-step tool.`;
+    }
+    if (i > 0 && !step.delay) {
+      return `${capitalize(
+        stepName(i)
+      )} needs a delay: every step after the first is sent a delay after the previous one. Pass delay_amount to set it.`;
+    }
+  }
+  const missing = steps[0]?.versions.findIndex(
+    (version) => !version.disabled && !version.subject?.trim()
+  );
+  if (missing !== undefined && missing >= 0) {
+    return `${capitalize(
+      versionName(missing)
+    )} of step 1 needs a subject: the first email starts the thread that later steps without a subject reply in.`;
+  }
+  return undefined;
+}
+
+function noStep(steps: SequenceStep[], index: number): string {
+  return steps.length === 0
+    ? `The sequence has no steps yet, so there is no step at index ${index}.`
+    : `The sequence has no step at index ${index}: its ${steps.length} step${
+        steps.length === 1 ? " has" : "s have"
+      } indexes 0 to ${steps.length - 1}.`;
+}
+
+function noVersion(step: SequenceStep, stepIndex: number, index: number) {
+  return `${capitalize(
+    stepName(stepIndex)
+  )} has no version at index ${index}: its ${step.versions.length} version${
+    step.versions.length === 1 ? " has" : "s have"
+  } indexes 0 to ${step.versions.length - 1}.`;
+}
+
+// A version with the fields that were given, in the shape of the API
+function newVersion(fields: {
+  subject?: string;
+  message: string;
+  raw_html?: boolean;
+  attachments?: Array<{ name: string; url: string }>;
+  disabled?: boolean;
+}): SequenceVersion {
+  const version: SequenceVersion = { message: fields.message };
+  if (fields.subject) version.subject = fields.subject;
+  if (fields.raw_html !== undefined) version.rawHtml = fields.raw_html;
+  if (fields.attachments?.length) version.attachments = fields.attachments;
+  if (fields.disabled !== undefined) version.disabled = fields.disabled;
+  return version;
+}
+
+interface LinkedinStep {
+  stepType: StepType;
+  delay: { amount: number; unit: DelayUnit };
+  versions: Array<{
+    message: string;
+    disabled?: boolean;
+    [field: string]: unknown;
+  }>;
+  [field: string]: unknown;
+}
+
+// What each kind of LinkedIn step does, and the text LinkedIn lets it send
+const LINKEDIN_STEPS: Record<
+  StepType,
+  {
+    action: string;
+    text?: { name: string; required: boolean; maxLength: number };
+  }
+> = {
+  VISIT: { action: "visit the profile" },
+  CONNECTION: {
+    action: "send a connection request",
+    text: { name: "a connection note", required: false, maxLength: 300 },
+  },
+  MESSAGE: {
+    action: "send a message",
+    text: { name: "a message", required: true, maxLength: 8000 },
+  },
+  LIKE: { action: "like a recent post" },
+  FOLLOW: { action: "follow the profile" },
+  INMAIL: {
+    action: "send an InMail",
+    text: { name: "an InMail", required: true, maxLength: 1900 },
+  },
+};
+
+function formatLinkedinSequence(steps: LinkedinStep[]): string {
+  if (steps.length === 0) {
+    return "The sequence has no steps.";
+  }
+  return steps
+    .map((step, i) => {
+      const timing =
+        i > 0
+          ? `${formatDelay(step.delay)} after step ${i}`
+          : step.delay.amount
+          ? `${formatDelay(step.delay)} after the contact joins the campaign`
+          : "as soon as the contact joins the campaign";
+      const kind = LINKEDIN_STEPS[step.stepType];
+      const header = `${capitalize(stepName(i))}, ${step.stepType}: ${
+        kind?.action || step.stepType.toLowerCase()
+      }, ${timing}`;
+      if (step.stepType === "CONNECTION" && step.versions.length === 0) {
+        return `${header}\n  Without a note`;
+      }
+      const versions = step.versions.map(
+        (version, j) =>
+          `  ${capitalize(versionName(j))}: "${preview(version.message)}" (${
+            version.message.length
+          } characters)${version.disabled ? ", disabled" : ""}`
+      );
+      return [header, ...versions].join("\n");
+    })
+    .join("\n\n");
+}
+
+// Why LinkedIn would not run the sequence as is. `firstDegreeOnly` tells
+// whether every contact is already a 1st-degree connection, when known.
+function validateLinkedinSequence(
+  steps: LinkedinStep[],
+  firstDegreeOnly?: boolean
+): string[] {
+  const problems: string[] = [];
+  if (steps.length === 0) {
+    return ["The sequence has no steps."];
+  }
+
+  steps.forEach((step, i) => {
+    const kind = LINKEDIN_STEPS[step.stepType];
+    const name = capitalize(stepName(i));
+    if (!kind) {
+      problems.push(`${name} has an unknown step type: ${step.stepType}.`);
+      return;
+    }
+    if (!kind.text) {
+      if (step.versions.length) {
+        problems.push(
+          `${name} is a ${step.stepType} step, which sends no text: remove its versions.`
+        );
+      }
+      return;
+    }
+    if (
+      kind.text.required &&
+      !step.versions.some(
+        (version) => !version.disabled && version.message.trim()
+      )
+    ) {
+      problems.push(
+        `${name} is a ${step.stepType} step and needs at least one enabled version with ${kind.text.name}.`
+      );
+    }
+    step.versions.forEach((version, j) => {
+      if (version.message.length > kind.text!.maxLength) {
+        problems.push(
+          `${capitalize(versionName(j))} of ${stepName(i)} is ${
+            version.message.length
+          } characters long, over the ${
+            kind.text!.maxLength
+          } characters LinkedIn allows in ${kind.text!.name}.`
+        );
+      }
+    });
+  });
+
+  const connections = steps.flatMap((step, i) =>
+    step.stepType === "CONNECTION" ? [i] : []
+  );
+  const messages = steps.flatMap((step, i) =>
+    step.stepType === "MESSAGE" ? [i] : []
+  );
+  if (connections.length > 1) {
+    problems.push(
+      `The sequence has ${connections.length} CONNECTION steps, but a contact can only be invited once.`
+    );
+  }
+  if (connections.length && firstDegreeOnly) {
+    problems.push(
+      `${capitalize(
+        stepName(connections[0])
+      )} sends a connection request, but first_degree_only says every contact is already a connection.`
+    );
+  }
+  const early = messages.filter(
+    (i) => connections.length && i < connections[0]
+  );
+  if (early.length) {
+    problems.push(
+      `${capitalize(
+        stepName(early[0])
+      )} sends a MESSAGE before the CONNECTION ${stepName(
+        connections[0]
+      )}: LinkedIn only delivers messages to 1st-degree connections, so invite contacts first.`
+    );
+  }
+  if (messages.length && !connections.length && firstDegreeOnly === false) {
+    problems.push(
+      `${capitalize(
+        stepName(messages[0])
+      )} sends a MESSAGE, but the sequence has no CONNECTION step: LinkedIn only delivers messages to 1st-degree connections. Add a CONNECTION step before it, or set first_degree_only if every contact is already a connection.`
+    );
+  }
+  return problems;
+}
+
+type EmailSchedule = CampaignModel["schedule"];
+
+// Index of each day in `schedule.days`, as in Date.getDay()
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// What the contact does that stops the emails of the sequence
+const STOP_EVENTS = {
+  FIRST_OPEN: "opens an email for the first time",
+  OPENED: "opens an email",
+  CLICKED: "clicks a link",
+  REPLIED: "replies",
+  BOUNCED: "bounces",
+  UNSUBSCRIBED: "unsubscribes",
+  INTERESTED: "is marked as interested",
+};
+
+const timeOfDayInput = z
+  .string()
+  .regex(TIME_OF_DAY, "Use the 24-hour HH:mm format, e.g. 09:30");
+
+const daysInput = z
+  .array(z.number().int().min(0).max(6))
+  .min(1)
+  .describe("Days of the week to send on, 0 = Sunday to 6 = Saturday");
+
+// Canonical name of an IANA time zone, e.g. europe/paris -> Europe/Paris, or
+// undefined when it is not one. UTC offsets such as +01:00 are not accepted,
+// as they do not follow daylight saving time.
+function ianaTimeZone(name: string): string | undefined {
+  if (!/^[A-Za-z]+(?:[/_-][A-Za-z0-9+-]+)*$/.test(name)) {
+    return undefined;
+  }
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: name,
+    }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+const minutesOfDay = (time: string) =>
+  Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+function formatList(items: string[], conjunction = "and"): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(", ")} ${conjunction} ${
+        items[items.length - 1]
+      }`
+    : items.join("");
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const parts = [
+    hours ? `${hours} hour${hours === 1 ? "" : "s"}` : "",
+    minutes % 60
+      ? `${minutes % 60} minute${minutes % 60 === 1 ? "" : "s"}`
+      : "",
+  ];
+  return parts.filter(Boolean).join(" ") || "0 minutes";
+}
+
+// Days of the week from Monday, with runs of 3 days or more as a range,
+// e.g. "Monday to Wednesday and Friday"
+function formatDays(days: number[]): string {
+  const sorted = [...new Set(days)].sort(
+    (a, b) => ((a + 6) % 7) - ((b + 6) % 7)
+  );
+  if (sorted.length === 7) {
+    return "every day";
+  }
+  const runs: number[][] = [];
+  for (const day of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && (run[run.length - 1] + 1) % 7 === day && day !== 1) {
+      run.push(day);
+    } else {
+      runs.push([day]);
+    }
+  }
+  return formatList(
+    runs.flatMap((run) =>
+      run.length >= 3
+        ? [`${DAY_NAMES[run[0]]} to ${DAY_NAMES[run[run.length - 1]]}`]
+        : run.map((day) => DAY_NAMES[day])
+    )
+  );
+}
+
+// Why a sending window could not be used, if it could not
+function validateWindow(
+  schedule: Pick<EmailSchedule, "timeZone" | "days" | "start" | "end">
+): string[] {
+  const problems: string[] = [];
+  if (!ianaTimeZone(schedule.timeZone)) {
+    problems.push(
+      `"${schedule.timeZone}" is not an IANA time zone. Use a name such as Europe/Paris or America/New_York.`
+    );
+  }
+  const times = [schedule.start, schedule.end];
+  if (times.some((time) => !TIME_OF_DAY.test(time))) {
+    problems.push(
+      `Start and end must use the 24-hour HH:mm format, got ${schedule.start} and ${schedule.end}.`
+    );
+  } else if (minutesOfDay(schedule.start) >= minutesOfDay(schedule.end)) {
+    problems.push(
+      `The start time (${schedule.start}) must be before the end time (${schedule.end}).`
+    );
+  }
+  if (
+    schedule.days.length === 0 ||
+    schedule.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    problems.push(
+      "Days must list at least one day of the week, from 0 = Sunday to 6 = Saturday."
+    );
+  } else if (new Set(schedule.days).size !== schedule.days.length) {
+    problems.push("Days must list each day of the week once.");
+  }
+  return problems;
+}
+
+// Why Emelia could not send on this schedule, if it could not
+function validateSchedule(schedule: EmailSchedule): string[] {
+  const problems = validateWindow(schedule);
+  if (schedule.minInterval > schedule.maxInterval) {
+    problems.push(
+      `The minimum interval (${schedule.minInterval} minutes) must not be above the maximum interval (${schedule.maxInterval} minutes).`
+    );
+  }
+  if (schedule.dailyContact > schedule.dailyLimit) {
+    problems.push(
+      `The new contacts a day (${schedule.dailyContact}) must not be above the daily limit of emails (${schedule.dailyLimit}), which includes them.`
+    );
+  }
+  return problems;
+}
+
+// The sending window and limits of a schedule, in plain language
+function describeSchedule(schedule: EmailSchedule): string {
+  const window = minutesOfDay(schedule.end) - minutesOfDay(schedule.start);
+  const pace = (schedule.minInterval + schedule.maxInterval) / 2;
+  const fit = pace > 0 ? Math.floor(window / pace) : Infinity;
+  const lines = [
+    `Sends ${formatDays(schedule.days)}, from ${schedule.start} to ${
+      schedule.end
+    } ${schedule.timeZone} time (${formatMinutes(window)} a day).`,
+    `Waits ${schedule.minInterval} to ${
+      schedule.maxInterval
+    } minutes between two emails, so ${
+      fit < schedule.dailyLimit
+        ? `about ${fit} emails fit in the window: fewer than the daily limit of ${schedule.dailyLimit} emails, which will not be reached.`
+        : `the daily limit of ${schedule.dailyLimit} emails is reached before the window ends.`
+    }`,
+    `Emails up to ${schedule.dailyContact} new contacts a day.`,
+  ];
+  const stops = (schedule.eventToStopMails || []).map(
+    (event) => STOP_EVENTS[event as keyof typeof STOP_EVENTS] || event
+  );
+  if (stops.length) {
+    lines.push(
+      `Stops the sequence of a contact who ${formatList(stops, "or")}.`
+    );
+  }
+  const tracked = [
+    schedule.trackOpens ? "opens" : "",
+    schedule.trackLinks ? "clicks" : "",
+  ].filter(Boolean);
+  lines.push(
+    tracked.length
+      ? `Tracks ${tracked.join(" and ")}.`
+      : "Tracks neither opens nor clicks."
+  );
+  if (schedule.blacklistUnsub) {
+    lines.push("Adds contacts who unsubscribe to the blacklist.");
+  }
+  if (schedule.bcc) {
+    lines.push(`Sends a copy of every email to ${schedule.bcc}.`);
+  }
+  return lines.join("\n");
+}
+
+// A campaign read without its schedule, which every campaign should have
+function missingSchedule(id: string): CallToolResult {
+  return errorResult(`Emelia returned no schedule for campaign ${id}`);
+}
+
+type LinkedinSchedule = LinkedinCampaignModel["schedule"];
+
+// Ceilings keeping LinkedIn accounts clear of the activity that gets them
+// restricted: contacts starting the sequence each day, actions of the
+// sequence each day, and connection requests each week
+const LINKEDIN_LIMITS = {
+  dailyContacts: 50,
+  dailyActions: 150,
+  weeklyInvitations: 100,
+};
+
+// Exclusion flags of a LinkedIn schedule, with the contacts they skip
+const LINKEDIN_EXCLUSIONS = {
+  exclude1stConn: "1st-degree connections",
+  excludeAlreadyMessaged: "contacts already messaged on LinkedIn",
+  excludeNoPictures: "profiles without a picture",
+};
+
+// Why a LinkedIn campaign should not run on this schedule, with the steps of
+// its sequence, if it should not
+function validateLinkedinSchedule(
+  schedule: LinkedinSchedule,
+  steps: LinkedinStep[]
+): string[] {
+  const problems = validateWindow(schedule);
+  const { dailyContacts, dailyActions, weeklyInvitations } = LINKEDIN_LIMITS;
+  if (schedule.dailyContact > dailyContacts) {
+    problems.push(
+      `${schedule.dailyContact} new contacts a day is above the safety ceiling of ${dailyContacts}: LinkedIn restricts accounts that act at this pace.`
+    );
+  }
+  const actions = schedule.dailyContact * steps.length;
+  if (actions > dailyActions) {
+    problems.push(
+      `${schedule.dailyContact} new contacts a day with ${
+        steps.length
+      } steps makes about ${actions} LinkedIn actions a day, above the safety ceiling of ${dailyActions}. Lower daily_contact to ${Math.floor(
+        dailyActions / steps.length
+      )} or less.`
+    );
+  }
+  const inviting = steps.some((step) => step.stepType === "CONNECTION");
+  const invitations = schedule.dailyContact * new Set(schedule.days).size;
+  if (inviting && invitations > weeklyInvitations) {
+    problems.push(
+      `${schedule.dailyContact} connection requests a day on ${
+        new Set(schedule.days).size
+      } days makes ${invitations} a week, above the safety ceiling of ${weeklyInvitations}. Lower daily_contact to ${Math.floor(
+        weeklyInvitations / new Set(schedule.days).size
+      )} or less, or send on fewer days.`
+    );
+  }
+  if (
+    schedule.exclude1stConn &&
+    !inviting &&
+    steps.some((step) => step.stepType === "MESSAGE")
+  ) {
+    problems.push(
+      "Excluding 1st-degree connections leaves only contacts who are not connections, and the sequence messages them without a CONNECTION step, so no message would be delivered."
+    );
+  }
+  return problems;
+}
+
+// The window, pace and audience of a LinkedIn schedule, in plain language
+function describeLinkedinSchedule(
+  schedule: LinkedinSchedule,
+  steps: LinkedinStep[]
+): string {
+  const window = minutesOfDay(schedule.end) - minutesOfDay(schedule.start);
+  const lines = [
+    `Runs ${formatDays(schedule.days)}, from ${schedule.start} to ${
+      schedule.end
+    } ${schedule.timeZone} time (${formatMinutes(window)} a day).`,
+    `Starts the sequence for up to ${schedule.dailyContact} new contacts a day${
+      steps.length
+        ? `: about ${
+            schedule.dailyContact * steps.length
+          } LinkedIn actions a day with its ${steps.length} step${
+            steps.length === 1 ? "" : "s"
+          }`
+        : ""
+    }.`,
+  ];
+  if (steps.some((step) => step.stepType === "CONNECTION")) {
+    lines.push(
+      `Sends up to ${
+        schedule.dailyContact * new Set(schedule.days).size
+      } connection requests a week.`
+    );
+  }
+  const skipped = Object.entries(LINKEDIN_EXCLUSIONS)
+    .filter(([flag]) => schedule[flag as keyof typeof LINKEDIN_EXCLUSIONS])
+    .map(([, contacts]) => contacts);
+  lines.push(
+    skipped.length ? `Skips ${formatList(skipped)}.` : "Skips no contacts."
+  );
+  return lines.join("\n");
+}
+
+// The configuration of a campaign, to create a copy of it. Steps and versions
+// lose their IDs so the API gives the copy its own, and integrations their
+// sync date so the copy syncs from scratch.
+function copySettings(campaign: Record<string, any>): Record<string, any> {
+  const settings = Object.fromEntries(
+    Object.entries(campaign).filter(([key]) => COPIED_SETTINGS.includes(key))
+  );
+  if (Array.isArray(settings.steps)) {
+    settings.steps = settings.steps.map(
+      ({ _id, versions, ...step }: Record<string, any>) => ({
+        ...step,
+        versions: (versions || []).map(
+          ({ _id, ...version }: Record<string, any>) => version
+        ),
+      })
+    );
+  }
+  for (const key of ["hubspotIntegration", "pipedriveIntegration"]) {
+    if (settings[key]) {
+      const { lastSynced, ...integration } = settings[key];
+      settings[key] = integration;
+    }
+  }
+  return settings;
+}
+
+// Days a new sender warms up before it can send campaigns at full volume
+const WARMUP_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An email provider of the account, with its warm-up if it has one
+interface Sender {
+  provider: Record<string, any>;
+  warmup?: Record<string, any>;
+}
+
+// The sender settings of an email campaign, with references as IDs
+interface SenderSettings {
+  provider?: string;
+  useManyProviders: boolean;
+  providersUsed: string[];
+  steps: SequenceStep[];
+}
+
+const senderName = (id: string, senders: Map<string, Sender>) =>
+  senders.get(id)?.provider.senderEmail || id;
+
+// Why a campaign should not send from a provider yet, if it should not
+function senderWarnings(
+  id: string,
+  senders: Map<string, Sender>,
+  now: number
+): string[] {
+  const sender = senders.get(id);
+  if (!sender) {
+    return [`${id} is not one of the email providers of the account.`];
+  }
+  const { provider, warmup } = sender;
+  const warnings: string[] = [];
+  if (provider.disabled) {
+    warnings.push(
+      `${provider.senderEmail} is disabled: the campaign sends nothing from it until it is enabled again.`
+    );
+  }
+  if (provider.disconnected) {
+    warnings.push(
+      `${provider.senderEmail} is disconnected: reconnect it in Emelia before the campaign sends from it.`
+    );
+  }
+  if (warmup?.running && warmup.startDate) {
+    const day = Math.floor((now - Date.parse(warmup.startDate)) / DAY_MS) + 1;
+    if (day <= WARMUP_DAYS) {
+      warnings.push(
+        `${provider.senderEmail} is still warming up (day ${day} of ${WARMUP_DAYS}): sending a campaign from it now can hurt its reputation.`
+      );
+    }
+  }
+  return warnings;
+}
+
+// Versions of the sequence that always send from the same provider
+function senderPins(steps: SequenceStep[]) {
+  return steps.flatMap((step, i) =>
+    step.versions.flatMap((version, j) => {
+      const provider = refId(version.options?.provider);
+      return provider ? [{ step: i, version: j, provider }] : [];
+    })
+  );
+}
+
+// A connected LinkedIn account, as the API lists it without its cookies
+type LinkedinAccount = Record<string, any>;
+
+// The fields of a LinkedIn account safe to return, leaving out its cookies,
+// browser settings and proxy credentials
+function publicAccount(account: LinkedinAccount): LinkedinAccount {
+  const { _id, name, status, disabled, hasAdvanced, metadata, proxy } = account;
+  return {
+    _id,
+    name,
+    status,
+    disabled,
+    hasAdvanced,
+    metadata: metadata && {
+      id: metadata.id,
+      handle: metadata.handle,
+      fullName: metadata.fullName,
+      picture: metadata.picture,
+      hasPremium: metadata.hasPremium,
+    },
+    proxy: proxy && { host: proxy.host, port: proxy.port },
+  };
+}
+
+const accountName = (account: LinkedinAccount) =>
+  account.name || account.metadata?.fullName || account._id;
+
+// Why campaigns assigned to a LinkedIn account do not run as expected, if
+// they do not
+function accountWarnings(
+  account: LinkedinAccount,
+  campaigns: Array<Record<string, any>>
+): string[] {
+  const name = accountName(account);
+  const warnings: string[] = [];
+  if (account.status === "invalid") {
+    const stalled = campaigns.filter((c) => c.status === "RUNNING");
+    warnings.push(
+      `${name} has an invalid cookie: reconnect it in Emelia${
+        stalled.length
+          ? `, meanwhile ${formatList(stalled.map((c) => `"${c.name}"`))} ${
+              stalled.length === 1 ? "takes" : "take"
+            } no action`
+          : ""
+      }.`
+    );
+  }
+  if (account.disabled) {
+    warnings.push(
+      `${name} is disabled: its campaigns take no action until it is enabled again.`
+    );
+  }
+  const linkedinId = account.metadata?.id;
+  for (const campaign of campaigns) {
+    if (
+      campaign.assignedSender &&
+      linkedinId &&
+      campaign.assignedSender !== linkedinId
+    ) {
+      warnings.push(
+        `"${campaign.name}" was started with LinkedIn user ${campaign.assignedSender}, but ${name} is LinkedIn user ${linkedinId}.`
+      );
+    }
+  }
+  return warnings;
+}
+
+export function registerCampaignTools(server: McpServer, apiUrl: string): void {
+  // Every contact of a paginated contact listing, e.g. the contacts of a
+  // campaign or of a contact list
+  async function readContacts(extra: ToolExtra, url: string) {
+    const all: Array<Record<string, any>> = [];
+    const separator = url.includes("?") ? "&" : "?";
+    for (let page = 1; ; page++) {
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${url}${separator}page=${page}&perPage=${CONTACTS_PAGE_SIZE}`
+      );
+      if (!result.ok) {
+        return result;
+      }
+
+      const batch = (result.data.contacts as Array<Record<string, any>>) || [];
+      all.push(...batch);
+      const total = result.data.total as number | undefined;
+      if (
+        batch.length < CONTACTS_PAGE_SIZE ||
+        (total !== undefined && page * CONTACTS_PAGE_SIZE >= total)
+      ) {
+        return { ok: true as const, contacts: all };
+      }
+    }
+  }
+
+  async function changeStatus(
+    extra: ToolExtra,
+    action: LifecycleAction,
+    type: CampaignType,
+    id: string,
+    plannedStart?: string
+  ): Promise<CallToolResult> {
+    if (!getEmeliaApiKey(extra)) {
+      return authRequiredResult();
+    }
+
+    const { label } = CAMPAIGN_TYPES[type];
+    const change = LIFECYCLE[action];
+    const before = await getCampaign(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES[type].path}`,
+      id
+    );
+    if (!before.ok) {
+      return emeliaErrorResult("Failed to retrieve campaign", before.error);
+    }
+
+    const previousStatus: string = before.campaign.status;
+    const name = before.campaign.name ? ` "${before.campaign.name}"` : "";
+    if (!(change.from as string[]).includes(previousStatus)) {
+      const hint = LIFECYCLE_HINTS[`${action}:${previousStatus}`];
+      return errorResult(
+        `Cannot ${action} ${label}${name}: its status is ${previousStatus}, and only ${change.from.join(
+          " or "
+        )} campaigns can be ${change.done}.${hint ? `\n${hint}` : ""}`
+      );
+    }
+
+    // Whether contacts are all 1st-degree connections is not known here, so
+    // only the rules that hold for every contact are checked
+    if (action === "start" && type === "linkedin") {
+      const problems = validateLinkedinSequence(before.campaign.steps || []);
+      if (problems.length) {
+        return errorResult(
+          `Cannot start ${label}${name}: its sequence would not run on LinkedIn.\n${problems
+            .map((problem) => `- ${problem}`)
+            .join("\n")}\nFix it with the set-linkedin-sequence tool.`
+        );
+      }
+    }
+
+    const result = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES[type].path}/${id}/${action}`,
+      {
+        method: "POST",
+        body: JSON.stringify(plannedStart ? { plannedStart } : {}),
+      }
+    );
+    if (!result.ok) {
+      return emeliaErrorResult(`Failed to ${action} campaign`, result.error);
+    }
+
+    const after = await getCampaign(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES[type].path}`,
+      id
+    );
+    if (!after.ok) {
+      return emeliaErrorResult(
+        `Campaign ${change.done}, but failed to confirm its status`,
+        after.error
+      );
+    }
+
+    const status: string = after.campaign.status;
+    let text =
+      status === change.to
+        ? `${label}${name} ${change.done}. Status: ${status}`
+        : `${label}${name} was ${change.done}, but its status is still ${status}. Check it again in a moment.`;
+    if (after.campaign.plannedStart) {
+      text += `\nPlanned start: ${after.campaign.plannedStart}`;
+    }
+
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: {
+        campaignId: id,
+        name: after.campaign.name,
+        previousStatus,
+        status,
+        plannedStart: after.campaign.plannedStart,
+      },
+    };
+  }
+
+  // Apply `edit` to the sequence of an email campaign and save it. `edit`
+  // returns why it cannot apply, if it cannot.
+  async function editSequence(
+    extra: ToolExtra,
+    id: string,
+    done: string,
+    edit: (steps: SequenceStep[]) => string | void
+  ): Promise<CallToolResult> {
+    if (!getEmeliaApiKey(extra)) {
+      return authRequiredResult();
+    }
+
+    const before = await getCampaign(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+      id
+    );
+    if (!before.ok) {
+      return emeliaErrorResult("Failed to retrieve campaign", before.error);
+    }
+
+    const steps: SequenceStep[] = before.campaign.steps || [];
+    const first = steps[0];
+    const problem = edit(steps);
+    if (problem) {
+      return errorResult(problem);
+    }
+    // The first step is sent without delay. When another step takes its
+    // place, the former first step gets the delay it had.
+    if (steps[0] && steps[0] !== first) {
+      if (first && steps.includes(first) && !first.delay) {
+        first.delay = steps[0].delay;
+      }
+      delete steps[0].delay;
+    }
+    const invalid = validateSequence(steps);
+    if (invalid) {
+      return errorResult(invalid);
+    }
+
+    const result = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.email.path}/${id}`,
+      { method: "PATCH", body: JSON.stringify({ steps }) }
+    );
+    if (!result.ok) {
+      return emeliaErrorResult(
+        "Failed to update campaign sequence",
+        result.error
+      );
+    }
+
+    const after = await getCampaign(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+      id
+    );
+    if (!after.ok) {
+      return emeliaErrorResult(
+        "Sequence updated, but failed to read it back",
+        after.error
+      );
+    }
+
+    const saved: SequenceStep[] = after.campaign.steps || [];
+    const name = after.campaign.name ? ` of "${after.campaign.name}"` : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${done}. Sequence${name}:\n\n${formatSequence(saved)}`,
+        },
+      ],
+      structuredContent: { campaignId: id, steps: saved },
+    };
+  }
+
+  server.registerTool(
+    "start-campaign",
+    {
+      description:
+        "Launch a draft email, LinkedIn or advanced campaign, now or at a planned date",
+      inputSchema: {
+        campaign_type: campaignTypeInput,
+        campaign_id: z.string().describe("Campaign ID"),
+        planned_start: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe(
+            "Date and time to start sending, ISO format, e.g. 2025-03-01T09:00:00+01:00 (Optional, starts now by default)"
+          ),
+      },
+      outputSchema: lifecycleOutput,
+    },
+    async ({ campaign_type, campaign_id, planned_start }, extra) => {
+      if (planned_start && Date.parse(planned_start) <= Date.now()) {
+        return errorResult(
+          `planned_start must be in the future, got ${planned_start}`
+        );
+      }
+
+      return changeStatus(
+        extra,
+        "start",
+        campaign_type,
+        campaign_id,
+        planned_start && new Date(planned_start).toISOString()
+      );
+    }
+  );
+
+  server.registerTool(
+    "pause-campaign",
+    {
+      description: "Pause a running email, LinkedIn or advanced campaign",
+      inputSchema: {
+        campaign_type: campaignTypeInput,
+        campaign_id: z.string().describe("Campaign ID"),
+      },
+      outputSchema: lifecycleOutput,
+    },
+    ({ campaign_type, campaign_id }, extra) =>
+      changeStatus(extra, "pause", campaign_type, campaign_id)
+  );
+
+  server.registerTool(
+    "resume-campaign",
+    {
+      description: "Resume a paused email, LinkedIn or advanced campaign",
+      inputSchema: {
+        campaign_type: campaignTypeInput,
+        campaign_id: z.string().describe("Campaign ID"),
+      },
+      outputSchema: lifecycleOutput,
+    },
+    ({ campaign_type, campaign_id }, extra) =>
+      changeStatus(extra, "resume", campaign_type, campaign_id)
+  );
+
+  server.registerTool(
+    "archive-campaign",
+    {
+      description:
+        "Archive a finished, paused or draft email, LinkedIn or advanced campaign",
+      inputSchema: {
+        campaign_type: campaignTypeInput,
+        campaign_id: z.string().describe("Campaign ID"),
+      },
+      outputSchema: lifecycleOutput,
+    },
+    ({ campaign_type, campaign_id }, extra) =>
+      changeStatus(extra, "archive", campaign_type, campaign_id)
+  );
+
+  server.registerTool(
+    "add-campaign-step",
+    {
+      description:
+        "Add a step to the sequence of an email campaign, with its first A/B version",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        position: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Index to insert the step at (Optional, adds it after the last step by default)"
+          ),
+        delay_amount: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Delay between the previous step and this one (Required for every step but the first. When inserting at index 0, it becomes the delay of the former first step)"
+          ),
+        delay_unit: delayUnitInput,
+        ...versionInputs,
+      },
+      outputSchema: sequenceOutput,
+    },
+    async (
+      { campaign_id, position, delay_amount, delay_unit, ...version },
+      extra
+    ) =>
+      editSequence(extra, campaign_id, "Step added", (steps) => {
+        const index = position ?? steps.length;
+        if (index > steps.length) {
+          return `Cannot add a step at index ${index}: the sequence has ${
+            steps.length
+          } step${
+            steps.length === 1 ? "" : "s"
+          }, so the last index a step can be added at is ${steps.length}.`;
+        }
+        const step: SequenceStep = { versions: [newVersion(version)] };
+        if (delay_amount !== undefined) {
+          step.delay = { amount: delay_amount, unit: delay_unit };
+        }
+        steps.splice(index, 0, step);
+      })
+  );
+
+  server.registerTool(
+    "update-campaign-step",
+    {
+      description:
+        "Change the delay between a step of an email campaign sequence and the previous step",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+        delay_amount: z
+          .number()
+          .int()
+          .min(0)
+          .describe("Delay between the previous step and this one"),
+        delay_unit: delayUnitInput,
+      },
+      outputSchema: sequenceOutput,
+    },
+    async ({ campaign_id, step, delay_amount, delay_unit }, extra) =>
+      editSequence(extra, campaign_id, "Step updated", (steps) => {
+        if (!steps[step]) {
+          return noStep(steps, step);
+        }
+        if (step === 0) {
+          return "The first step is sent as soon as a contact enters the campaign, so it has no delay. Set the schedule of the campaign instead.";
+        }
+        steps[step].delay = { amount: delay_amount, unit: delay_unit };
+      })
+  );
+
+  server.registerTool(
+    "move-campaign-step",
+    {
+      description:
+        "Move a step of an email campaign sequence to another position. Steps keep their delay, except that a step moved to the first position hands its delay to the step it replaces there.",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+        to: z.number().int().min(0).describe("Index to move the step to"),
+      },
+      outputSchema: sequenceOutput,
+    },
+    async ({ campaign_id, step, to }, extra) =>
+      editSequence(extra, campaign_id, "Step moved", (steps) => {
+        if (!steps[step]) {
+          return noStep(steps, step);
+        }
+        if (!steps[to]) {
+          return noStep(steps, to);
+        }
+        steps.splice(to, 0, ...steps.splice(step, 1));
+      })
+  );
+
+  server.registerTool(
+    "delete-campaign-step",
+    {
+      description:
+        "Delete a step and all its A/B versions from the sequence of an email campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+      },
+      outputSchema: sequenceOutput,
+    },
+    async ({ campaign_id, step }, extra) =>
+      editSequence(extra, campaign_id, "Step deleted", (steps) => {
+        if (!steps[step]) {
+          return noStep(steps, step);
+        }
+        steps.splice(step, 1);
+      })
+  );
+
+  server.registerTool(
+    "add-step-version",
+    {
+      description: "Add an A/B version to a step of an email campaign sequence",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+        ...versionInputs,
+      },
+      outputSchema: sequenceOutput,
+    },
+    async ({ campaign_id, step, ...version }, extra) =>
+      editSequence(extra, campaign_id, "Version added", (steps) => {
+        if (!steps[step]) {
+          return noStep(steps, step);
+        }
+        steps[step].versions.push(newVersion(version));
+      })
+  );
+
+  server.registerTool(
+    "update-step-version",
+    {
+      description:
+        "Change the subject, message, attachments or options of an A/B version of an email campaign step",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+        version: versionInput,
+        ...versionInputs,
+        subject: versionInputs.subject.describe(
+          "New email subject, or an empty string to send the version as a reply in the same thread (Optional)"
+        ),
+        message: versionInputs.message
+          .optional()
+          .describe("New email body, in HTML (Optional)"),
+        attachments: versionInputs.attachments.describe(
+          "New attachments as array of {name, url} objects, or an empty array to remove them (Optional)"
+        ),
+      },
+      outputSchema: sequenceOutput,
+    },
+    async (
+      {
+        campaign_id,
+        step,
+        version,
+        subject,
+        message,
+        raw_html,
+        attachments,
+        disabled,
+      },
+      extra
+    ) => {
+      if (
+        [subject, message, raw_html, attachments, disabled].every(
+          (field) => field === undefined
+        )
+      ) {
+        return errorResult(
+          "Nothing to update: pass at least one of subject, message, raw_html, attachments or disabled"
+        );
+      }
+
+      return editSequence(extra, campaign_id, "Version updated", (steps) => {
+        const target = steps[step];
+        if (!target) {
+          return noStep(steps, step);
+        }
+        const current = target.versions[version];
+        if (!current) {
+          return noVersion(target, step, version);
+        }
+        if (subject !== undefined) {
+          if (subject) current.subject = subject;
+          else delete current.subject;
+        }
+        if (message !== undefined) current.message = message;
+        if (raw_html !== undefined) current.rawHtml = raw_html;
+        if (attachments !== undefined) {
+          if (attachments.length) current.attachments = attachments;
+          else delete current.attachments;
+        }
+        if (disabled !== undefined) current.disabled = disabled;
+      });
+    }
+  );
+
+  server.registerTool(
+    "delete-step-version",
+    {
+      description:
+        "Delete an A/B version from a step of an email campaign sequence",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+        version: versionInput,
+      },
+      outputSchema: sequenceOutput,
+    },
+    async ({ campaign_id, step, version }, extra) =>
+      editSequence(extra, campaign_id, "Version deleted", (steps) => {
+        const target = steps[step];
+        if (!target) {
+          return noStep(steps, step);
+        }
+        if (!target.versions[version]) {
+          return noVersion(target, step, version);
+        }
+        target.versions.splice(version, 1);
+      })
+  );
+
+  server.registerTool(
+    "get-campaign-schedule",
+    {
+      description:
+        "Get the sending schedule of an email campaign: days, hours, time zone, pace and limits",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        schedule: emailScheduleSchema,
+      },
+    },
+    async ({ campaign_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+        campaign_id
+      );
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", result.error);
+      }
+
+      const schedule: EmailSchedule | undefined = result.campaign.schedule;
+      if (!schedule) {
+        return missingSchedule(campaign_id);
+      }
+      const name = result.campaign.name ? ` of "${result.campaign.name}"` : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Schedule${name}:\n\n${describeSchedule(schedule)}`,
+          },
+        ],
+        structuredContent: { campaignId: campaign_id, schedule },
+      };
+    }
+  );
+
+  server.registerTool(
+    "update-campaign-schedule",
+    {
+      description:
+        "Change the sending schedule of an email campaign. Only the settings passed change.",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        time_zone: z
+          .string()
+          .optional()
+          .describe(
+            "IANA time zone of the schedule, e.g. Europe/Paris (Optional)"
+          ),
+        days: daysInput.optional(),
+        start: timeOfDayInput
+          .optional()
+          .describe("Time to start sending each day, HH:mm (Optional)"),
+        end: timeOfDayInput
+          .optional()
+          .describe("Time to stop sending each day, HH:mm (Optional)"),
+        min_interval: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Minimum minutes between two emails (Optional)"),
+        max_interval: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Maximum minutes between two emails (Optional)"),
+        daily_contact: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("New contacts to email each day (Optional)"),
+        daily_limit: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Emails to send each day, follow-ups included (Optional)"),
+        event_to_stop_mails: z
+          .array(z.enum(Object.keys(STOP_EVENTS) as [keyof typeof STOP_EVENTS]))
+          .optional()
+          .describe(
+            "Events that stop the sequence for a contact, e.g. REPLIED (Optional)"
+          ),
+        track_opens: z.boolean().optional().describe("Track opens (Optional)"),
+        track_links: z
+          .boolean()
+          .optional()
+          .describe("Track link clicks (Optional)"),
+        blacklist_unsub: z
+          .boolean()
+          .optional()
+          .describe("Blacklist contacts who unsubscribe (Optional)"),
+        bcc: z
+          .union([z.string().email(), z.literal("")])
+          .optional()
+          .describe(
+            "Address to send a copy of every email to, or an empty string to stop (Optional)"
+          ),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        schedule: emailScheduleSchema,
+      },
+    },
+    async ({ campaign_id, ...changes }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const before = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+        campaign_id
+      );
+      if (!before.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", before.error);
+      }
+      if (!before.campaign.schedule) {
+        return missingSchedule(campaign_id);
+      }
+
+      const schedule: EmailSchedule = {
+        ...before.campaign.schedule,
+        ...Object.fromEntries(
+          Object.entries({
+            timeZone:
+              changes.time_zone &&
+              (ianaTimeZone(changes.time_zone) ?? changes.time_zone),
+            days: changes.days,
+            start: changes.start,
+            end: changes.end,
+            minInterval: changes.min_interval,
+            maxInterval: changes.max_interval,
+            dailyContact: changes.daily_contact,
+            dailyLimit: changes.daily_limit,
+            eventToStopMails: changes.event_to_stop_mails,
+            trackOpens: changes.track_opens,
+            trackLinks: changes.track_links,
+            blacklistUnsub: changes.blacklist_unsub,
+            bcc: changes.bcc,
+          }).filter(([, value]) => value !== undefined)
+        ),
+      };
+      const problems = validateSchedule(schedule);
+      if (problems.length) {
+        return errorResult(
+          `Schedule not updated:\n${problems.map((p) => `- ${p}`).join("\n")}`
+        );
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.email.path}/${campaign_id}`,
+        { method: "PATCH", body: JSON.stringify({ schedule }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to update campaign schedule",
+          result.error
+        );
+      }
+
+      const after = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+        campaign_id
+      );
+      if (!after.ok) {
+        return emeliaErrorResult(
+          "Schedule updated, but failed to read it back",
+          after.error
+        );
+      }
+
+      const saved: EmailSchedule | undefined = after.campaign.schedule;
+      if (!saved) {
+        return missingSchedule(campaign_id);
+      }
+      const name = after.campaign.name ? ` of "${after.campaign.name}"` : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Schedule${name} updated:\n\n${describeSchedule(saved)}`,
+          },
+        ],
+        structuredContent: { campaignId: campaign_id, schedule: saved },
+      };
+    }
+  );
+
+  server.registerTool(
+    "clone-campaign",
+    {
+      description:
+        "Copy an email, LinkedIn or advanced campaign into a new draft, with its steps, schedule, sender and integration settings, and optionally its contacts",
+      inputSchema: {
+        campaign_type: campaignTypeInput,
+        campaign_id: z.string().describe("ID of the campaign to copy"),
+        name: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            'Name of the copy (Optional, defaults to the name of the campaign followed by " (copy)")'
+          ),
+        include_recipients: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Copy the contact lists and contacts of the campaign too, adding the contacts not in those lists individually (Optional, default false)"
+          ),
+        provider_id: z
+          .string()
+          .optional()
+          .describe(
+            "Email provider to send the copy from, for email and advanced campaigns (Optional, keeps the sender of the campaign by default)"
+          ),
+        linkedin_account_id: z
+          .string()
+          .optional()
+          .describe(
+            "LinkedIn account to run the copy with, for LinkedIn and advanced campaigns (Optional, keeps the account of the campaign by default)"
+          ),
+        step_texts: z
+          .array(
+            z.object({
+              step: stepInput,
+              version: versionInput.default(0),
+              subject: z
+                .string()
+                .optional()
+                .describe(
+                  "New subject, or an empty string to send the version as a reply in the same thread (Optional, email steps only)"
+                ),
+              message: z
+                .string()
+                .min(1)
+                .optional()
+                .describe("New message (Optional)"),
+            })
+          )
+          .optional()
+          .describe(
+            "New texts for versions of the copy, e.g. to translate the sequence (Optional)"
+          ),
+      },
+      outputSchema: {
+        sourceId: z.string(),
+        campaignId: z.string(),
+        name: z.string(),
+        status: z.string(),
+        steps: z.number(),
+        contactLists: z.array(z.string()).optional(),
+        contactsCopied: z.number().optional(),
+        contactsInLists: z.number().optional(),
+        contactsFailed: z
+          .array(z.object({ contact: z.string(), error: z.string() }))
+          .optional(),
+      },
+    },
+    async (
+      {
+        campaign_type,
+        campaign_id,
+        name,
+        include_recipients,
+        provider_id,
+        linkedin_account_id,
+        step_texts,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+      if (provider_id && campaign_type === "linkedin") {
+        return errorResult(
+          "provider_id applies to email and advanced campaigns. Use linkedin_account_id to change the account of a LinkedIn campaign."
+        );
+      }
+      if (linkedin_account_id && campaign_type === "email") {
+        return errorResult(
+          "linkedin_account_id applies to LinkedIn and advanced campaigns. Use provider_id to change the sender of an email campaign."
+        );
+      }
+
+      const {
+        label,
+        path,
+        contacts,
+        contactFields,
+        lists: contactLists,
+      } = CAMPAIGN_TYPES[campaign_type];
+      const source = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES[campaign_type].path}`,
+        campaign_id
+      );
+      if (!source.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", source.error);
+      }
+
+      // Every override is checked before anything is created
+      const settings = copySettings(source.campaign);
+      const steps: SequenceStep[] = settings.steps || [];
+      for (const text of step_texts || []) {
+        const step = steps[text.step];
+        if (!step) {
+          return errorResult(noStep(steps, text.step));
+        }
+        const version = step.versions[text.version];
+        if (!version) {
+          return errorResult(noVersion(step, text.step, text.version));
+        }
+        if (text.subject === undefined && text.message === undefined) {
+          return errorResult(
+            `Nothing to change in ${versionName(text.version)} of ${stepName(
+              text.step
+            )}: pass a subject or a message.`
+          );
+        }
+        if (text.subject !== undefined && campaign_type === "linkedin") {
+          return errorResult("LinkedIn steps have no subject, only a message.");
+        }
+        if (text.subject) version.subject = text.subject;
+        else if (text.subject !== undefined) delete version.subject;
+        if (text.message !== undefined) version.message = text.message;
+      }
+      if (provider_id) {
+        const previous = refId(settings.provider);
+        settings.provider = provider_id;
+        if (Array.isArray(settings.providersUsed)) {
+          settings.providersUsed = settings.providersUsed.map((ref: unknown) =>
+            refId(ref) === previous ? provider_id : ref
+          );
+        }
+      }
+      if (linkedin_account_id) {
+        settings.account = linkedin_account_id;
+      }
+      const lists: string[] = (source.campaign.recipients?.lists || [])
+        .map(refId)
+        .filter(Boolean);
+      if (include_recipients && lists.length) {
+        settings.recipients = { lists };
+      }
+
+      const copyName = name || `${source.campaign.name} (copy)`;
+      const created = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${path}`,
+        { method: "POST", body: JSON.stringify({ name: copyName }) }
+      );
+      if (!created.ok) {
+        return emeliaErrorResult("Failed to create the copy", created.error);
+      }
+      const copyId = created.data.campaignId as string | undefined;
+      if (!copyId) {
+        return errorResult(
+          `Created the draft "${copyName}", but Emelia did not return its ID, so the settings of the campaign were not copied into it. Delete or archive the draft before trying again.`
+        );
+      }
+
+      const updated = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${path}/${copyId}`,
+        { method: "PATCH", body: JSON.stringify(settings) }
+      );
+      if (!updated.ok) {
+        return emeliaErrorResult(
+          `Created the draft ${copyId}, but failed to copy the settings of the campaign into it. Delete or archive the draft before trying again`,
+          updated.error
+        );
+      }
+
+      let copied: number | undefined;
+      let inLists: number | undefined;
+      let failed: Array<{ contact: string; error: string }> | undefined;
+      if (include_recipients) {
+        const recipients = await readContacts(
+          extra,
+          `${apiUrl}${contacts}?id=${campaign_id}`
+        );
+        if (!recipients.ok) {
+          return emeliaErrorResult(
+            `Created the draft ${copyId} with the settings of the campaign, but failed to read its contacts`,
+            recipients.error
+          );
+        }
+
+        // Contacts of the copied lists reach the copy through the lists, so
+        // adding them one by one would add them twice
+        const listed = new Set<string>();
+        if (settings.recipients) {
+          for (const listId of lists) {
+            const list = await readContacts(
+              extra,
+              `${apiUrl}${contactLists.path}/${listId}/contacts`
+            );
+            if (!list.ok) {
+              return emeliaErrorResult(
+                `Created the draft ${copyId} with the settings and contact lists of the campaign, but failed to read the contacts of list ${listId}`,
+                list.error
+              );
+            }
+            for (const contact of list.contacts) {
+              for (const key of contactLists.keys) {
+                if (contact[key]) listed.add(String(contact[key]));
+              }
+            }
+          }
+        }
+        const pending = recipients.contacts.filter(
+          (contact) =>
+            !contactLists.keys.some(
+              (key) => contact[key] && listed.has(String(contact[key]))
+            )
+        );
+
+        let count = 0;
+        const failures: Array<{ contact: string; error: string }> = [];
+        const controller = new AbortController();
+        let authError: EmeliaError | undefined;
+        await mapWithConcurrency(
+          pending,
+          CONTACTS_COPY_CONCURRENCY,
+          controller.signal,
+          async ({ custom, ...contact }) => {
+            const identity = String(
+              contact.email ||
+                contact.url ||
+                contact.linkedinUrlProfile ||
+                [contact.firstName, contact.lastName].filter(Boolean).join(" ")
+            );
+            const payload = {
+              ...(custom || {}),
+              ...Object.fromEntries(
+                contactFields
+                  .filter((field) => contact[field] != null)
+                  .map((field) => [field, contact[field]])
+              ),
+            };
+            const added = await makeEmeliaRequest<EmeliaApiResponse>(
+              extra,
+              `${apiUrl}${contacts}`,
+              {
+                method: "POST",
+                body: JSON.stringify({ id: copyId, contact: payload }),
+              }
+            );
+            if (added.ok) {
+              count++;
+            } else if (added.error.category === "auth") {
+              authError = added.error;
+              controller.abort();
+            } else {
+              failures.push({ contact: identity, error: added.error.message });
+            }
+          }
+        );
+        if (authError) {
+          return emeliaErrorResult(
+            `Created the draft ${copyId} with the settings of the campaign, but failed to copy its contacts after ${count}`,
+            authError
+          );
+        }
+        copied = count;
+        inLists = recipients.contacts.length - pending.length;
+        failed = failures;
+      }
+
+      const copy = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES[campaign_type].path}`,
+        copyId
+      );
+      if (!copy.ok) {
+        return emeliaErrorResult(
+          `Created the draft ${copyId}, but failed to read it back`,
+          copy.error
+        );
+      }
+
+      const stepCount = (copy.campaign.steps || []).length;
+      const status: string = copy.campaign.status;
+      const lines = [
+        `${label} "${source.campaign.name}" copied to "${copyName}" (ID: ${copyId}). Status: ${status}`,
+        `Steps: ${stepCount}`,
+      ];
+      if (refId(copy.campaign.provider)) {
+        lines.push(`Sender: ${refId(copy.campaign.provider)}`);
+      }
+      if (refId(copy.campaign.account)) {
+        lines.push(`LinkedIn account: ${refId(copy.campaign.account)}`);
+      }
+      if (settings.recipients) {
+        lines.push(`Contact lists copied: ${lists.join(", ")}`);
+      }
+      if (failed) {
+        lines.push(
+          `Contacts copied: ${copied}${
+            inLists ? `, already in the contact lists: ${inLists}` : ""
+          }${failed.length ? `, failed: ${failed.length}` : ""}`,
+          ...failed.map(({ contact, error }) => `- ${contact}: ${error}`)
+        );
+      } else {
+        lines.push("Contacts not copied");
+      }
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          sourceId: campaign_id,
+          campaignId: copyId,
+          name: copyName,
+          status,
+          steps: stepCount,
+          contactLists: settings.recipients && lists,
+          contactsCopied: copied,
+          contactsInLists: inLists,
+          contactsFailed: failed,
+        },
+      };
+    }
+  );
+
+  // Email providers of the account by ID, with their warm-up
+  async function getSenders(extra: ToolExtra) {
+    const providers = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}/email-providers`
+    );
+    if (!providers.ok) {
+      return providers;
+    }
+    const warmups = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}/email-providers/warmup`
+    );
+    if (!warmups.ok) {
+      return warmups;
+    }
+
+    const senders = new Map<string, Sender>();
+    for (const provider of (providers.data.providers as Array<
+      Record<string, any>
+    >) || []) {
+      senders.set(provider._id, { provider });
+    }
+    for (const warmup of (warmups.data.warmups as Array<Record<string, any>>) ||
+      []) {
+      const sender = senders.get(refId(warmup.provider) || "");
+      if (sender) sender.warmup = warmup;
+    }
+    return { ok: true as const, senders };
+  }
+
+  // Apply `edit` to the sender settings of an email campaign and save them,
+  // then list the senders with what may keep them from sending. `edit`
+  // returns why it cannot apply, if it cannot, or what else it changed.
+  async function editSenders(
+    extra: ToolExtra,
+    id: string,
+    done: string,
+    edit: (
+      settings: SenderSettings,
+      senders: Map<string, Sender>
+    ) => { error: string } | { note?: string } | void
+  ): Promise<CallToolResult> {
+    if (!getEmeliaApiKey(extra)) {
+      return authRequiredResult();
+    }
+
+    const before = await getCampaign(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+      id
+    );
+    if (!before.ok) {
+      return emeliaErrorResult("Failed to retrieve campaign", before.error);
+    }
+    const accounts = await getSenders(extra);
+    if (!accounts.ok) {
+      return emeliaErrorResult(
+        "Failed to retrieve email providers",
+        accounts.error
+      );
+    }
+
+    const { senders } = accounts;
+    const settings: SenderSettings = {
+      provider: refId(before.campaign.provider),
+      useManyProviders: Boolean(before.campaign.useManyProviders),
+      providersUsed: (before.campaign.providersUsed || []).map(refId),
+      steps: before.campaign.steps || [],
+    };
+    const outcome = edit(settings, senders) || {};
+    if ("error" in outcome) {
+      return errorResult(outcome.error);
+    }
+
+    const result = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.email.path}/${id}`,
+      { method: "PATCH", body: JSON.stringify(settings) }
+    );
+    if (!result.ok) {
+      return emeliaErrorResult(
+        "Failed to update campaign senders",
+        result.error
+      );
+    }
+
+    const after = await getCampaign(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.email.path}`,
+      id
+    );
+    if (!after.ok) {
+      return emeliaErrorResult(
+        "Senders updated, but failed to read them back",
+        after.error
+      );
+    }
+
+    const provider = refId(after.campaign.provider);
+    const useManyProviders = Boolean(after.campaign.useManyProviders);
+    const providersUsed: string[] = (after.campaign.providersUsed || []).map(
+      refId
+    );
+    const pins = senderPins(after.campaign.steps || []);
+    const inUse = [
+      ...new Set([
+        ...(provider ? [provider] : []),
+        ...(useManyProviders ? providersUsed : []),
+        ...pins.map((pin) => pin.provider),
+      ]),
+    ];
+    const now = Date.now();
+    const warnings = inUse.flatMap((sender) =>
+      senderWarnings(sender, senders, now)
+    );
+
+    const name = after.campaign.name ? ` of "${after.campaign.name}"` : "";
+    const lines = [
+      `${done}${outcome.note ? ` ${outcome.note}` : ""}. Senders${name}:`,
+      "",
+      `Main sender: ${provider ? senderName(provider, senders) : "none"}`,
+      `Rotation: ${
+        useManyProviders
+          ? `on, across ${providersUsed
+              .map((sender) => senderName(sender, senders))
+              .join(", ")}`
+          : "off"
+      }`,
+    ];
+    if (!useManyProviders && providersUsed.length) {
+      lines.push(
+        `Attached: ${providersUsed
+          .map((sender) => senderName(sender, senders))
+          .join(", ")}`
+      );
+    }
+    for (const pin of pins) {
+      lines.push(
+        `${capitalize(versionName(pin.version))} of ${stepName(
+          pin.step
+        )} always sends from ${senderName(pin.provider, senders)}`
+      );
+    }
+    if (warnings.length) {
+      lines.push("", "Warnings:", ...warnings.map((warning) => `- ${warning}`));
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        campaignId: id,
+        provider,
+        useManyProviders,
+        providersUsed,
+        pins,
+        warnings,
+      },
+    };
+  }
+
+  const sendersOutput = {
+    campaignId: z.string(),
+    provider: z.string().optional(),
+    useManyProviders: z.boolean(),
+    providersUsed: z.array(z.string()),
+    pins: z.array(
+      z.object({ step: z.number(), version: z.number(), provider: z.string() })
+    ),
+    warnings: z.array(z.string()),
+  };
+
+  const unknownProvider = (id: string) => ({
+    error: `${id} is not one of the email providers of the account. List them with the get-email-providers tool.`,
+  });
+
+  server.registerTool(
+    "attach-campaign-senders",
+    {
+      description:
+        "Attach email providers to an email campaign as senders it can rotate between. Warns about senders that are disabled, disconnected or still warming up.",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        provider_ids: z
+          .array(z.string())
+          .min(1)
+          .describe("IDs of the email providers to attach"),
+      },
+      outputSchema: sendersOutput,
+    },
+    async ({ campaign_id, provider_ids }, extra) =>
+      editSenders(
+        extra,
+        campaign_id,
+        "Senders attached",
+        (settings, senders) => {
+          const unknown = provider_ids.find((id) => !senders.has(id));
+          if (unknown) {
+            return unknownProvider(unknown);
+          }
+          // The main sender takes part in the rotation too
+          settings.providersUsed = [
+            ...new Set([
+              ...(settings.provider ? [settings.provider] : []),
+              ...settings.providersUsed,
+              ...provider_ids,
+            ]),
+          ];
+          settings.provider = settings.provider || provider_ids[0];
+        }
+      )
+  );
+
+  server.registerTool(
+    "detach-campaign-senders",
+    {
+      description:
+        "Detach email providers from an email campaign. Versions pinned to them send from the other senders again.",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        provider_ids: z
+          .array(z.string())
+          .min(1)
+          .describe("IDs of the email providers to detach"),
+      },
+      outputSchema: sendersOutput,
+    },
+    async ({ campaign_id, provider_ids }, extra) =>
+      editSenders(
+        extra,
+        campaign_id,
+        "Senders detached",
+        (settings, senders) => {
+          const attached = [
+            ...new Set([
+              ...(settings.provider ? [settings.provider] : []),
+              ...settings.providersUsed,
+            ]),
+          ];
+          const missing = provider_ids.find((id) => !attached.includes(id));
+          if (missing) {
+            return {
+              error: `${missing} is not a sender of this campaign, whose senders are ${
+                attached.join(", ") || "none"
+              }.`,
+            };
+          }
+          const remaining = attached.filter((id) => !provider_ids.includes(id));
+          if (remaining.length === 0) {
+            return {
+              error:
+                "Cannot detach every sender: the campaign needs one to send from. Attach another sender first.",
+            };
+          }
+
+          const notes: string[] = [];
+          if (settings.provider && provider_ids.includes(settings.provider)) {
+            settings.provider = remaining[0];
+            notes.push(
+              `the main sender is now ${senderName(remaining[0], senders)}`
+            );
+          }
+          settings.providersUsed = settings.providersUsed.filter(
+            (id) => !provider_ids.includes(id)
+          );
+          if (settings.useManyProviders && remaining.length < 2) {
+            settings.useManyProviders = false;
+            notes.push("rotation is off with a single sender left");
+          }
+          for (const pin of senderPins(settings.steps)) {
+            if (provider_ids.includes(pin.provider)) {
+              delete settings.steps[pin.step].versions[pin.version].options
+                ?.provider;
+            }
+          }
+          return notes.length ? { note: `(${notes.join(", ")})` } : undefined;
+        }
+      )
+  );
+
+  server.registerTool(
+    "set-sender-rotation",
+    {
+      description:
+        "Turn on or off the rotation of an email campaign between its senders",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        enabled: z
+          .boolean()
+          .describe(
+            "Rotate between the attached senders, or send from the main sender only"
+          ),
+      },
+      outputSchema: sendersOutput,
+    },
+    async ({ campaign_id, enabled }, extra) =>
+      editSenders(
+        extra,
+        campaign_id,
+        `Rotation turned ${enabled ? "on" : "off"}`,
+        (settings) => {
+          if (enabled && settings.providersUsed.length < 2) {
+            return {
+              error: `Rotation needs at least two senders, and this campaign has ${settings.providersUsed.length}. Attach more with the attach-campaign-senders tool.`,
+            };
+          }
+          settings.useManyProviders = enabled;
+        }
+      )
+  );
+
+  server.registerTool(
+    "pin-version-sender",
+    {
+      description:
+        "Make an A/B version of an email campaign step always send from one of the campaign senders, or send from the rotation again",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        step: stepInput,
+        version: versionInput,
+        provider_id: z
+          .string()
+          .optional()
+          .describe(
+            "Email provider to send the version from, attached to the campaign (Optional, unpins the version when omitted)"
+          ),
+      },
+      outputSchema: sendersOutput,
+    },
+    async ({ campaign_id, step, version, provider_id }, extra) =>
+      editSenders(
+        extra,
+        campaign_id,
+        provider_id ? "Version pinned" : "Version unpinned",
+        (settings, senders) => {
+          const target = settings.steps[step];
+          if (!target) {
+            return { error: noStep(settings.steps, step) };
+          }
+          const current = target.versions[version];
+          if (!current) {
+            return { error: noVersion(target, step, version) };
+          }
+          if (!provider_id) {
+            delete current.options?.provider;
+            return;
+          }
+          if (!senders.has(provider_id)) {
+            return unknownProvider(provider_id);
+          }
+          if (
+            provider_id !== settings.provider &&
+            !settings.providersUsed.includes(provider_id)
+          ) {
+            return {
+              error: `${provider_id} is not a sender of this campaign. Attach it with the attach-campaign-senders tool first.`,
+            };
+          }
+          current.options = { ...current.options, provider: provider_id };
+        }
+      )
+  );
+
+  server.registerTool(
+    "set-linkedin-sequence",
+    {
+      description:
+        "Define the steps of a paused or draft LinkedIn campaign: profile visits, connection requests, messages, likes, follows and InMails, with their delays and A/B versions. The sequence is checked against LinkedIn's limits before it is saved.",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        steps: z
+          .array(
+            z.object({
+              type: z
+                .enum([
+                  "VISIT",
+                  "CONNECTION",
+                  "MESSAGE",
+                  "LIKE",
+                  "FOLLOW",
+                  "INMAIL",
+                ])
+                .describe("What the step does"),
+              delay_amount: z
+                .number()
+                .int()
+                .min(0)
+                .default(0)
+                .describe(
+                  "Delay after the previous step, or after the contact joins the campaign for the first step (Optional, default 0)"
+                ),
+              delay_unit: delayUnitInput,
+              versions: z
+                .array(
+                  z.object({
+                    message: z.string(),
+                    disabled: z
+                      .boolean()
+                      .optional()
+                      .describe(
+                        "Keep the version but stop sending it (Optional)"
+                      ),
+                  })
+                )
+                .default([])
+                .describe(
+                  "A/B versions of the connection note, message or InMail. Leave empty for other steps, and for a connection request without a note (Optional)"
+                ),
+            })
+          )
+          .min(1)
+          .describe("Steps of the sequence, in order"),
+        first_degree_only: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Every contact is already a 1st-degree connection, so messages need no CONNECTION step (Optional, default false)"
+          ),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        steps: z.array(linkedinStepSchema),
+      },
+    },
+    async ({ campaign_id, steps, first_degree_only }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const sequence: LinkedinStep[] = steps.map((step) => ({
+        stepType: step.type,
+        delay: { amount: step.delay_amount, unit: step.delay_unit },
+        versions: step.versions.map(({ message, disabled }) =>
+          disabled === undefined ? { message } : { message, disabled }
+        ),
+      }));
+      const problems = validateLinkedinSequence(sequence, first_degree_only);
+      if (problems.length) {
+        return errorResult(
+          `Sequence not saved:\n${problems
+            .map((problem) => `- ${problem}`)
+            .join("\n")}`
+        );
+      }
+
+      const before = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!before.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", before.error);
+      }
+      // Contacts already in the sequence would jump to other steps
+      const { status } = before.campaign;
+      if (status !== "PAUSED" && status !== "DRAFT") {
+        return errorResult(
+          `Campaign ${campaign_id} is ${status}: only the sequence of a paused or draft campaign can change.${
+            status === "RUNNING"
+              ? " Pause it with the pause-campaign tool first."
+              : ""
+          }`
+        );
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}/${campaign_id}`,
+        { method: "PATCH", body: JSON.stringify({ steps: sequence }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to update campaign sequence",
+          result.error
+        );
+      }
+
+      const after = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!after.ok) {
+        return emeliaErrorResult(
+          "Sequence updated, but failed to read it back",
+          after.error
+        );
+      }
+
+      const saved: LinkedinStep[] = after.campaign.steps || [];
+      const name = after.campaign.name ? ` of "${after.campaign.name}"` : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sequence${name} saved:\n\n${formatLinkedinSequence(saved)}`,
+          },
+        ],
+        structuredContent: { campaignId: campaign_id, steps: saved },
+      };
+    }
+  );
+
+  // The schedule of a LinkedIn campaign as text, with what goes past the
+  // safety ceilings
+  function linkedinScheduleResult(
+    id: string,
+    campaign: Record<string, any>,
+    updated: boolean
+  ): CallToolResult {
+    const schedule: LinkedinSchedule | undefined = campaign.schedule;
+    if (!schedule) {
+      return missingSchedule(id);
+    }
+    const steps: LinkedinStep[] = campaign.steps || [];
+    const warnings = validateLinkedinSchedule(schedule, steps);
+    const name = campaign.name ? ` of "${campaign.name}"` : "";
+    let text = `Schedule${name}${
+      updated ? " updated" : ""
+    }:\n\n${describeLinkedinSchedule(schedule, steps)}`;
+    if (warnings.length) {
+      text += `\n\nWarnings:\n${warnings.map((w) => `- ${w}`).join("\n")}`;
+    }
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: { campaignId: id, schedule, warnings },
+    };
+  }
+
+  const linkedinScheduleOutput = {
+    campaignId: z.string(),
+    schedule: linkedinScheduleSchema,
+    warnings: z.array(z.string()),
+  };
+
+  server.registerTool(
+    "get-linkedin-campaign-schedule",
+    {
+      description:
+        "Get the schedule of a LinkedIn campaign: days, hours, time zone, daily contacts and the contacts it skips",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+      },
+      outputSchema: linkedinScheduleOutput,
+    },
+    async ({ campaign_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", result.error);
+      }
+
+      return linkedinScheduleResult(campaign_id, result.campaign, false);
+    }
+  );
+
+  server.registerTool(
+    "update-linkedin-campaign-schedule",
+    {
+      description: `Change the schedule and audience exclusions of a LinkedIn campaign. Only the settings passed change, and limits above the safety ceilings (${LINKEDIN_LIMITS.dailyContacts} new contacts and ${LINKEDIN_LIMITS.dailyActions} actions a day, ${LINKEDIN_LIMITS.weeklyInvitations} connection requests a week) are refused.`,
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        time_zone: z
+          .string()
+          .optional()
+          .describe(
+            "IANA time zone of the schedule, e.g. Europe/Paris (Optional)"
+          ),
+        days: daysInput.optional(),
+        start: timeOfDayInput
+          .optional()
+          .describe("Time to start acting each day, HH:mm (Optional)"),
+        end: timeOfDayInput
+          .optional()
+          .describe("Time to stop acting each day, HH:mm (Optional)"),
+        daily_contact: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "New contacts to start the sequence for each day (Optional)"
+          ),
+        exclude_first_degree: z
+          .boolean()
+          .optional()
+          .describe(
+            "Skip contacts who are already 1st-degree connections (Optional)"
+          ),
+        exclude_already_messaged: z
+          .boolean()
+          .optional()
+          .describe("Skip contacts already messaged on LinkedIn (Optional)"),
+        exclude_no_picture: z
+          .boolean()
+          .optional()
+          .describe("Skip profiles without a picture (Optional)"),
+      },
+      outputSchema: linkedinScheduleOutput,
+    },
+    async ({ campaign_id, ...changes }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const before = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!before.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", before.error);
+      }
+      if (!before.campaign.schedule) {
+        return missingSchedule(campaign_id);
+      }
+
+      const schedule: LinkedinSchedule = {
+        ...before.campaign.schedule,
+        ...Object.fromEntries(
+          Object.entries({
+            timeZone:
+              changes.time_zone &&
+              (ianaTimeZone(changes.time_zone) ?? changes.time_zone),
+            days: changes.days,
+            start: changes.start,
+            end: changes.end,
+            dailyContact: changes.daily_contact,
+            exclude1stConn: changes.exclude_first_degree,
+            excludeAlreadyMessaged: changes.exclude_already_messaged,
+            excludeNoPictures: changes.exclude_no_picture,
+          }).filter(([, value]) => value !== undefined)
+        ),
+      };
+      const problems = validateLinkedinSchedule(
+        schedule,
+        before.campaign.steps || []
+      );
+      if (problems.length) {
+        return errorResult(
+          `Schedule not updated:\n${problems.map((p) => `- ${p}`).join("\n")}`
+        );
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}/${campaign_id}`,
+        { method: "PATCH", body: JSON.stringify({ schedule }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to update campaign schedule",
+          result.error
+        );
+      }
+
+      const after = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!after.ok) {
+        return emeliaErrorResult(
+          "Schedule updated, but failed to read it back",
+          after.error
+        );
+      }
+
+      return linkedinScheduleResult(campaign_id, after.campaign, true);
+    }
+  );
+
+  // LinkedIn accounts of the account, with the LinkedIn campaigns using each
+  async function getLinkedinAccounts(extra: ToolExtra) {
+    const accounts = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}/linkedin/accounts`
+    );
+    if (!accounts.ok) {
+      return accounts;
+    }
+    const campaigns = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`
+    );
+    if (!campaigns.ok) {
+      return campaigns;
+    }
+
+    const all = (campaigns.data.campaigns as Array<Record<string, any>>) || [];
+    const list = (accounts.data.accounts as LinkedinAccount[]) || [];
+    return {
+      ok: true as const,
+      accounts: list.map(
+        (account): LinkedinAccount => ({
+          ...publicAccount(account),
+          campaigns: all
+            .filter((c) => refId(c.account) === account._id)
+            .map(({ _id, name, status, assignedSender }) => ({
+              _id,
+              name,
+              status,
+              assignedSender,
+            })),
+        })
+      ),
+      // Campaigns left without an account, e.g. when it was removed
+      unassigned: all.filter(
+        (c) =>
+          c.status !== "ARCHIVED" &&
+          !list.some((account) => account._id === refId(c.account))
+      ),
+    };
+  }
+
+  server.registerTool(
+    "get-linkedin-accounts",
+    {
+      description:
+        "List the connected LinkedIn accounts with their health (cookie, subscriptions, proxy) and the LinkedIn campaigns assigned to each. Warns about invalid cookies and disabled accounts holding campaigns back.",
+      inputSchema: {},
+      outputSchema: {
+        accounts: z.array(
+          linkedinAccountSchema.extend({
+            campaigns: z.array(
+              z
+                .object({
+                  _id: z.string(),
+                  name: z.string().optional(),
+                  status: z.string().optional(),
+                  assignedSender: z.string().optional(),
+                })
+                .passthrough()
+            ),
+          })
+        ),
+        warnings: z.array(z.string()),
+      },
+    },
+    async (_args, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await getLinkedinAccounts(extra);
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve LinkedIn accounts",
+          result.error
+        );
+      }
+
+      const { accounts, unassigned } = result;
+      const warnings = [
+        ...accounts.flatMap((account) =>
+          accountWarnings(account, account.campaigns)
+        ),
+        ...unassigned.map(
+          (c) =>
+            `"${c.name}" (${c._id}) has no connected LinkedIn account: assign one with the reassign-linkedin-campaign tool.`
+        ),
+      ];
+      if (accounts.length === 0) {
+        let text = "No LinkedIn accounts found";
+        if (warnings.length) {
+          text += `\n\nWarnings:\n${warnings.map((w) => `- ${w}`).join("\n")}`;
+        }
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { accounts: [], warnings },
+        };
+      }
+
+      const accountsText = accounts
+        .map((account) => {
+          const subscriptions = [
+            account.metadata?.hasPremium && "Premium",
+            account.hasAdvanced && "Advanced",
+          ].filter(Boolean);
+          const campaigns = account.campaigns.map(
+            (c: Record<string, any>) => `"${c.name}" (${c._id}, ${c.status})`
+          );
+          return `Account: ${accountName(account)} (${account._id})\nStatus: ${
+            account.status === "valid" ? "Valid cookie" : "Invalid cookie"
+          }${account.disabled ? ", disabled" : ""}\nSubscriptions: ${
+            subscriptions.join(", ") || "-"
+          }\nProxy: ${
+            account.proxy ? `${account.proxy.host}:${account.proxy.port}` : "-"
+          }\nCampaigns: ${campaigns.join(", ") || "-"}\n---`;
+        })
+        .join("\n");
+
+      let text = `LinkedIn Accounts:\n\n${accountsText}`;
+      if (warnings.length) {
+        text += `\n\nWarnings:\n${warnings.map((w) => `- ${w}`).join("\n")}`;
+      }
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { accounts, warnings },
+      };
+    }
+  );
+
+  server.registerTool(
+    "reassign-linkedin-campaign",
+    {
+      description:
+        "Move a paused or draft LinkedIn campaign to another connected LinkedIn account, which takes its next actions. The campaign stays paused: resume it afterwards.",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        account_id: z
+          .string()
+          .describe(
+            "ID of the LinkedIn account to move the campaign to, from the get-linkedin-accounts tool"
+          ),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        previousAccount: z.string().optional(),
+        account: z.string(),
+        status: z.string(),
+      },
+    },
+    async ({ campaign_id, account_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const before = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!before.ok) {
+        return emeliaErrorResult("Failed to retrieve campaign", before.error);
+      }
+      const { campaign } = before;
+      if (campaign.status !== "PAUSED" && campaign.status !== "DRAFT") {
+        return errorResult(
+          `Campaign ${campaign_id} is ${
+            campaign.status
+          }: only a paused or draft campaign can move to another account.${
+            campaign.status === "RUNNING"
+              ? " Pause it with the pause-campaign tool first."
+              : ""
+          }`
+        );
+      }
+
+      const result = await getLinkedinAccounts(extra);
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve LinkedIn accounts",
+          result.error
+        );
+      }
+      const previousAccount = refId(campaign.account);
+      const previous = result.accounts.find((a) => a._id === previousAccount);
+      const account = result.accounts.find((a) => a._id === account_id);
+      if (!account) {
+        return errorResult(
+          `${account_id} is not one of the LinkedIn accounts. List them with the get-linkedin-accounts tool.`
+        );
+      }
+      const name = accountName(account);
+      if (account_id === previousAccount) {
+        return errorResult(`Campaign ${campaign_id} already uses ${name}.`);
+      }
+      if (account.status !== "valid") {
+        return errorResult(
+          `${name} has an invalid cookie: reconnect it in Emelia before moving a campaign to it.`
+        );
+      }
+      if (account.disabled) {
+        return errorResult(
+          `${name} is disabled: enable it in Emelia before moving a campaign to it.`
+        );
+      }
+
+      // A campaign started before keeps acting as the LinkedIn user it
+      // started with, unless it changes along with the account
+      const update: Record<string, unknown> = { account: account_id };
+      if (campaign.assignedSender) {
+        update.assignedSender = account.metadata?.id ?? null;
+      }
+      const patch = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}/${campaign_id}`,
+        { method: "PATCH", body: JSON.stringify(update) }
+      );
+      if (!patch.ok) {
+        return emeliaErrorResult("Failed to reassign campaign", patch.error);
+      }
+
+      const after = await getCampaign(
+        extra,
+        `${apiUrl}${CAMPAIGN_TYPES.linkedin.path}`,
+        campaign_id
+      );
+      if (!after.ok) {
+        return emeliaErrorResult(
+          "Campaign reassigned, but failed to read it back",
+          after.error
+        );
+      }
+      const status = after.campaign.status || campaign.status;
+      const from = previous
+        ? accountName(previous)
+        : previousAccount || "no account";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Campaign "${
+              after.campaign.name || campaign_id
+            }" moved from ${from} to ${name}. Status: ${status}${
+              status === "PAUSED"
+                ? "\nUse the resume-campaign tool to restart it."
+                : ""
+            }`,
+          },
+        ],
+        structuredContent: {
+          campaignId: campaign_id,
+          previousAccount,
+          account: account_id,
+          status,
+        },
+      };
+    }
+  );
+}
@@ -0,0 +1,198 @@
+// Credentials for the stdio server, read at startup so the API key never has
+// to be pasted into the conversation.
+//
+// Sources, by precedence:
+// 1. the EMELIA_API_KEY environment variable
+// 2. the profile named by EMELIA_PROFILE in the config file
+// 3. the config file's `defaultProfile`, or its only profile
+//
+// The config file lives at ~/.config/emelia-mcp/config.json (or under
+// $XDG_CONFIG_HOME) and looks like:
+//
+//   {
+//     "defaultProfile": "internal",
+//     "profiles": {
+//       "agency-client-a": { "apiKey": "..." },
+//       "internal": { "apiKey": "..." }
+//     }
+//   }
+
+import { EmeliaRequestPolicy } from "./helpers.js";
+
+export interface EmeliaProfile {
+  apiKey: string;
+}
+
+export interface EmeliaConfig {
+  defaultProfile?: string;
+  profiles: Record<string, EmeliaProfile>;
+}
+
+// Profiles loaded from the config file, available to the switch-profile tool
+let profiles: Record<string, EmeliaProfile> = {};
+
+export function getProfile(name: string): EmeliaProfile | undefined {
+  return profiles[name];
+}
+
+export function getProfileNames(): string[] {
+  return Object.keys(profiles);
+}
+
+function parseConfig(raw: unknown, path: string): EmeliaConfig {
+  const config = raw as Partial<EmeliaConfig> | null;
+  if (!config || typeof config !== "object" || !config.profiles) {
+    throw new Error(`Invalid config file ${path}: missing "profiles" object`);
+  }
+
+  Object.entries(config.profiles).forEach(([name, profile]) => {
+    if (!profile || typeof profile.apiKey !== "string" || !profile.apiKey) {
+      throw new Error(
+        `Invalid config file ${path}: profile "${name}" has no "apiKey"`
+      );
+    }
+  });
+
+  if (config.defaultProfile && !config.profiles[config.defaultProfile]) {
+    throw new Error(
+      `Invalid config file ${path}: default profile "${config.defaultProfile}" does not exist`
+    );
+  }
+
+  return { defaultProfile: config.defaultProfile, profiles: config.profiles };
+}
+
+// Node modules are imported lazily so the Cloudflare Worker build never loads them
+async function readConfigFile(): Promise<EmeliaConfig | null> {
+  const { readFile } = await import("node:fs/promises");
+  const { homedir } = await import("node:os");
+  const { join } = await import("node:path");
+
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  const path = join(configHome, "emelia-mcp", "config.json");
+
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    return parseConfig(JSON.parse(content), path);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON in config file ${path}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load the config file and pick the API key the stdio server starts with.
+ * Returns null when no source provides one, in which case the authenticate
+ * tool is still available.
+ */
+export async function loadStartupApiKey(): Promise<string | null> {
+  let config: EmeliaConfig | null = null;
+  try {
+    config = await readConfigFile();
+  } catch (error) {
+    // EMELIA_API_KEY takes precedence, so a broken config file only leaves
+    // switch-profile without profiles
+    if (!process.env.EMELIA_API_KEY) {
+      throw error;
+    }
+    console.error(`Ignoring the config file: ${(error as Error).message}`);
+  }
+  profiles = config?.profiles || {};
+
+  if (process.env.EMELIA_API_KEY) {
+    return process.env.EMELIA_API_KEY;
+  }
+
+  const requested = process.env.EMELIA_PROFILE;
+  if (requested) {
+    const profile = getProfile(requested);
+    if (!profile) {
+      throw new Error(
+        `EMELIA_PROFILE "${requested}" not found. Available profiles: ${
+          getProfileNames().join(", ") || "none"
+        }`
+      );
+    }
+    return profile.apiKey;
+  }
+
+  const names = getProfileNames();
+  const defaultProfile =
+    config?.defaultProfile || (names.length === 1 ? names[0] : undefined);
+
+  return defaultProfile ? profiles[defaultProfile].apiKey : null;
+}
+
+// Request policy overrides, for both process.env and Worker environment bindings
+export interface EmeliaRequestEnv {
+  EMELIA_MAX_RETRIES?: string;
+  EMELIA_REQUEST_TIMEOUT_MS?: string;
+  EMELIA_RATE_LIMIT_PER_SECOND?: string;
+  EMELIA_RATE_LIMIT_BURST?: string;
+}
+
+function parseNumber(
+  name: string,
+  value: string | undefined,
+  allowZero: boolean,
+  integer = false
+): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  if (
+    !Number.isFinite(number) ||
+    number < 0 ||
+    (!allowZero && number === 0) ||
+    (integer && !Number.isInteger(number))
+  ) {
+    throw new Error(
+      `${name} must be a ${allowZero ? "non-negative" : "positive"} ${
+        integer ? "integer" : "number"
+      }, got "${value}"`
+    );
+  }
+  return number;
+}
+
+export function requestPolicyFromEnv(
+  env: EmeliaRequestEnv
+): Partial<EmeliaRequestPolicy> {
+  const policy: Partial<EmeliaRequestPolicy> = {
+    maxRetries: parseNumber("EMELIA_MAX_RETRIES", env.EMELIA_MAX_RETRIES, true),
+    timeoutMs: parseNumber(
+      "EMELIA_REQUEST_TIMEOUT_MS",
+      env.EMELIA_REQUEST_TIMEOUT_MS,
+      false
+    ),
+    requestsPerSecond: parseNumber(
+      "EMELIA_RATE_LIMIT_PER_SECOND",
+      env.EMELIA_RATE_LIMIT_PER_SECOND,
+      false
+    ),
+    // The bucket hands out whole tokens, so it must hold at least one
+    burst: parseNumber(
+      "EMELIA_RATE_LIMIT_BURST",
+      env.EMELIA_RATE_LIMIT_BURST,
+      false,
+      true
+    ),
+  };
+
+  // Unset variables keep the default policy
+  return Object.fromEntries(
+    Object.entries(policy).filter(([, value]) => value !== undefined)
+  );
+}
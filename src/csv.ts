@@ -0,0 +1,130 @@
+// CSV reading and writing for the bulk tools. Files follow RFC 4180: comma
+// separated, fields quoted with double quotes when they contain a comma, a
+// quote or a line break, and a header row naming the columns.
+
+export interface CsvTable {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+export function parseCsv(text: string): CsvTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Strip the byte order mark spreadsheet exports often start with
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...lines] = records.filter(
+    (r) => r.length > 1 || r[0] !== ""
+  );
+  const columns = header.map((column) => column.trim());
+  const rows = lines.map((line) =>
+    Object.fromEntries(columns.map((column, i) => [column, line[i] ?? ""]))
+  );
+  return { columns, rows };
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export interface CsvOptions {
+  // Write a file Excel opens as is: UTF-8 byte order mark, CRLF line breaks,
+  // and values that Excel would run as formulas prefixed with a quote
+  excel?: boolean;
+}
+
+// Signed numbers such as phone numbers, which Excel reads as values, not formulas
+const PLAIN_NUMBER = /^[+-]?[\d\s().-]+$/;
+
+function escapeExcelField(value: string): string {
+  const formula = /^[=+\-@\t\r]/.test(value) && !PLAIN_NUMBER.test(value);
+  return escapeField(formula ? `'${value}` : value);
+}
+
+export function stringifyCsv(
+  { columns, rows }: CsvTable,
+  options: CsvOptions = {}
+): string {
+  const lines = [
+    columns,
+    ...rows.map((row) => columns.map((c) => row[c] ?? "")),
+  ];
+  const escape = options.excel ? escapeExcelField : escapeField;
+  const newline = options.excel ? "\r\n" : "\n";
+  const text =
+    lines.map((line) => line.map(escape).join(",")).join(newline) + newline;
+  return options.excel ? `\uFEFF${text}` : text;
+}
+
+// Node modules are imported lazily so the Cloudflare Worker build never loads them
+export async function readCsvFile(path: string): Promise<CsvTable> {
+  const { readFile } = await import("node:fs/promises");
+  return parseCsv(await readFile(path, "utf8"));
+}
+
+export async function writeCsvFile(
+  path: string,
+  table: CsvTable,
+  options?: CsvOptions
+): Promise<void> {
+  const { writeFile } = await import("node:fs/promises");
+  await writeFile(path, stringifyCsv(table, options), "utf8");
+}
+
+// Path of the file written next to `path`, e.g. leads.csv -> leads.verified.csv
+export function siblingPath(
+  path: string,
+  suffix: string,
+  extension?: string
+): string {
+  const current = path.match(/\.[^./\\]+$/)?.[0] ?? "";
+  return `${path.slice(0, path.length - current.length)}.${suffix}${
+    extension || current || ".csv"
+  }`;
+}
+
+// Find a column by name, ignoring case, spaces and underscores
+export function findColumn(
+  columns: string[],
+  candidates: string[]
+): string | undefined {
+  const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]/g, "");
+  for (const candidate of candidates) {
+    const column = columns.find((c) => normalize(c) === normalize(candidate));
+    if (column) return column;
+  }
+  return undefined;
+}
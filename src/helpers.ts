@@ -1,30 +1,367 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import { CampaignModel, Document } from './types/models.js'
 
 const USER_AGENT = 'emelia-mcp/1.0'
-let userApiKey: string | null = null
 
-export function setEmeliaApiKey(apiKey: string): void {
-	userApiKey = apiKey
+// Transports without sessions (stdio) share this key in the store
+const DEFAULT_SESSION = 'default'
+
+// API keys set with the authenticate tool, keyed by MCP session ID
+const sessionApiKeys = new Map<string, string>()
+
+/**
+ * Identifies the caller of a tool. Tool handlers receive it as their `extra`
+ * argument: `sessionId` comes from the transport, `authInfo` holds the
+ * bearer token sent on the HTTP request, if any, and `signal` is aborted when
+ * the client cancels the tool call.
+ */
+export interface EmeliaRequestContext {
+	sessionId?: string
+	authInfo?: AuthInfo
+	signal?: AbortSignal
+}
+
+export function setEmeliaApiKey(
+	context: EmeliaRequestContext,
+	apiKey: string
+): void {
+	sessionApiKeys.set(context.sessionId || DEFAULT_SESSION, apiKey)
+}
+
+export function clearEmeliaApiKey(context: EmeliaRequestContext): void {
+	sessionApiKeys.delete(context.sessionId || DEFAULT_SESSION)
+}
+
+// A bearer token on the request takes precedence over the session's key
+export function getEmeliaApiKey(context: EmeliaRequestContext): string | null {
+	return (
+		context.authInfo?.token ||
+		sessionApiKeys.get(context.sessionId || DEFAULT_SESSION) ||
+		null
+	)
+}
+
+export type EmeliaErrorCategory =
+	| 'auth'
+	| 'not-found'
+	| 'validation'
+	| 'rate-limited'
+	| 'server'
+	| 'network'
+
+export interface EmeliaError {
+	category: EmeliaErrorCategory
+	/** HTTP status of the response, absent when no response was received */
+	status?: number
+	/** Error message returned by Emelia, or a description of the failure */
+	message: string
+	/** Parsed body of the error response, if any */
+	body?: unknown
+	/** Number of attempts made before giving up */
+	attempts?: number
+}
+
+export type EmeliaResult<T> =
+	| { ok: true; data: T }
+	| { ok: false; error: EmeliaError }
+
+function categorizeStatus(status: number): EmeliaErrorCategory {
+	if (status === 401 || status === 403) return 'auth'
+	if (status === 404) return 'not-found'
+	if (status === 429) return 'rate-limited'
+	if (status >= 500) return 'server'
+	return 'validation'
+}
+
+// Emelia puts its error message in `error`, some endpoints use `message`
+function extractErrorMessage(body: unknown, fallback: string): string {
+	if (body && typeof body === 'object') {
+		const { error, message } = body as { error?: unknown; message?: unknown }
+		if (typeof error === 'string' && error) return error
+		if (typeof message === 'string' && message) return message
+	}
+	if (typeof body === 'string' && body.trim()) {
+		return body.trim()
+	}
+	return fallback
+}
+
+export interface EmeliaRequestPolicy {
+	/** Retries after the first attempt for transient failures */
+	maxRetries: number
+	/** Backoff before the first retry, doubled on every following retry */
+	baseDelayMs: number
+	/** Upper bound of the backoff, and of the `Retry-After` delay honoured */
+	maxDelayMs: number
+	/** Each attempt is aborted after this delay */
+	timeoutMs: number
+	/** Requests allowed in a burst, per API key */
+	burst: number
+	/** Requests per second refilled in the bucket, per API key */
+	requestsPerSecond: number
+	/** Wait before the second status check of a job, doubled on every following one */
+	jobPollDelayMs: number
+	/** Upper bound of the wait between two status checks of a job */
+	jobPollMaxDelayMs: number
+}
+
+let requestPolicy: EmeliaRequestPolicy = {
+	maxRetries: 3,
+	baseDelayMs: 500,
+	maxDelayMs: 30_000,
+	timeoutMs: 30_000,
+	burst: 10,
+	requestsPerSecond: 5,
+	jobPollDelayMs: 1_000,
+	jobPollMaxDelayMs: 10_000,
+}
+
+export function configureEmeliaRequests(
+	policy: Partial<EmeliaRequestPolicy>
+): void {
+	requestPolicy = { ...requestPolicy, ...policy }
+	rateLimiters.clear()
+}
+
+export function getEmeliaRequestPolicy(): EmeliaRequestPolicy {
+	return requestPolicy
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason)
+			return
+		}
+		const onAbort = () => {
+			clearTimeout(timer)
+			reject(signal?.reason)
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
+// Run `task` over every item with at most `concurrency` tasks in flight.
+// Nothing new starts once `signal` is aborted.
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	signal: AbortSignal,
+	task: (item: T) => Promise<R>
+): Promise<Array<R | undefined>> {
+	const results: Array<R | undefined> = new Array(items.length)
+	let next = 0
+
+	const worker = async () => {
+		while (next < items.length && !signal.aborted) {
+			const index = next++
+			results[index] = await task(items[index])
+		}
+	}
+
+	await Promise.all(
+		Array.from({ length: Math.min(concurrency, items.length) }, worker)
+	)
+	return results
+}
+
+// Client-side token bucket, so bulk tool calls stay under Emelia's rate limit
+class TokenBucket {
+	private tokens: number
+	private updatedAt = Date.now()
+
+	constructor(private capacity: number, private refillPerSecond: number) {
+		this.tokens = capacity
+	}
+
+	async take(signal?: AbortSignal): Promise<void> {
+		for (;;) {
+			const now = Date.now()
+			this.tokens = Math.min(
+				this.capacity,
+				this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond
+			)
+			this.updatedAt = now
+
+			if (this.tokens >= 1) {
+				this.tokens -= 1
+				return
+			}
+			await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000, signal)
+		}
+	}
 }
 
-export function clearEmeliaApiKey(): void {
-	userApiKey = null
+// One bucket per API key: every tool and session using a key shares it
+const rateLimiters = new Map<string, TokenBucket>()
+
+function getRateLimiter(apiKey: string): TokenBucket {
+	let limiter = rateLimiters.get(apiKey)
+	if (!limiter) {
+		limiter = new TokenBucket(
+			requestPolicy.burst,
+			requestPolicy.requestsPerSecond
+		)
+		rateLimiters.set(apiKey, limiter)
+	}
+	return limiter
 }
 
-export function getEmeliaApiKey(): string | null {
-	return userApiKey || null
+// `Retry-After` holds either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) return undefined
+	const seconds = Number(header)
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+	const date = Date.parse(header)
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Exponential backoff with jitter: half the delay is fixed, half is random
+function backoffDelay(attempt: number): number {
+	const delay = Math.min(
+		requestPolicy.maxDelayMs,
+		requestPolicy.baseDelayMs * 2 ** attempt
+	)
+	return delay / 2 + Math.random() * (delay / 2)
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'PATCH']
+
+/**
+ * Whether a failed attempt may be sent again. 429, 502, 503 and 504 mean the
+ * request was not processed, so they are retried for every method. Timeouts,
+ * network errors, 408 and 500 may happen after Emelia acted on the request,
+ * so they are only retried when repeating the request is harmless.
+ */
+function isRetryable(method: string, error: EmeliaError): boolean {
+	if (error.status === undefined) {
+		return error.category === 'network' && IDEMPOTENT_METHODS.includes(method)
+	}
+	if ([429, 502, 503, 504].includes(error.status)) {
+		return true
+	}
+	return (
+		[408, 500].includes(error.status) && IDEMPOTENT_METHODS.includes(method)
+	)
+}
+
+interface AttemptOutcome<T> {
+	result: EmeliaResult<T>
+	retryAfterMs?: number
+}
+
+// Send a single attempt, aborted after the policy timeout or on cancellation
+async function sendEmeliaRequest<T>(
+	url: string,
+	options: RequestInit,
+	signal?: AbortSignal
+): Promise<AttemptOutcome<T>> {
+	const controller = new AbortController()
+	let timedOut = false
+	const timer = setTimeout(() => {
+		timedOut = true
+		controller.abort()
+	}, requestPolicy.timeoutMs)
+	const onAbort = () => controller.abort()
+	signal?.addEventListener('abort', onAbort, { once: true })
+
+	let response: Response
+	let text: string
+	try {
+		response = await fetch(url, { ...options, signal: controller.signal })
+		text = await response.text()
+	} catch (error) {
+		console.error('Error making Emelia API request:', error)
+		let message = error instanceof Error ? error.message : String(error)
+		if (timedOut) {
+			message = `Request timed out after ${requestPolicy.timeoutMs}ms`
+		} else if (signal?.aborted) {
+			message = 'Request cancelled'
+		}
+		return { result: { ok: false, error: { category: 'network', message } } }
+	} finally {
+		clearTimeout(timer)
+		signal?.removeEventListener('abort', onAbort)
+	}
+
+	let body: unknown = undefined
+	if (text) {
+		try {
+			body = JSON.parse(text)
+		} catch {
+			body = text
+		}
+	}
+
+	if (!response.ok) {
+		return {
+			result: {
+				ok: false,
+				error: {
+					category: categorizeStatus(response.status),
+					status: response.status,
+					message: extractErrorMessage(
+						body,
+						`HTTP error! status: ${response.status}`
+					),
+					body,
+				},
+			},
+			retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+		}
+	}
+
+	if (typeof body !== 'object' || body === null) {
+		return {
+			result: {
+				ok: false,
+				error: {
+					category: 'server',
+					status: response.status,
+					message: 'Emelia API returned an invalid JSON response',
+					body,
+				},
+			},
+		}
+	}
+
+	// Emelia reports rejected requests with `success: false` and a 200 status
+	if ((body as { success?: unknown }).success === false) {
+		return {
+			result: {
+				ok: false,
+				error: {
+					category: 'validation',
+					status: response.status,
+					message: extractErrorMessage(body, 'Request rejected by Emelia'),
+					body,
+				},
+			},
+		}
+	}
+
+	return { result: { ok: true, data: body as T } }
 }
 
-// Helper function for making Emelia API requests
+// Helper function for making Emelia API requests. Transient failures are
+// retried with backoff, following the policy set by configureEmeliaRequests.
 export async function makeEmeliaRequest<T>(
+	context: EmeliaRequestContext,
 	url: string,
 	options?: RequestInit
-): Promise<T | null> {
-	const apiKey = getEmeliaApiKey()
+): Promise<EmeliaResult<T>> {
+	const apiKey = getEmeliaApiKey(context)
 
 	if (!apiKey) {
-		console.error('No API key available. Please set your Emelia API key.')
-		return null
+		return {
+			ok: false,
+			error: { category: 'auth', message: 'No Emelia API key available' },
+		}
 	}
 
 	const headers = {
@@ -34,23 +371,183 @@ export async function makeEmeliaRequest<T>(
 		'Content-Type': 'application/json',
 	}
 
-	try {
-		const requestOptions: RequestInit = {
-			...options,
-			headers: {
-				...headers,
-				...(options?.headers || {}),
-			},
+	const requestOptions: RequestInit = {
+		...options,
+		headers: {
+			...headers,
+			...(options?.headers || {}),
+		},
+	}
+	const method = (options?.method || 'GET').toUpperCase()
+	const limiter = getRateLimiter(apiKey)
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			await limiter.take(context.signal)
+		} catch {
+			return {
+				ok: false,
+				error: { category: 'network', message: 'Request cancelled' },
+			}
 		}
 
-		const response = await fetch(url, requestOptions)
-		if (!response.ok) {
-			throw new Error(`HTTP error! status: ${response.status}`)
+		const { result, retryAfterMs } = await sendEmeliaRequest<T>(
+			url,
+			requestOptions,
+			context.signal
+		)
+		if (result.ok) {
+			return result
 		}
-		return (await response.json()) as T
-	} catch (error) {
-		console.error('Error making Emelia API request:', error)
-		return null
+
+		const error = { ...result.error, attempts: attempt + 1 }
+		if (
+			attempt >= requestPolicy.maxRetries ||
+			context.signal?.aborted ||
+			!isRetryable(method, error) ||
+			(retryAfterMs !== undefined && retryAfterMs > requestPolicy.maxDelayMs)
+		) {
+			return { ok: false, error }
+		}
+
+		try {
+			await sleep(retryAfterMs ?? backoffDelay(attempt), context.signal)
+		} catch {
+			return { ok: false, error }
+		}
+	}
+}
+
+/**
+ * Check an enrichment job (email verification, email finder, phone finder)
+ * until its status is no longer `running` or `timeoutMs` has elapsed. Resolves
+ * with the last job data seen, still `running` when the timeout was reached.
+ * `onProgress` is called before each wait with the time elapsed so far.
+ */
+export async function waitForEmeliaJob(
+	context: EmeliaRequestContext,
+	url: string,
+	timeoutMs: number,
+	onProgress?: (elapsedMs: number, checks: number) => Promise<void>
+): Promise<EmeliaResult<Record<string, any>>> {
+	const startedAt = Date.now()
+	let delay = requestPolicy.jobPollDelayMs
+
+	for (let checks = 1; ; checks++) {
+		const result = await makeEmeliaRequest<EmeliaApiResponse>(context, url)
+		if (!result.ok) {
+			return result
+		}
+
+		const data = result.data.data as Record<string, any> | undefined
+		if (!data) {
+			return {
+				ok: false,
+				error: { category: 'server', message: 'Emelia returned no job data' },
+			}
+		}
+		const elapsed = Date.now() - startedAt
+		if (data.status !== 'running' || elapsed >= timeoutMs) {
+			return { ok: true, data }
+		}
+
+		await onProgress?.(elapsed, checks)
+		try {
+			await sleep(Math.min(delay, timeoutMs - elapsed), context.signal)
+		} catch {
+			return {
+				ok: false,
+				error: { category: 'network', message: 'Request cancelled' },
+			}
+		}
+		delay = Math.min(delay * 2, requestPolicy.jobPollMaxDelayMs)
+	}
+}
+
+// ID of a reference the API returns either as an ID or as the document
+export const refId = (ref: unknown): string | undefined =>
+	typeof ref === 'string' ? ref : (ref as { _id?: string } | undefined)?._id
+
+/**
+ * Read the campaign `id` from `campaignsUrl`, the endpoint of its campaign
+ * type. A response without the campaign is an error, since the tools reading
+ * a campaign go on to use its fields.
+ */
+export async function getCampaign(
+	context: EmeliaRequestContext,
+	campaignsUrl: string,
+	id: string
+): Promise<
+	| { ok: true; campaign: Record<string, any> }
+	| { ok: false; error: EmeliaError }
+> {
+	const result = await makeEmeliaRequest<EmeliaApiResponse>(
+		context,
+		`${campaignsUrl}/${id}`
+	)
+	if (!result.ok) {
+		return result
+	}
+	const campaign = result.data.campaign as Record<string, any> | undefined
+	if (!campaign) {
+		return {
+			ok: false,
+			error: {
+				category: 'server',
+				message: `Emelia returned no campaign for ${id}`,
+			},
+		}
+	}
+	return { ok: true, campaign }
+}
+
+const ERROR_HINTS: Record<EmeliaErrorCategory, string> = {
+	auth: 'Check that your Emelia API key is valid, then use the authenticate tool again.',
+	'not-found':
+		'Check that the IDs passed to this tool exist in your Emelia account.',
+	validation: 'Check the parameters passed to this tool and try again.',
+	'rate-limited':
+		'The Emelia API rate limit was reached. Wait a moment before retrying.',
+	server: 'The Emelia API had an internal error. Try again later.',
+	network:
+		'The Emelia API could not be reached. Check your network connection and try again.',
+}
+
+// Describe a failed Emelia API request, with a hint on how to recover
+export function formatEmeliaError(action: string, error: EmeliaError): string {
+	const status =
+		error.status && error.status >= 400 ? ` (HTTP ${error.status})` : ''
+	const attempts =
+		error.attempts && error.attempts > 1
+			? ` after ${error.attempts} attempts`
+			: ''
+	return `${action}: ${error.message}${status}${attempts} [${
+		error.category
+	}]\n${ERROR_HINTS[error.category]}`
+}
+
+export const AUTH_REQUIRED_MESSAGE =
+	'Authentication required. Please use the authenticate tool with your Emelia API key first.'
+
+// Build the tool result reporting an error found before or without an
+// Emelia API request
+export function errorResult(text: string): CallToolResult {
+	return { content: [{ type: 'text', text }], isError: true }
+}
+
+// Build the tool result of a tool called before the authenticate tool
+export function authRequiredResult(): CallToolResult {
+	return errorResult(AUTH_REQUIRED_MESSAGE)
+}
+
+// Build the tool result reporting a failed Emelia API request
+export function emeliaErrorResult(
+	action: string,
+	error: EmeliaError
+): CallToolResult {
+	return {
+		content: [{ type: 'text', text: formatEmeliaError(action, error) }],
+		isError: true,
 	}
 }
 
@@ -65,6 +562,79 @@ export function formatCampaign(campaign: CampaignModel & Document): string {
 	].join('\n')
 }
 
+// Format the status of the enrichment jobs
+export function formatEmailVerification(data: Record<string, any>): string {
+	let statusText = `Email Verification Status for ${data.email || 'unknown'}:\n`
+	statusText += `Status: ${data.status || 'unknown'}\n`
+
+	if (data.status === 'done') {
+		statusText += `Result: ${
+			data.qualification === 'valid' ? 'Valid email ✓' : 'Invalid email ✗'
+		}\n`
+	} else if (data.status === 'running') {
+		statusText +=
+			'The verification is still in progress. Please check again later.\n'
+	} else if (data.status === 'error') {
+		statusText += 'An error occurred during verification.\n'
+	}
+
+	if (data.date) {
+		statusText += `Date: ${new Date(data.date).toLocaleString()}\n`
+	}
+	return statusText
+}
+
+export function formatEmailFinder(data: Record<string, any>): string {
+	let statusText = `Email Finder Status for ${data.fullname || 'unknown'} at ${
+		data.companyName || 'unknown'
+	}:\n`
+	statusText += `Status: ${data.status || 'unknown'}\n`
+
+	if (data.status === 'done') {
+		statusText += `Email: ${data.email || 'Not found'}\n`
+		statusText += `Qualification: ${
+			data.qualification === 'valid' ? 'Valid email ✓' : 'Invalid email ✗'
+		}\n`
+	} else if (data.status === 'running') {
+		statusText +=
+			'The email finder is still in progress. Please check again later.\n'
+	} else if (data.status === 'error') {
+		statusText += 'An error occurred during the email finder process.\n'
+	}
+
+	if (data.date) {
+		statusText += `Date: ${new Date(data.date).toLocaleString()}\n`
+	}
+	return statusText
+}
+
+export function formatPhoneFinder(data: Record<string, any>): string {
+	let statusText = `Phone Finder Status for LinkedIn profile: ${
+		data.linkedinUrl || 'unknown'
+	}:\n`
+	statusText += `Status: ${data.status || 'unknown'}\n`
+
+	if (data.status === 'done') {
+		statusText += `Phone Number: ${data.phoneNumber || 'Not found'}\n`
+		if (data.country) {
+			statusText += `Country: ${data.country}\n`
+		}
+		statusText += `Result: ${
+			data.qualification === 'found' ? 'Phone found ✓' : 'Phone not found ✗'
+		}\n`
+	} else if (data.status === 'running') {
+		statusText +=
+			'The phone finder is still in progress. Please check again later.\n'
+	} else if (data.status === 'error') {
+		statusText += 'An error occurred during the phone finder process.\n'
+	}
+
+	if (data.date) {
+		statusText += `Date: ${new Date(data.date).toLocaleString()}\n`
+	}
+	return statusText
+}
+
 export interface CampaignsResponse {
 	error?: string
 	success: boolean
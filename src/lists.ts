@@ -0,0 +1,687 @@
+// Tools managing contact lists: email lists (ContactListModel) and LinkedIn
+// lists (LKContactListModel) hold contacts once, and campaigns of the same
+// type reach them through `recipients.lists`, so one audience can feed
+// several campaigns.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  authRequiredResult,
+  EmeliaApiResponse,
+  emeliaErrorResult,
+  errorResult,
+  getCampaign,
+  getEmeliaApiKey,
+  makeEmeliaRequest,
+  refId,
+} from "./helpers.js";
+import {
+  contactListSchema,
+  contactSchema,
+  linkedinContactSchema,
+  pageOutput,
+} from "./schemas.js";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ListType = "email" | "linkedin";
+
+// Endpoints of each list type and of the campaigns using it, with the field
+// identifying a contact in the list
+const LIST_TYPES: Record<
+  ListType,
+  {
+    path: string;
+    campaigns: string;
+    label: string;
+    noun: string;
+    key: "email" | "url";
+    keyLabel: string;
+  }
+> = {
+  email: {
+    path: "/emails/lists",
+    campaigns: "/emails/campaigns",
+    label: "Email list",
+    noun: "email list",
+    key: "email",
+    keyLabel: "Email",
+  },
+  linkedin: {
+    path: "/linkedin/lists",
+    campaigns: "/linkedin/campaigns",
+    label: "LinkedIn list",
+    noun: "LinkedIn list",
+    key: "url",
+    keyLabel: "LinkedIn",
+  },
+};
+
+const listTypeInput = z
+  .enum(["email", "linkedin"])
+  .describe("Type of the list: email or LinkedIn contacts");
+
+type ContactList = { _id: string; name: string; contactsCount?: number };
+
+const listName = (list: ContactList) =>
+  `"${list.name}" (${list._id}${
+    list.contactsCount === undefined ? "" : `, ${list.contactsCount} contacts`
+  })`;
+
+const unknownList = (type: ListType, id: string) =>
+  errorResult(
+    `${id} is not one of the ${LIST_TYPES[type].noun}s. List them with the get-contact-lists tool.`
+  );
+
+export function registerListTools(server: McpServer, apiUrl: string): void {
+  async function getLists(extra: ToolExtra, type: ListType) {
+    const result = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}${LIST_TYPES[type].path}`
+    );
+    return result.ok
+      ? {
+          ok: true as const,
+          lists: (result.data.lists as ContactList[]) || [],
+        }
+      : result;
+  }
+
+  server.registerTool(
+    "get-contact-lists",
+    {
+      description: "List the email or LinkedIn contact lists, with their size",
+      inputSchema: { list_type: listTypeInput },
+      outputSchema: { lists: z.array(contactListSchema) },
+    },
+    async ({ list_type }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await getLists(extra, list_type);
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to retrieve lists", result.error);
+      }
+
+      const { lists } = result;
+      const { label } = LIST_TYPES[list_type];
+      if (lists.length === 0) {
+        return {
+          content: [
+            { type: "text", text: `No ${LIST_TYPES[list_type].noun}s found` },
+          ],
+          structuredContent: { lists: [] },
+        };
+      }
+
+      const listsText = lists
+        .map(
+          (list) =>
+            `List: ${list.name} (${list._id})\nContacts: ${
+              list.contactsCount ?? "-"
+            }\n---`
+        )
+        .join("\n");
+      return {
+        content: [{ type: "text", text: `${label}s:\n\n${listsText}` }],
+        structuredContent: { lists },
+      };
+    }
+  );
+
+  server.registerTool(
+    "create-contact-list",
+    {
+      description:
+        "Create an empty email or LinkedIn contact list, to fill with add-contacts-to-list and attach to campaigns",
+      inputSchema: {
+        list_type: listTypeInput,
+        name: z.string().min(1).describe("Name of the list"),
+      },
+      outputSchema: { listId: z.string(), name: z.string() },
+    },
+    async ({ list_type, name }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const existing = await getLists(extra, list_type);
+      if (!existing.ok) {
+        return emeliaErrorResult("Failed to retrieve lists", existing.error);
+      }
+      const { label } = LIST_TYPES[list_type];
+      const taken = existing.lists.find(
+        (list) => list.name.toLowerCase() === name.toLowerCase()
+      );
+      if (taken) {
+        return errorResult(
+          `${label} "${taken.name}" already exists (${taken._id}). Add contacts to it, or pick another name.`
+        );
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${LIST_TYPES[list_type].path}`,
+        { method: "POST", body: JSON.stringify({ name }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to create list", result.error);
+      }
+
+      const listId = result.data.listId as string;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${label} "${name}" created successfully! ID: ${listId}`,
+          },
+        ],
+        structuredContent: { listId, name },
+      };
+    }
+  );
+
+  server.registerTool(
+    "rename-contact-list",
+    {
+      description: "Rename an email or LinkedIn contact list",
+      inputSchema: {
+        list_type: listTypeInput,
+        list_id: z.string().describe("List ID"),
+        name: z.string().min(1).describe("New name of the list"),
+      },
+      outputSchema: {
+        listId: z.string(),
+        previousName: z.string(),
+        name: z.string(),
+      },
+    },
+    async ({ list_type, list_id, name }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const existing = await getLists(extra, list_type);
+      if (!existing.ok) {
+        return emeliaErrorResult("Failed to retrieve lists", existing.error);
+      }
+      const list = existing.lists.find((l) => l._id === list_id);
+      if (!list) {
+        return unknownList(list_type, list_id);
+      }
+      const taken = existing.lists.find(
+        (l) => l._id !== list_id && l.name.toLowerCase() === name.toLowerCase()
+      );
+      if (taken) {
+        return errorResult(
+          `Another ${LIST_TYPES[list_type].noun} is already named "${taken.name}" (${taken._id}).`
+        );
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${LIST_TYPES[list_type].path}/${list_id}`,
+        { method: "PATCH", body: JSON.stringify({ name }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to rename list", result.error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `List "${list.name}" renamed to "${name}"`,
+          },
+        ],
+        structuredContent: { listId: list_id, previousName: list.name, name },
+      };
+    }
+  );
+
+  server.registerTool(
+    "delete-contact-list",
+    {
+      description: "Delete an email or LinkedIn contact list",
+      inputSchema: {
+        list_type: listTypeInput,
+        list_id: z.string().describe("List ID"),
+      },
+      outputSchema: { listId: z.string(), name: z.string() },
+    },
+    async ({ list_type, list_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const existing = await getLists(extra, list_type);
+      if (!existing.ok) {
+        return emeliaErrorResult("Failed to retrieve lists", existing.error);
+      }
+      const list = existing.lists.find((l) => l._id === list_id);
+      if (!list) {
+        return unknownList(list_type, list_id);
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${LIST_TYPES[list_type].path}/${list_id}`,
+        { method: "DELETE" }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to delete list", result.error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `List ${listName(list)} deleted`,
+          },
+        ],
+        structuredContent: { listId: list_id, name: list.name },
+      };
+    }
+  );
+
+  server.registerTool(
+    "get-contact-list-contacts",
+    {
+      description: "Page through the contacts of an email or LinkedIn list",
+      inputSchema: {
+        list_type: listTypeInput,
+        list_id: z.string().describe("List ID"),
+        page: z.number().default(1).describe("Page number"),
+        per_page: z.number().default(10).describe("Contacts per page"),
+      },
+      outputSchema: {
+        contacts: z.array(z.union([contactSchema, linkedinContactSchema])),
+        ...pageOutput,
+      },
+    },
+    async ({ list_type, list_id, page, per_page }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${LIST_TYPES[list_type].path}/${list_id}/contacts?page=${page}&perPage=${per_page}`
+      );
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve list contacts",
+          result.error
+        );
+      }
+
+      const contacts =
+        (result.data.contacts as Array<Record<string, any>>) || [];
+      if (contacts.length === 0) {
+        return {
+          content: [{ type: "text", text: "No contacts found for this list" }],
+          structuredContent: {
+            contacts: [],
+            page,
+            perPage: per_page,
+            total: (result.data.total as number) || 0,
+          },
+        };
+      }
+
+      const { key, keyLabel } = LIST_TYPES[list_type];
+      const contactsText = contacts
+        .map(
+          (contact) =>
+            `${keyLabel}: ${contact[key]}${
+              contact.firstName
+                ? `, Name: ${contact.firstName} ${contact.lastName || ""}`
+                : ""
+            }`
+        )
+        .join("\n");
+      const total = (result.data.total as number) || contacts.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `List Contacts (Page ${page} of ${Math.ceil(
+              total / per_page
+            )}, Total: ${total}):\n\n${contactsText}`,
+          },
+        ],
+        structuredContent: { contacts, page, perPage: per_page, total },
+      };
+    }
+  );
+
+  server.registerTool(
+    "add-contacts-to-list",
+    {
+      description:
+        "Add contacts to an email or LinkedIn list. Contacts already in the list are skipped.",
+      inputSchema: {
+        list_type: listTypeInput,
+        list_id: z.string().describe("List ID"),
+        contacts: z
+          .array(
+            z.object({
+              email: z
+                .string()
+                .email()
+                .optional()
+                .describe("Email address, required in email lists (Optional)"),
+              linkedin_url: z
+                .string()
+                .url()
+                .optional()
+                .describe(
+                  "LinkedIn profile URL, required in LinkedIn lists (Optional)"
+                ),
+              first_name: z
+                .string()
+                .optional()
+                .describe("First name (Optional)"),
+              last_name: z.string().optional().describe("Last name (Optional)"),
+              custom_fields: z
+                .record(z.string())
+                .optional()
+                .describe("Custom fields as key-value pairs (Optional)"),
+            })
+          )
+          .min(1)
+          .describe("Contacts to add"),
+      },
+      outputSchema: {
+        listId: z.string(),
+        added: z.number(),
+        skipped: z.number(),
+      },
+    },
+    async ({ list_type, list_id, contacts }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const { key } = LIST_TYPES[list_type];
+      const missing = contacts.findIndex((c) =>
+        key === "email" ? !c.email : !c.linkedin_url
+      );
+      if (missing !== -1) {
+        return errorResult(
+          `Contact ${missing + 1} has no ${
+            key === "email" ? "email" : "linkedin_url"
+          }, which identifies contacts in ${LIST_TYPES[list_type].noun}s.`
+        );
+      }
+
+      const existing = await getLists(extra, list_type);
+      if (!existing.ok) {
+        return emeliaErrorResult("Failed to retrieve lists", existing.error);
+      }
+      const list = existing.lists.find((l) => l._id === list_id);
+      if (!list) {
+        return unknownList(list_type, list_id);
+      }
+
+      const payload = contacts.map((c) => ({
+        [key]: key === "email" ? c.email : c.linkedin_url,
+        ...(c.first_name && { firstName: c.first_name }),
+        ...(c.last_name && { lastName: c.last_name }),
+        ...c.custom_fields,
+      }));
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${LIST_TYPES[list_type].path}/${list_id}/contacts`,
+        { method: "POST", body: JSON.stringify({ contacts: payload }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to add contacts to list",
+          result.error
+        );
+      }
+
+      const added = (result.data.added as number) ?? contacts.length;
+      const skipped = contacts.length - added;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Added ${added} contact${added === 1 ? "" : "s"} to "${
+              list.name
+            }"${skipped ? ` (${skipped} already in the list)` : ""}`,
+          },
+        ],
+        structuredContent: { listId: list_id, added, skipped },
+      };
+    }
+  );
+
+  server.registerTool(
+    "remove-contacts-from-list",
+    {
+      description:
+        "Remove contacts from an email or LinkedIn list, by email address or LinkedIn profile URL",
+      inputSchema: {
+        list_type: listTypeInput,
+        list_id: z.string().describe("List ID"),
+        contacts: z
+          .array(z.string())
+          .min(1)
+          .describe(
+            "Email addresses (email lists) or LinkedIn profile URLs (LinkedIn lists) of the contacts to remove"
+          ),
+      },
+      outputSchema: {
+        listId: z.string(),
+        removed: z.number(),
+        notFound: z.number(),
+      },
+    },
+    async ({ list_type, list_id, contacts }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const existing = await getLists(extra, list_type);
+      if (!existing.ok) {
+        return emeliaErrorResult("Failed to retrieve lists", existing.error);
+      }
+      const list = existing.lists.find((l) => l._id === list_id);
+      if (!list) {
+        return unknownList(list_type, list_id);
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${apiUrl}${LIST_TYPES[list_type].path}/${list_id}/contacts`,
+        { method: "DELETE", body: JSON.stringify({ contacts }) }
+      );
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to remove contacts from list",
+          result.error
+        );
+      }
+
+      const removed = (result.data.removed as number) ?? contacts.length;
+      const notFound = contacts.length - removed;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removed ${removed} contact${
+              removed === 1 ? "" : "s"
+            } from "${list.name}"${
+              notFound ? ` (${notFound} not in the list)` : ""
+            }`,
+          },
+        ],
+        structuredContent: { listId: list_id, removed, notFound },
+      };
+    }
+  );
+
+  // Apply `edit` to the lists of a campaign and save them, then list what the
+  // campaign uses. `edit` returns why it cannot apply, if it cannot.
+  async function editCampaignLists(
+    extra: ToolExtra,
+    type: ListType,
+    id: string,
+    done: string,
+    edit: (
+      attached: string[],
+      lists: Map<string, ContactList>
+    ) => { error: string } | string[]
+  ): Promise<CallToolResult> {
+    if (!getEmeliaApiKey(extra)) {
+      return authRequiredResult();
+    }
+
+    const before = await getCampaign(
+      extra,
+      `${apiUrl}${LIST_TYPES[type].campaigns}`,
+      id
+    );
+    if (!before.ok) {
+      return emeliaErrorResult("Failed to retrieve campaign", before.error);
+    }
+    if (before.campaign.status === "ARCHIVED") {
+      return errorResult(
+        `Campaign ${id} is ARCHIVED: its lists cannot change anymore.`
+      );
+    }
+    const existing = await getLists(extra, type);
+    if (!existing.ok) {
+      return emeliaErrorResult("Failed to retrieve lists", existing.error);
+    }
+
+    const lists = new Map(existing.lists.map((list) => [list._id, list]));
+    const attached: string[] = (before.campaign.recipients?.lists || []).map(
+      refId
+    );
+    const outcome = edit(attached, lists);
+    if ("error" in outcome) {
+      return errorResult(outcome.error);
+    }
+
+    const result = await makeEmeliaRequest<EmeliaApiResponse>(
+      extra,
+      `${apiUrl}${LIST_TYPES[type].campaigns}/${id}`,
+      {
+        method: "PATCH",
+        // The recipients are replaced as a whole, so the contacts and other
+        // settings of the campaign's recipients are sent back with the lists
+        body: JSON.stringify({
+          recipients: { ...before.campaign.recipients, lists: outcome },
+        }),
+      }
+    );
+    if (!result.ok) {
+      return emeliaErrorResult("Failed to update campaign lists", result.error);
+    }
+
+    const after = await getCampaign(
+      extra,
+      `${apiUrl}${LIST_TYPES[type].campaigns}`,
+      id
+    );
+    if (!after.ok) {
+      return emeliaErrorResult(
+        "Lists updated, but failed to read them back",
+        after.error
+      );
+    }
+
+    const used: ContactList[] = (after.campaign.recipients?.lists || []).map(
+      (ref: unknown) => {
+        const listId = refId(ref) || "";
+        return lists.get(listId) || { _id: listId, name: listId };
+      }
+    );
+    const name = after.campaign.name ? ` of "${after.campaign.name}"` : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${done}. Lists${name}:\n\n${
+            used.map((list) => `- ${listName(list)}`).join("\n") || "none"
+          }`,
+        },
+      ],
+      structuredContent: { campaignId: id, lists: used },
+    };
+  }
+
+  const campaignListsInput = {
+    campaign_type: z
+      .enum(["email", "linkedin"])
+      .describe("Type of the campaign, which uses lists of the same type"),
+    campaign_id: z.string().describe("Campaign ID"),
+    list_ids: z.array(z.string()).min(1).describe("IDs of the lists"),
+  };
+
+  const campaignListsOutput = {
+    campaignId: z.string(),
+    lists: z.array(contactListSchema),
+  };
+
+  server.registerTool(
+    "attach-campaign-lists",
+    {
+      description:
+        "Attach contact lists to an email or LinkedIn campaign, which then reaches their contacts",
+      inputSchema: campaignListsInput,
+      outputSchema: campaignListsOutput,
+    },
+    async ({ campaign_type, campaign_id, list_ids }, extra) =>
+      editCampaignLists(
+        extra,
+        campaign_type,
+        campaign_id,
+        "Lists attached",
+        (attached, lists) => {
+          const unknown = list_ids.find((listId) => !lists.has(listId));
+          if (unknown) {
+            return {
+              error: `${unknown} is not one of the ${LIST_TYPES[campaign_type].noun}s. List them with the get-contact-lists tool.`,
+            };
+          }
+          return [...new Set([...attached, ...list_ids])];
+        }
+      )
+  );
+
+  server.registerTool(
+    "detach-campaign-lists",
+    {
+      description: "Detach contact lists from an email or LinkedIn campaign",
+      inputSchema: campaignListsInput,
+      outputSchema: campaignListsOutput,
+    },
+    async ({ campaign_type, campaign_id, list_ids }, extra) =>
+      editCampaignLists(
+        extra,
+        campaign_type,
+        campaign_id,
+        "Lists detached",
+        (attached) => {
+          const unknown = list_ids.find((listId) => !attached.includes(listId));
+          if (unknown) {
+            return {
+              error: `${unknown} is not attached to campaign ${campaign_id}.`,
+            };
+          }
+          return attached.filter((listId) => !list_ids.includes(listId));
+        }
+      )
+  );
+}
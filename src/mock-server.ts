@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+// Serve the in-memory Emelia API mock over HTTP, so the MCP server can be
+// pointed at it with EMELIA_API_URL=http://localhost:<port>
+//
+//   MOCK_PORT=8787 MOCK_API_KEY=test-key node build/mock-server.js
+
+import { createServer, IncomingMessage } from "node:http";
+import { createMockEmeliaApi } from "./mock.js";
+
+const port = Number(process.env.MOCK_PORT || 8787);
+const mock = createMockEmeliaApi({
+  apiKey: process.env.MOCK_API_KEY || undefined,
+  jobPolls: Number(process.env.MOCK_JOB_POLLS || 0),
+});
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const httpServer = createServer(async (req, res) => {
+  try {
+    const body = await readBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (typeof value === "string") headers.set(key, value);
+    });
+
+    const response = await mock.handle(
+      new Request(`http://localhost:${port}${req.url}`, {
+        method: req.method,
+        headers,
+        body: body && req.method !== "GET" ? body : undefined,
+      })
+    );
+
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(await response.text());
+  } catch (error) {
+    console.error("Mock Emelia API error:", error);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: false, error: "Mock server error" }));
+  }
+});
+
+httpServer.listen(port, () => {
+  console.error(`Mock Emelia API listening on http://localhost:${port}`);
+});
@@ -0,0 +1,1500 @@
+// In-memory stand-in for the Emelia REST API, covering the endpoints the tools
+// call. `handle` follows the Fetch API, so it can replace `fetch` in tests or
+// be served over HTTP (see mock-server.ts) and targeted with EMELIA_API_URL.
+
+import {
+  ActivitiesCountModel,
+  ActivityModel,
+  CampaignModel,
+  ContactModel,
+  DelayUnit,
+  EmailType,
+  LinkedinAuthModel,
+  LinkedinCampaignModel,
+  LKContactModel,
+  MailEvent,
+  StepType,
+  UniqueEmailFinderModel,
+  UniqueEmailVerifierModel,
+  UniquePhoneFinderModel,
+} from "./types/models.js";
+
+export type MockContact = Pick<
+  ContactModel,
+  "email" | "firstName" | "lastName" | "status" | "lastContacted"
+> & { custom: Record<string, string> };
+
+export type MockLinkedinContact = Pick<
+  LKContactModel,
+  "url" | "firstName" | "lastName" | "status" | "lastContacted"
+> & { custom: Record<string, string> };
+
+export interface MockAdvancedContact {
+  id: string;
+  email?: string;
+  linkedinUrlProfile?: string;
+  firstName?: string;
+  lastName?: string;
+  status?: string;
+  custom: Record<string, string>;
+}
+
+export interface MockActivity {
+  event: ActivityModel["event"] | string;
+  contact: string;
+  identity?: string;
+  date: string;
+}
+
+// ActivitiesCountModel: one array per step, holding one stat per version
+export type MockStats = Pick<ActivitiesCountModel, "global" | "steps">;
+
+export interface MockEmailVersion {
+  subject?: string;
+  message: string;
+  disabled?: boolean;
+  rawHtml?: boolean;
+  attachments?: Array<{ name: string; url: string }>;
+  options?: { provider?: string };
+}
+
+export interface MockEmailStep {
+  delay?: { amount: number; unit: DelayUnit };
+  versions: MockEmailVersion[];
+}
+
+export interface MockLinkedinStep {
+  stepType: StepType;
+  delay: { amount: number; unit: DelayUnit };
+  versions: Array<{ message: string; disabled?: boolean }>;
+}
+
+export interface MockCampaign {
+  _id: string;
+  name: string;
+  status: CampaignModel["status"];
+  createdAt: string;
+  startAt?: string;
+  plannedStart?: string;
+  provider?: string;
+  useManyProviders?: boolean;
+  providersUsed?: string[];
+  schedule: CampaignModel["schedule"];
+  steps: MockEmailStep[];
+  lists: string[];
+  contacts: MockContact[];
+  stats: MockStats;
+}
+
+export interface MockLinkedinCampaign {
+  _id: string;
+  name: string;
+  status: LinkedinCampaignModel["status"];
+  account?: string;
+  createdAt: string;
+  startAt?: string;
+  plannedStart?: string;
+  assignedSender?: string;
+  schedule: LinkedinCampaignModel["schedule"];
+  steps: MockLinkedinStep[];
+  lists: string[];
+  contacts: MockLinkedinContact[];
+  activities: MockActivity[];
+  stats: MockStats;
+}
+
+export interface MockAdvancedCampaign {
+  _id: string;
+  name: string;
+  status: CampaignModel["status"];
+  createdAt: string;
+  startAt?: string;
+  plannedStart?: string;
+  lists: string[];
+  contacts: MockAdvancedContact[];
+  activities: MockActivity[];
+  stats: MockStats;
+}
+
+export interface MockAdvancedList {
+  _id: string;
+  name: string;
+  contacts: MockAdvancedContact[];
+}
+
+export interface MockContactList {
+  _id: string;
+  name: string;
+  contacts: MockContact[];
+}
+
+export interface MockLinkedinList {
+  _id: string;
+  name: string;
+  contacts: MockLinkedinContact[];
+}
+
+export interface MockProvider {
+  _id: string;
+  senderName: string;
+  senderEmail: string;
+  emailType: EmailType | "EXCHANGE";
+  disabled?: boolean;
+  disconnected?: boolean;
+}
+
+export type MockLinkedinAccount = Pick<
+  LinkedinAuthModel,
+  | "name"
+  | "token"
+  | "status"
+  | "metadata"
+  | "disabled"
+  | "hasAdvanced"
+  | "proxy"
+> & { _id: string; createdAt: string };
+
+export interface MockWarmup {
+  _id: string;
+  provider: string;
+  email: string;
+  running: boolean;
+  startDate?: string;
+  emailsSent: number;
+  emailsReceived: number;
+  spamCount: number;
+  score: number;
+  disabledReason?: string;
+}
+
+type MockJob<T> = T & {
+  _id: string;
+  // Number of status checks still answered with `running`
+  pollsLeft: number;
+};
+
+export type MockEmailVerification = MockJob<
+  Pick<UniqueEmailVerifierModel, "email" | "qualification" | "status" | "date">
+>;
+
+export type MockEmailFinder = MockJob<
+  Pick<
+    UniqueEmailFinderModel,
+    "fullname" | "companyName" | "email" | "qualification" | "status" | "date"
+  > & { country?: string }
+>;
+
+export type MockPhoneFinder = MockJob<
+  Pick<
+    UniquePhoneFinderModel,
+    | "linkedinUrl"
+    | "phoneNumber"
+    | "country"
+    | "qualification"
+    | "status"
+    | "date"
+  >
+>;
+
+export interface MockEmeliaState {
+  campaigns: MockCampaign[];
+  linkedinCampaigns: MockLinkedinCampaign[];
+  advancedCampaigns: MockAdvancedCampaign[];
+  advancedLists: MockAdvancedList[];
+  contactLists: MockContactList[];
+  linkedinLists: MockLinkedinList[];
+  providers: MockProvider[];
+  warmups: MockWarmup[];
+  linkedinAccounts: MockLinkedinAccount[];
+  blacklist: string[];
+  emailVerifications: MockEmailVerification[];
+  emailFinders: MockEmailFinder[];
+  phoneFinders: MockPhoneFinder[];
+  testEmails: Array<Record<string, unknown>>;
+  replies: Array<Record<string, unknown>>;
+}
+
+export interface MockEmeliaOptions {
+  /** Only this key is accepted when set, otherwise any bearer token is */
+  apiKey?: string;
+  /** Status checks answered with `running` before a job is `done` */
+  jobPolls?: number;
+  /** Replaces the default seed data */
+  state?: MockEmeliaState;
+}
+
+export interface MockEmeliaApi {
+  state: MockEmeliaState;
+  handle(request: Request): Promise<Response>;
+  /** Drop-in replacement for the global `fetch` */
+  fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+}
+
+const SEED_DATE = "2025-01-06T09:00:00.000Z";
+
+function emptyStats(): MockStats {
+  return {
+    global: {
+      sent: 0,
+      first_open: 0,
+      opened: 0,
+      clicked: 0,
+      unique_clicked: 0,
+      replied: 0,
+      bounced: 0,
+      unsubscribed: 0,
+      progress_percent: 0,
+    },
+    steps: [],
+  };
+}
+
+function defaultEmailSchedule(): CampaignModel["schedule"] {
+  return {
+    dailyContact: 50,
+    dailyLimit: 100,
+    minInterval: 5,
+    maxInterval: 15,
+    blacklistUnsub: true,
+    trackLinks: true,
+    trackOpens: true,
+    timeZone: "Europe/Paris",
+    days: [1, 2, 3, 4, 5],
+    start: "09:00",
+    end: "17:00",
+    eventToStopMails: ["REPLIED"],
+  };
+}
+
+function defaultLinkedinSchedule(): LinkedinCampaignModel["schedule"] {
+  return {
+    dailyContact: 20,
+    timeZone: "Europe/Paris",
+    days: [1, 2, 3, 4, 5],
+    start: "09:00",
+    end: "18:00",
+  };
+}
+
+// Seed data modelled on the shapes of src/types/models.ts
+export function createSeedState(): MockEmeliaState {
+  return {
+    campaigns: [
+      {
+        _id: "email-campaign-1",
+        name: "Q1 Outbound",
+        status: "RUNNING",
+        createdAt: SEED_DATE,
+        provider: "provider-1",
+        schedule: defaultEmailSchedule(),
+        steps: [
+          {
+            versions: [
+              {
+                subject: "Quick question, {{firstName}}",
+                message: "<p>Hi {{firstName}}, are you the right person?</p>",
+              },
+            ],
+          },
+          {
+            delay: { amount: 3, unit: "DAYS" },
+            versions: [{ message: "<p>Following up on my last email.</p>" }],
+          },
+        ],
+        lists: [],
+        contacts: [
+          {
+            email: "jane.doe@acme.com",
+            firstName: "Jane",
+            lastName: "Doe",
+            status: "REPLIED",
+            lastContacted: SEED_DATE,
+            custom: { company: "Acme" },
+          },
+          {
+            email: "john.smith@globex.com",
+            firstName: "John",
+            lastName: "Smith",
+            status: "OPENED",
+            custom: { company: "Globex" },
+          },
+        ],
+        stats: {
+          global: {
+            sent: 120,
+            first_open: 60,
+            opened: 80,
+            clicked: 12,
+            unique_clicked: 10,
+            replied: 9,
+            bounced: 2,
+            unsubscribed: 1,
+            first_open_percent: 50,
+            replied_percent: 7.5,
+            progress_percent: 40,
+          },
+          steps: [
+            [
+              {
+                sent: 100,
+                to_send: 200,
+                delivered: 98,
+                first_open: 50,
+                opened: 70,
+                clicked: 10,
+                unique_clicked: 8,
+                replied: 7,
+                bounced: 2,
+                unsubscribed: 1,
+              },
+            ],
+            [
+              {
+                sent: 20,
+                to_send: 80,
+                delivered: 20,
+                first_open: 10,
+                opened: 10,
+                clicked: 2,
+                unique_clicked: 2,
+                replied: 2,
+                bounced: 0,
+                unsubscribed: 0,
+              },
+            ],
+          ],
+        },
+      },
+      {
+        _id: "email-campaign-2",
+        name: "Webinar follow-up",
+        status: "DRAFT",
+        createdAt: SEED_DATE,
+        schedule: defaultEmailSchedule(),
+        steps: [],
+        lists: [],
+        contacts: [],
+        stats: emptyStats(),
+      },
+    ],
+    linkedinCampaigns: [
+      {
+        _id: "linkedin-campaign-1",
+        name: "Founders outreach",
+        status: "RUNNING",
+        account: "linkedin-account-1",
+        assignedSender: "ACoAAB1234",
+        createdAt: SEED_DATE,
+        schedule: defaultLinkedinSchedule(),
+        steps: [
+          {
+            stepType: "CONNECTION",
+            delay: { amount: 0, unit: "DAYS" },
+            versions: [{ message: "Hi {{firstName}}, let's connect!" }],
+          },
+          {
+            stepType: "MESSAGE",
+            delay: { amount: 2, unit: "DAYS" },
+            versions: [{ message: "Thanks for connecting, {{firstName}}." }],
+          },
+        ],
+        lists: [],
+        contacts: [
+          {
+            url: "https://www.linkedin.com/in/jane-doe",
+            firstName: "Jane",
+            lastName: "Doe",
+            status: "ACCEPTED",
+            custom: {},
+          },
+        ],
+        activities: [
+          {
+            event: "INVITED",
+            contact: "https://www.linkedin.com/in/jane-doe",
+            date: SEED_DATE,
+          },
+        ],
+        stats: emptyStats(),
+      },
+    ],
+    advancedCampaigns: [
+      {
+        _id: "advanced-campaign-1",
+        name: "Multichannel ABM",
+        status: "RUNNING",
+        createdAt: SEED_DATE,
+        lists: [],
+        contacts: [
+          {
+            id: "advanced-contact-1",
+            email: "jane.doe@acme.com",
+            linkedinUrlProfile: "https://www.linkedin.com/in/jane-doe",
+            firstName: "Jane",
+            lastName: "Doe",
+            status: "CONTACTED",
+            custom: {},
+          },
+        ],
+        activities: [
+          {
+            event: "SENT",
+            contact: "jane.doe@acme.com",
+            identity: "sales@emelia.io",
+            date: SEED_DATE,
+          },
+        ],
+        stats: emptyStats(),
+      },
+    ],
+    advancedLists: [{ _id: "advanced-list-1", name: "ABM", contacts: [] }],
+    contactLists: [
+      {
+        _id: "email-list-1",
+        name: "Newsletter signups",
+        contacts: [
+          {
+            email: "ada@example.com",
+            firstName: "Ada",
+            lastName: "Lovelace",
+            custom: {},
+          },
+          {
+            email: "alan@example.com",
+            firstName: "Alan",
+            lastName: "Turing",
+            custom: { company: "Bletchley" },
+          },
+        ],
+      },
+    ],
+    linkedinLists: [
+      {
+        _id: "linkedin-list-1",
+        name: "Event attendees",
+        contacts: [
+          {
+            url: "https://www.linkedin.com/in/grace-hopper",
+            firstName: "Grace",
+            lastName: "Hopper",
+            custom: {},
+          },
+        ],
+      },
+    ],
+    providers: [
+      {
+        _id: "provider-1",
+        senderName: "Sales Team",
+        senderEmail: "sales@emelia.io",
+        emailType: "GOOGLE",
+      },
+    ],
+    warmups: [
+      {
+        _id: "warmup-1",
+        provider: "provider-1",
+        email: "sales@emelia.io",
+        running: true,
+        startDate: SEED_DATE,
+        emailsSent: 40,
+        emailsReceived: 38,
+        spamCount: 1,
+        score: 92,
+      },
+    ],
+    linkedinAccounts: [
+      {
+        _id: "linkedin-account-1",
+        name: "Alex Martin",
+        token: "li_at-seed-token",
+        status: "valid",
+        metadata: {
+          id: "ACoAAB1234",
+          handle: "alex-martin",
+          fullName: "Alex Martin",
+          hasPremium: true,
+        },
+        createdAt: SEED_DATE,
+      },
+    ],
+    blacklist: [],
+    emailVerifications: [],
+    emailFinders: [],
+    phoneFinders: [],
+    testEmails: [],
+    replies: [],
+  };
+}
+
+// Status changes of the campaign lifecycle, with the statuses they apply to
+const LIFECYCLE: Record<
+  string,
+  { from: Array<CampaignModel["status"]>; to: CampaignModel["status"] }
+> = {
+  start: { from: ["DRAFT"], to: "RUNNING" },
+  pause: { from: ["RUNNING"], to: "PAUSED" },
+  resume: { from: ["PAUSED"], to: "RUNNING" },
+  archive: { from: ["DRAFT", "PAUSED", "FINISHED"], to: "ARCHIVED" },
+};
+
+// Field identifying the contacts in the recipients of each campaign type
+const RECIPIENT_KEYS: Record<string, string> = {
+  emails: "email",
+  linkedin: "url",
+  advanced: "id",
+};
+
+// Campaign fields a PATCH sets as sent. The schedule is merged, and the
+// recipient lists and contacts are replaced through `recipients`.
+const CAMPAIGN_SETTINGS = [
+  "name",
+  "steps",
+  "provider",
+  "useManyProviders",
+  "providersUsed",
+  "account",
+  "assignedSender",
+  "hubspotIntegration",
+  "pipedriveIntegration",
+  "zapierData",
+];
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function findOr404<T>(
+  items: T[],
+  predicate: (item: T) => boolean,
+  what: string
+): T {
+  const item = items.find(predicate);
+  if (!item) {
+    throw new MockHttpError(404, `${what} not found`);
+  }
+  return item;
+}
+
+// Split a contact payload into known fields and custom fields
+function splitContact<K extends string>(
+  contact: Record<string, unknown>,
+  fields: K[]
+): Partial<Record<K, string>> & { custom: Record<string, string> } {
+  const known: Partial<Record<K, string>> = {};
+  const custom: Record<string, string> = {};
+  Object.entries(contact || {}).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    if ((fields as string[]).includes(key)) {
+      known[key as K] = String(value);
+    } else {
+      custom[key] = String(value);
+    }
+  });
+  return { ...known, custom };
+}
+
+function paginate<T>(items: T[], params: URLSearchParams) {
+  const page = Number(params.get("page") || 1);
+  const perPage = Number(params.get("perPage") || 10);
+  return items.slice((page - 1) * perPage, page * perPage);
+}
+
+function filterContacts<T extends { status?: string }>(
+  contacts: T[],
+  params: URLSearchParams,
+  searchable: (contact: T) => Array<string | undefined>
+): T[] {
+  const event = params.get("event") as MailEvent | null;
+  const query = params.get("query")?.toLowerCase();
+  return contacts.filter(
+    (contact) =>
+      (!event || event === "ALL" || contact.status === event) &&
+      (!query ||
+        searchable(contact).some((value) =>
+          value?.toLowerCase().includes(query)
+        ))
+  );
+}
+
+// Advance a job by one status check
+function pollJob<T extends { pollsLeft: number; status: string }>(job: T): T {
+  if (job.pollsLeft > 0) {
+    job.pollsLeft -= 1;
+  } else if (job.status === "running") {
+    job.status = "done";
+  }
+  return job;
+}
+
+type ContactList = {
+  _id: string;
+  name: string;
+  contacts: Array<MockContact | MockLinkedinContact>;
+};
+
+type RouteHandler = (
+  match: RegExpMatchArray,
+  params: URLSearchParams,
+  body: any
+) => unknown;
+
+export function createMockEmeliaApi(
+  options: MockEmeliaOptions = {}
+): MockEmeliaApi {
+  const state = options.state ?? createSeedState();
+  const jobPolls = options.jobPolls ?? 0;
+  let nextId = 1;
+  const newId = (prefix: string) => `${prefix}-mock-${nextId++}`;
+  const now = () => new Date().toISOString();
+
+  const campaign = (id: string | null) =>
+    findOr404(state.campaigns, (c) => c._id === id, "Campaign");
+  const linkedinCampaign = (id: string | null) =>
+    findOr404(state.linkedinCampaigns, (c) => c._id === id, "Campaign");
+  const advancedCampaign = (id: string | null) =>
+    findOr404(state.advancedCampaigns, (c) => c._id === id, "Campaign");
+  const campaignOfType = (type: string, id: string) =>
+    type === "emails"
+      ? campaign(id)
+      : type === "linkedin"
+      ? linkedinCampaign(id)
+      : advancedCampaign(id);
+
+  // Contact lists of a type, with the field identifying their contacts
+  const listsOf = (type: string) =>
+    type === "emails"
+      ? { lists: state.contactLists as ContactList[], key: "email" as const }
+      : { lists: state.linkedinLists as ContactList[], key: "url" as const };
+  const contactList = (type: string, id: string) =>
+    findOr404(listsOf(type).lists, (l) => l._id === id, "List");
+
+  // Full configurations, shaped like CampaignModel and LinkedinCampaignModel
+  const campaignDetails = ({
+    contacts,
+    stats,
+    lists,
+    ...rest
+  }: MockCampaign) => ({
+    ...rest,
+    recipients: {
+      lists,
+      contacts: contacts.map((c) => c.email),
+      processing: false,
+    },
+  });
+  const linkedinCampaignDetails = ({
+    contacts,
+    activities,
+    stats,
+    lists,
+    ...rest
+  }: MockLinkedinCampaign) => ({
+    ...rest,
+    recipients: {
+      lists,
+      contacts: contacts.map((c) => c.url),
+      processing: false,
+    },
+  });
+
+  const advancedCampaignDetails = ({
+    contacts,
+    activities,
+    stats,
+    lists,
+    ...rest
+  }: MockAdvancedCampaign) => ({
+    ...rest,
+    recipients: {
+      lists,
+      contacts: contacts.map((c) => c.id),
+      processing: false,
+    },
+  });
+
+  const routes: Array<[string, RegExp, RouteHandler]> = [
+    // Email campaigns
+    [
+      "GET",
+      /^\/emails\/campaigns$/,
+      (_, params) => ({
+        success: true,
+        campaigns: state.campaigns
+          .filter(
+            (c) => !params.get("status") || c.status === params.get("status")
+          )
+          .map(({ _id, name, status, createdAt }) => ({
+            _id,
+            name,
+            status,
+            createdAt,
+          })),
+      }),
+    ],
+    [
+      "GET",
+      /^\/emails\/campaigns\/([^/]+)$/,
+      (match) => ({
+        success: true,
+        campaign: campaignDetails(campaign(match[1])),
+      }),
+    ],
+    [
+      "POST",
+      /^\/emails\/campaigns$/,
+      (_, __, body) => {
+        const created: MockCampaign = {
+          _id: newId("email-campaign"),
+          name: body.name,
+          status: "DRAFT",
+          createdAt: now(),
+          schedule: defaultEmailSchedule(),
+          steps: [],
+          lists: [],
+          contacts: [],
+          stats: emptyStats(),
+        };
+        state.campaigns.push(created);
+        return { success: true, campaignId: created._id };
+      },
+    ],
+    [
+      "POST",
+      /^\/emails\/campaign\/contacts$/,
+      (_, __, body) => {
+        const target = campaign(body.id);
+        const contact = splitContact(body.contact, [
+          "email",
+          "firstName",
+          "lastName",
+        ]);
+        if (!contact.email) {
+          throw new MockHttpError(400, "Contact email is required");
+        }
+        target.contacts.push({ ...contact, email: contact.email });
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/emails\/campaign\/contacts$/,
+      (_, params) => {
+        const contacts = filterContacts(
+          campaign(params.get("id")).contacts,
+          params,
+          (c) => [c.email, c.firstName, c.lastName]
+        );
+        return {
+          success: true,
+          contacts: paginate(contacts, params),
+          total: contacts.length,
+        };
+      },
+    ],
+    [
+      "PATCH",
+      /^\/emails\/contacts$/,
+      (_, __, body) => {
+        const contact = findOr404(
+          campaign(body.campaignId).contacts,
+          (c) => c.email === body.email,
+          "Contact"
+        );
+        contact.custom[body.fieldName] = body.fieldValue;
+        return { success: true };
+      },
+    ],
+    [
+      "POST",
+      /^\/emails\/test$/,
+      (_, __, body) => {
+        campaign(body.campaignId);
+        state.testEmails.push(body);
+        return { success: true };
+      },
+    ],
+    [
+      "POST",
+      /^\/emails\/reply$/,
+      (_, __, body) => {
+        state.replies.push(body);
+        return { success: true };
+      },
+    ],
+    [
+      "POST",
+      /^\/emails\/blacklists\/contact$/,
+      (_, __, body) => {
+        if (!state.blacklist.includes(body.email)) {
+          state.blacklist.push(body.email);
+        }
+        return { success: true };
+      },
+    ],
+    [
+      "DELETE",
+      /^\/emails\/blacklists\/contact$/,
+      (_, __, body) => {
+        state.blacklist = state.blacklist.filter(
+          (email) => email !== body.email
+        );
+        return { success: true };
+      },
+    ],
+    // Statistics
+    [
+      "GET",
+      /^\/stats$/,
+      (_, params) => campaign(params.get("campaignId")).stats,
+    ],
+    [
+      "GET",
+      /^\/stats\/linkedin$/,
+      (_, params) => linkedinCampaign(params.get("campaignId")).stats,
+    ],
+    [
+      "GET",
+      /^\/stats\/advanced$/,
+      (_, params) => advancedCampaign(params.get("campaignId")).stats,
+    ],
+    // LinkedIn campaigns
+    [
+      "GET",
+      /^\/linkedin\/campaigns$/,
+      (_, params) => ({
+        success: true,
+        campaigns: state.linkedinCampaigns
+          .filter(
+            (c) => !params.get("status") || c.status === params.get("status")
+          )
+          .map(({ _id, name, status, account, assignedSender, createdAt }) => ({
+            _id,
+            name,
+            status,
+            account,
+            assignedSender,
+            createdAt,
+          })),
+      }),
+    ],
+    [
+      "GET",
+      /^\/linkedin\/campaigns\/([^/]+)$/,
+      (match) => ({
+        success: true,
+        campaign: linkedinCampaignDetails(linkedinCampaign(match[1])),
+      }),
+    ],
+    [
+      "POST",
+      /^\/linkedin\/campaigns$/,
+      (_, __, body) => {
+        const created: MockLinkedinCampaign = {
+          _id: newId("linkedin-campaign"),
+          name: body.name,
+          status: "DRAFT",
+          createdAt: now(),
+          schedule: defaultLinkedinSchedule(),
+          steps: [],
+          lists: [],
+          contacts: [],
+          activities: [],
+          stats: emptyStats(),
+        };
+        state.linkedinCampaigns.push(created);
+        return { success: true, campaignId: created._id };
+      },
+    ],
+    [
+      "POST",
+      /^\/linkedin\/campaign\/contacts$/,
+      (_, __, body) => {
+        const target = linkedinCampaign(body.id);
+        const contact = splitContact(body.contact, [
+          "url",
+          "firstName",
+          "lastName",
+        ]);
+        if (!contact.url) {
+          throw new MockHttpError(400, "Contact url is required");
+        }
+        target.contacts.push({ ...contact, url: contact.url });
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/linkedin\/campaign\/contacts$/,
+      (_, params) => {
+        const contacts = filterContacts(
+          linkedinCampaign(params.get("id")).contacts,
+          params,
+          (c) => [c.url, c.firstName, c.lastName]
+        );
+        return {
+          success: true,
+          contacts: paginate(contacts, params),
+          total: contacts.length,
+        };
+      },
+    ],
+    [
+      "DELETE",
+      /^\/linkedin\/campaign\/contacts$/,
+      (_, __, body) => {
+        const target = linkedinCampaign(body.id);
+        findOr404(target.contacts, (c) => c.url === body.url, "Contact");
+        target.contacts = target.contacts.filter((c) => c.url !== body.url);
+        return { success: true };
+      },
+    ],
+    [
+      "PATCH",
+      /^\/linkedin\/contacts$/,
+      (_, __, body) => {
+        const contact = findOr404(
+          linkedinCampaign(body.campaignId).contacts,
+          (c) => c.url === body.url,
+          "Contact"
+        );
+        contact.custom[body.fieldName] = body.fieldValue;
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/linkedin\/campaigns\/([^/]+)\/activities$/,
+      (match, params) => ({
+        success: true,
+        activities: paginate(
+          linkedinCampaign(match[1]).activities.filter(
+            (a) => !params.get("type") || a.event === params.get("type")
+          ),
+          params
+        ),
+      }),
+    ],
+    [
+      "GET",
+      /^\/(emails|linkedin)\/lists$/,
+      (match) => ({
+        success: true,
+        lists: listsOf(match[1]).lists.map(({ contacts, ...list }) => ({
+          ...list,
+          contactsCount: contacts.length,
+        })),
+      }),
+    ],
+    [
+      "POST",
+      /^\/(emails|linkedin)\/lists$/,
+      (match, __, body) => {
+        if (!body.name) {
+          throw new MockHttpError(400, "List name is required");
+        }
+        const list = {
+          _id: newId(match[1] === "emails" ? "email-list" : "linkedin-list"),
+          name: String(body.name),
+          contacts: [],
+        };
+        listsOf(match[1]).lists.push(list);
+        return { success: true, listId: list._id };
+      },
+    ],
+    [
+      "PATCH",
+      /^\/(emails|linkedin)\/lists\/([^/]+)$/,
+      (match, __, body) => {
+        contactList(match[1], match[2]).name = String(body.name);
+        return { success: true };
+      },
+    ],
+    [
+      "DELETE",
+      /^\/(emails|linkedin)\/lists\/([^/]+)$/,
+      (match) => {
+        const { lists } = listsOf(match[1]);
+        lists.splice(lists.indexOf(contactList(match[1], match[2])), 1);
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/(emails|linkedin)\/lists\/([^/]+)\/contacts$/,
+      (match, params) => {
+        const { contacts } = contactList(match[1], match[2]);
+        return {
+          success: true,
+          contacts: paginate(contacts, params),
+          total: contacts.length,
+        };
+      },
+    ],
+    [
+      "POST",
+      /^\/(emails|linkedin)\/lists\/([^/]+)\/contacts$/,
+      (match, __, body) => {
+        const { key } = listsOf(match[1]);
+        const list = contactList(match[1], match[2]);
+        let added = 0;
+        for (const payload of body.contacts || []) {
+          const contact = splitContact(payload, [key, "firstName", "lastName"]);
+          if (!contact[key]) {
+            throw new MockHttpError(400, `Contact ${key} is required`);
+          }
+          if (
+            list.contacts.some(
+              (c) => (c as Record<string, unknown>)[key] === contact[key]
+            )
+          ) {
+            continue;
+          }
+          list.contacts.push(contact as MockContact | MockLinkedinContact);
+          added += 1;
+        }
+        return { success: true, added };
+      },
+    ],
+    [
+      "DELETE",
+      /^\/(emails|linkedin)\/lists\/([^/]+)\/contacts$/,
+      (match, __, body) => {
+        const { key } = listsOf(match[1]);
+        const list = contactList(match[1], match[2]);
+        const count = list.contacts.length;
+        list.contacts = list.contacts.filter(
+          (c) =>
+            !(body.contacts || []).includes((c as Record<string, unknown>)[key])
+        );
+        return { success: true, removed: count - list.contacts.length };
+      },
+    ],
+    [
+      "GET",
+      /^\/linkedin\/accounts$/,
+      () => ({
+        success: true,
+        accounts: state.linkedinAccounts.map(
+          ({ token, proxy, ...account }) => ({
+            ...account,
+            proxy: proxy && { host: proxy.host, port: proxy.port },
+          })
+        ),
+      }),
+    ],
+    // Advanced campaigns
+    [
+      "GET",
+      /^\/advanced\/campaigns$/,
+      () => ({
+        success: true,
+        campaigns: state.advancedCampaigns.map(
+          ({ _id, name, status, createdAt }) => ({
+            _id,
+            name,
+            status,
+            createdAt,
+          })
+        ),
+      }),
+    ],
+    [
+      "GET",
+      /^\/advanced\/campaigns\/([^/]+)$/,
+      (match) => ({
+        success: true,
+        campaign: advancedCampaignDetails(advancedCampaign(match[1])),
+      }),
+    ],
+    [
+      "POST",
+      /^\/advanced\/campaigns$/,
+      (_, __, body) => {
+        const created: MockAdvancedCampaign = {
+          _id: newId("advanced-campaign"),
+          name: body.name,
+          status: "DRAFT",
+          createdAt: now(),
+          lists: [],
+          contacts: [],
+          activities: [],
+          stats: emptyStats(),
+        };
+        state.advancedCampaigns.push(created);
+        return { success: true, campaignId: created._id };
+      },
+    ],
+    [
+      "POST",
+      /^\/advanced\/campaign\/contacts$/,
+      (_, __, body) => {
+        const target = advancedCampaign(body.id);
+        const contact: MockAdvancedContact = {
+          id: newId("advanced-contact"),
+          ...splitContact(body.contact, [
+            "email",
+            "linkedinUrlProfile",
+            "firstName",
+            "lastName",
+          ]),
+        };
+        target.contacts.push(contact);
+        return { success: true, contactId: contact.id };
+      },
+    ],
+    [
+      "GET",
+      /^\/advanced\/campaign\/contacts$/,
+      (_, params) => {
+        const contacts = filterContacts(
+          advancedCampaign(params.get("id")).contacts,
+          params,
+          (c) => [c.email, c.linkedinUrlProfile, c.firstName, c.lastName]
+        );
+        return {
+          success: true,
+          contacts: paginate(contacts, params),
+          total: contacts.length,
+        };
+      },
+    ],
+    [
+      "DELETE",
+      /^\/advanced\/campaign\/contacts$/,
+      (_, __, body) => {
+        const target = advancedCampaign(body.id);
+        findOr404(target.contacts, (c) => c.id === body.contactId, "Contact");
+        target.contacts = target.contacts.filter(
+          (c) => c.id !== body.contactId
+        );
+        return { success: true };
+      },
+    ],
+    [
+      "GET",
+      /^\/advanced\/lists\/([^/]+)\/contacts$/,
+      (match, params) => {
+        const { contacts } = findOr404(
+          state.advancedLists,
+          (l) => l._id === match[1],
+          "List"
+        );
+        return {
+          success: true,
+          contacts: paginate(contacts, params),
+          total: contacts.length,
+        };
+      },
+    ],
+    [
+      "POST",
+      /^\/advanced\/lists\/contacts$/,
+      (_, __, body) => {
+        const list = findOr404(
+          state.advancedLists,
+          (l) => l._id === body.id,
+          "List"
+        );
+        const contact: MockAdvancedContact = {
+          id: newId("advanced-contact"),
+          ...splitContact(body.contact, [
+            "email",
+            "linkedinUrlProfile",
+            "firstName",
+            "lastName",
+          ]),
+        };
+        list.contacts.push(contact);
+        return { success: true, contactId: contact.id };
+      },
+    ],
+    [
+      "GET",
+      /^\/advanced\/campaigns\/([^/]+)\/activities$/,
+      (match, params) => ({
+        success: true,
+        activities: paginate(
+          advancedCampaign(match[1]).activities.filter(
+            (a) => !params.get("type") || a.event === params.get("type")
+          ),
+          params
+        ),
+      }),
+    ],
+    // Campaign settings, for every campaign type
+    [
+      "PATCH",
+      /^\/(emails|linkedin|advanced)\/campaigns\/([^/]+)$/,
+      (match, __, body) => {
+        const target = campaignOfType(match[1], match[2]);
+        if (body.steps !== undefined && !Array.isArray(body.steps)) {
+          throw new MockHttpError(400, "Steps must be an array");
+        }
+        Object.assign(
+          target,
+          Object.fromEntries(
+            Object.entries(body).filter(([key]) =>
+              CAMPAIGN_SETTINGS.includes(key)
+            )
+          )
+        );
+        if (body.schedule !== undefined && "schedule" in target) {
+          target.schedule = { ...target.schedule, ...body.schedule };
+        }
+        if (body.recipients !== undefined) {
+          // The recipients are replaced as a whole: contacts they leave out
+          // are removed from the campaign
+          const key = RECIPIENT_KEYS[match[1]];
+          const kept: unknown[] = body.recipients.contacts || [];
+          const recipients = target as {
+            contacts: Array<Record<string, unknown>>;
+          };
+          target.lists = body.recipients.lists || [];
+          recipients.contacts = recipients.contacts.filter((c) =>
+            kept.includes(c[key])
+          );
+        }
+        return { success: true };
+      },
+    ],
+    // Campaign lifecycle, for every campaign type
+    [
+      "POST",
+      /^\/(emails|linkedin|advanced)\/campaigns\/([^/]+)\/(start|pause|resume|archive)$/,
+      (match, __, body) => {
+        const target = campaignOfType(match[1], match[2]);
+        const change = LIFECYCLE[match[3]];
+        if (!change.from.includes(target.status)) {
+          throw new MockHttpError(
+            400,
+            `Cannot ${match[3]} a campaign with status ${target.status}`
+          );
+        }
+        if (match[3] === "start") {
+          // LinkedIn campaigns keep running with the LinkedIn user they start with
+          if ("account" in target && target.account && !target.assignedSender) {
+            target.assignedSender = state.linkedinAccounts.find(
+              (a) => a._id === target.account
+            )?.metadata?.id;
+          }
+          if (body.plannedStart) {
+            target.plannedStart = body.plannedStart;
+          } else {
+            target.startAt = now();
+          }
+        }
+        target.status = change.to;
+        return { success: true };
+      },
+    ],
+    // Enrichment tools
+    [
+      "POST",
+      /^\/tools\/verify\/email$/,
+      (_, __, body) => {
+        const job: MockEmailVerification = {
+          _id: newId("verify"),
+          email: body.email,
+          qualification: body.email.includes("invalid") ? "invalid" : "valid",
+          status: "running",
+          date: now(),
+          pollsLeft: jobPolls,
+        };
+        state.emailVerifications.push(job);
+        return { success: true, jobId: job._id };
+      },
+    ],
+    [
+      "GET",
+      /^\/tools\/verify\/email\/([^/]+)$/,
+      (match) => {
+        const { pollsLeft, _id, ...job } = pollJob(
+          findOr404(state.emailVerifications, (j) => j._id === match[1], "Job")
+        );
+        return { success: true, data: job };
+      },
+    ],
+    [
+      "POST",
+      /^\/tools\/find\/email$/,
+      (_, __, body) => {
+        const [first, ...rest] = String(body.fullname)
+          .toLowerCase()
+          .split(/\s+/);
+        const domain =
+          body.companyWebsite
+            ?.replace(/^https?:\/\/(www\.)?/, "")
+            .replace(/\/.*$/, "") ||
+          `${String(body.companyName)
+            .toLowerCase()
+            .replace(/[^a-z0-9]/g, "")}.com`;
+        const found = !String(body.fullname).toLowerCase().includes("unknown");
+        const job: MockEmailFinder = {
+          _id: newId("find-email"),
+          fullname: body.fullname,
+          companyName: body.companyName,
+          country: body.country,
+          email: found ? `${[first, ...rest].join(".")}@${domain}` : undefined,
+          qualification: found ? "valid" : "not_found",
+          status: "running",
+          date: now(),
+          pollsLeft: jobPolls,
+        };
+        state.emailFinders.push(job);
+        return { success: true, jobId: job._id };
+      },
+    ],
+    [
+      "GET",
+      /^\/tools\/find\/email\/([^/]+)$/,
+      (match) => {
+        const { pollsLeft, _id, ...job } = pollJob(
+          findOr404(state.emailFinders, (j) => j._id === match[1], "Job")
+        );
+        return { success: true, data: job };
+      },
+    ],
+    [
+      "POST",
+      /^\/tools\/find\/phone$/,
+      (_, __, body) => {
+        const found = !String(body.linkedinUrl).includes("unknown");
+        const job: MockPhoneFinder = {
+          _id: newId("find-phone"),
+          linkedinUrl: body.linkedinUrl,
+          phoneNumber: found ? "06 12 34 56 78" : undefined,
+          country: found ? "FR" : undefined,
+          qualification: found ? "found" : "not_found",
+          status: "running",
+          date: now(),
+          pollsLeft: jobPolls,
+        };
+        state.phoneFinders.push(job);
+        return { success: true, jobId: job._id };
+      },
+    ],
+    [
+      "GET",
+      /^\/tools\/find\/phone\/([^/]+)$/,
+      (match) => {
+        const { pollsLeft, _id, ...job } = pollJob(
+          findOr404(state.phoneFinders, (j) => j._id === match[1], "Job")
+        );
+        return { success: true, data: job };
+      },
+    ],
+    // Email providers
+    [
+      "GET",
+      /^\/email-providers$/,
+      (_, params) => ({
+        success: true,
+        providers: state.providers.filter(
+          (p) => params.get("filter") !== "disconnected" || p.disconnected
+        ),
+      }),
+    ],
+    [
+      "POST",
+      /^\/email-providers$/,
+      (_, __, body) => {
+        const provider: MockProvider = {
+          _id: newId("provider"),
+          senderName: body.senderName,
+          senderEmail: body.senderEmail,
+          emailType: body.emailType,
+        };
+        state.providers.push(provider);
+        return { success: true, providerId: provider._id };
+      },
+    ],
+    [
+      "GET",
+      /^\/email-providers\/warmup$/,
+      () => ({ success: true, warmups: state.warmups }),
+    ],
+    [
+      "POST",
+      /^\/email-providers\/warmup\/(enable|disable)$/,
+      (match, __, body) => {
+        const provider = findOr404(
+          state.providers,
+          (p) => p._id === body.providerId,
+          "Provider"
+        );
+        let warmup = state.warmups.find((w) => w.provider === provider._id);
+        if (!warmup) {
+          warmup = {
+            _id: newId("warmup"),
+            provider: provider._id,
+            email: provider.senderEmail,
+            running: false,
+            emailsSent: 0,
+            emailsReceived: 0,
+            spamCount: 0,
+            score: 0,
+          };
+          state.warmups.push(warmup);
+        }
+        warmup.running = match[1] === "enable";
+        warmup.startDate = warmup.startDate ?? now();
+        return { success: true };
+      },
+    ],
+  ];
+
+  async function handle(request: Request): Promise<Response> {
+    const authorization = request.headers.get("authorization") || "";
+    const token = authorization.replace(/^Bearer\s+/i, "");
+    if (!token || (options.apiKey && token !== options.apiKey)) {
+      return json({ success: false, error: "Invalid API key" }, 401);
+    }
+
+    const url = new URL(request.url);
+    const route = routes.find(
+      ([method, pattern]) =>
+        method === request.method && pattern.test(url.pathname)
+    );
+    if (!route) {
+      return json({ success: false, error: "Route not found" }, 404);
+    }
+
+    let body: any = undefined;
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return json({ success: false, error: "Invalid JSON body" }, 400);
+      }
+    }
+
+    try {
+      const [, pattern, handler] = route;
+      return json(
+        handler(url.pathname.match(pattern)!, url.searchParams, body ?? {})
+      );
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return json({ success: false, error: error.message }, error.status);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    state,
+    handle,
+    fetch: (input, init) => handle(new Request(input, init)),
+  };
+}
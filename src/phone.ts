@@ -0,0 +1,102 @@
+// Phone numbers in E.164 format (+ country calling code + subscriber number),
+// so numbers found in different countries can be dialled and deduplicated the
+// same way. The phone finder returns numbers in national format with the
+// two-letter country of the number.
+
+// Calling code and national trunk prefix of the countries Emelia users target
+// most. Italy and a few others keep their leading zero after the calling code.
+const COUNTRIES: Record<string, { code: string; trunk?: string }> = {
+  AE: { code: "971", trunk: "0" },
+  AR: { code: "54", trunk: "0" },
+  AT: { code: "43", trunk: "0" },
+  AU: { code: "61", trunk: "0" },
+  BE: { code: "32", trunk: "0" },
+  BG: { code: "359", trunk: "0" },
+  BR: { code: "55", trunk: "0" },
+  CA: { code: "1", trunk: "1" },
+  CH: { code: "41", trunk: "0" },
+  CL: { code: "56" },
+  CN: { code: "86", trunk: "0" },
+  CO: { code: "57" },
+  CZ: { code: "420" },
+  DE: { code: "49", trunk: "0" },
+  DK: { code: "45" },
+  EE: { code: "372" },
+  EG: { code: "20", trunk: "0" },
+  ES: { code: "34" },
+  FI: { code: "358", trunk: "0" },
+  FR: { code: "33", trunk: "0" },
+  GB: { code: "44", trunk: "0" },
+  GR: { code: "30" },
+  HK: { code: "852" },
+  HR: { code: "385", trunk: "0" },
+  HU: { code: "36", trunk: "06" },
+  ID: { code: "62", trunk: "0" },
+  IE: { code: "353", trunk: "0" },
+  IL: { code: "972", trunk: "0" },
+  IN: { code: "91", trunk: "0" },
+  IT: { code: "39" },
+  JP: { code: "81", trunk: "0" },
+  KR: { code: "82", trunk: "0" },
+  LT: { code: "370", trunk: "8" },
+  LU: { code: "352" },
+  LV: { code: "371" },
+  MA: { code: "212", trunk: "0" },
+  MX: { code: "52" },
+  MY: { code: "60", trunk: "0" },
+  NG: { code: "234", trunk: "0" },
+  NL: { code: "31", trunk: "0" },
+  NO: { code: "47" },
+  NZ: { code: "64", trunk: "0" },
+  PE: { code: "51", trunk: "0" },
+  PH: { code: "63", trunk: "0" },
+  PL: { code: "48" },
+  PT: { code: "351" },
+  RO: { code: "40", trunk: "0" },
+  RS: { code: "381", trunk: "0" },
+  SA: { code: "966", trunk: "0" },
+  SE: { code: "46", trunk: "0" },
+  SG: { code: "65" },
+  SI: { code: "386", trunk: "0" },
+  SK: { code: "421", trunk: "0" },
+  TH: { code: "66", trunk: "0" },
+  TN: { code: "216" },
+  TR: { code: "90", trunk: "0" },
+  TW: { code: "886", trunk: "0" },
+  UA: { code: "380", trunk: "0" },
+  US: { code: "1", trunk: "1" },
+  VN: { code: "84", trunk: "0" },
+  ZA: { code: "27", trunk: "0" },
+};
+
+// E.164 numbers have at most 15 digits, and no real number has fewer than 8
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+// Format `phoneNumber` in E.164, or return undefined when its country is
+// unknown or the result cannot be a valid number
+export function toE164(
+  phoneNumber: string,
+  country?: string
+): string | undefined {
+  const trimmed = phoneNumber.trim();
+  const digits = trimmed.replace(/\D/g, "");
+
+  if (trimmed.startsWith("+")) {
+    return E164.test(`+${digits}`) ? `+${digits}` : undefined;
+  }
+  if (digits.startsWith("00")) {
+    const international = `+${digits.slice(2)}`;
+    return E164.test(international) ? international : undefined;
+  }
+
+  const rules = country ? COUNTRIES[country.toUpperCase()] : undefined;
+  if (!rules) {
+    return undefined;
+  }
+  const national =
+    rules.trunk && digits.startsWith(rules.trunk)
+      ? digits.slice(rules.trunk.length)
+      : digits;
+  const international = `+${rules.code}${national}`;
+  return E164.test(international) ? international : undefined;
+}
@@ -0,0 +1,178 @@
+// MCP prompts for the outreach workflows the team runs every week. Each one
+// expands to instructions that name the tools to call, so every agent works
+// through the same steps and reports results in the same shape.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+const DEFAULT_LANGUAGE = "English";
+const DEFAULT_TONE = "professional and friendly";
+
+function userPrompt(description: string, lines: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: lines.join("\n") },
+      },
+    ],
+  };
+}
+
+function dateRange(start_date?: string, end_date?: string): string {
+  if (start_date && end_date) return `from ${start_date} to ${end_date}`;
+  if (start_date) return `since ${start_date}`;
+  if (end_date) return `until ${end_date}`;
+  return "over the whole campaign";
+}
+
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "weekly-campaign-review",
+    {
+      title: "Weekly campaign review",
+      description: "Review running campaigns and flag the underperforming ones",
+      argsSchema: {
+        campaign_id: z
+          .string()
+          .optional()
+          .describe("Review only this email campaign (Optional)"),
+        start_date: z
+          .string()
+          .optional()
+          .describe("Start of the period to review, ISO format (Optional)"),
+        end_date: z
+          .string()
+          .optional()
+          .describe("End of the period to review, ISO format (Optional)"),
+        language: z
+          .string()
+          .optional()
+          .describe("Language of the report (Optional, default English)"),
+      },
+    },
+    ({ campaign_id, start_date, end_date, language }) => {
+      const period = dateRange(start_date, end_date);
+      const statsArgs = [
+        start_date && `start_date "${start_date}"`,
+        end_date && `end_date "${end_date}"`,
+      ]
+        .filter(Boolean)
+        .join(" and ");
+
+      return userPrompt("Weekly review of the Emelia campaigns", [
+        `Review the performance of our Emelia campaigns ${period}.`,
+        "",
+        "1. " +
+          (campaign_id
+            ? `Review only the email campaign ${campaign_id}.`
+            : 'List the running campaigns with `get-campaigns` (status "RUNNING") and `get-linkedin-campaigns` (status "RUNNING").'),
+        `2. For each email campaign, call \`get-campaign-stats\` with \`detailed\` set to true${
+          statsArgs ? ` and ${statsArgs}` : ""
+        }. For each LinkedIn campaign, call \`get-linkedin-campaign-stats\` the same way.`,
+        "3. Compute the open, reply, bounce and unsubscribe rates from the global and step statistics.",
+        "4. Flag a campaign as underperforming when its open rate is below 40%, its reply rate below 2%, its bounce rate above 5% or its unsubscribe rate above 1%, or when a step performs much worse than the previous one.",
+        "",
+        `Write the report in ${language || DEFAULT_LANGUAGE}:`,
+        "- a table with one row per campaign: name, status, sent, open rate, reply rate, bounce rate and a flag",
+        "- for each flagged campaign, the likely cause and one concrete fix (subject line, sending volume, targeting, sender warmup)",
+        "",
+        "Only read data: do not change any campaign.",
+      ]);
+    }
+  );
+
+  server.registerPrompt(
+    "triage-replies",
+    {
+      title: "Triage new replies",
+      description: "Sort the new replies of a campaign and draft responses",
+      argsSchema: {
+        campaign_id: z.string().describe("Email campaign ID"),
+        start_date: z
+          .string()
+          .optional()
+          .describe(
+            "Only triage replies since this date, ISO format (Optional)"
+          ),
+        tone: z
+          .string()
+          .optional()
+          .describe("Tone of the drafted responses (Optional)"),
+        language: z
+          .string()
+          .optional()
+          .describe(
+            "Language of the drafted responses (Optional, default English)"
+          ),
+      },
+    },
+    ({ campaign_id, start_date, tone, language }) =>
+      userPrompt(`Triage of the replies to campaign ${campaign_id}`, [
+        `Triage the replies to the Emelia email campaign ${campaign_id}${
+          start_date ? ` received since ${start_date}` : ""
+        }.`,
+        "",
+        '1. Fetch every contact who replied with `get-campaign-contacts` (event "REPLIED"), going through all the pages.',
+        "2. Sort each reply into one of: interested, not now, not interested, wrong person, out of office, unsubscribe request.",
+        `3. Draft a response for the interested, not now and wrong person replies, in ${
+          language || DEFAULT_LANGUAGE
+        } with a ${
+          tone || DEFAULT_TONE
+        } tone. Keep each draft under 120 words and end with one clear next step.`,
+        "4. For unsubscribe requests, propose adding the address with `add-to-blacklist`.",
+        "",
+        "Present the triage as a table (contact, category, summary) followed by the drafts.",
+        "",
+        "Do not send anything yet. Once I approve a draft, send it with `reply-to-email`, using the campaign's sender address or provider ID (see `get-email-providers`) and the original message ID when known so the reply stays in the same thread.",
+      ])
+  );
+
+  server.registerPrompt(
+    "new-email-sequence",
+    {
+      title: "New cold email sequence",
+      description: "Prepare a cold email sequence from a brief",
+      argsSchema: {
+        brief: z
+          .string()
+          .describe("Offer, target audience and goal of the sequence"),
+        campaign_name: z
+          .string()
+          .optional()
+          .describe("Name of the campaign to create (Optional)"),
+        steps: z
+          .string()
+          .optional()
+          .describe("Number of emails in the sequence (Optional, default 3)"),
+        tone: z.string().optional().describe("Tone of the emails (Optional)"),
+        language: z
+          .string()
+          .optional()
+          .describe("Language of the emails (Optional, default English)"),
+      },
+    },
+    ({ brief, campaign_name, steps, tone, language }) =>
+      userPrompt("New cold email sequence", [
+        "Prepare a new cold email sequence for Emelia from this brief:",
+        "",
+        brief,
+        "",
+        `1. Write ${steps || "3"} emails in ${
+          language || DEFAULT_LANGUAGE
+        } with a ${
+          tone || DEFAULT_TONE
+        } tone: a first email and follow-ups, each with its delay in days after the previous one.`,
+        "2. Give every email a subject line under 50 characters (follow-ups may reuse the thread with an empty subject) and a body under 120 words.",
+        "3. Personalize with the contact variables {{firstName}}, {{lastName}} and {{company}}, and suggest an A/B variant of the first subject line.",
+        "",
+        "Present the sequence as a numbered list (delay, subject, body).",
+        "",
+        `Once I approve it, create the campaign with \`create-email-campaign\`${
+          campaign_name ? ` named "${campaign_name}"` : ""
+        }, add each email to it with \`add-campaign-step\` and the subject variant with \`add-step-version\`, then offer to send each step to me with \`send-test-email\`.`,
+      ])
+  );
+}
@@ -0,0 +1,232 @@
+// Campaigns, their contacts and email providers as MCP resources, so clients
+// can attach them as context without calling tools. Each resource is the JSON
+// returned by the Emelia API, e.g. a campaign's steps, schedule and recipients.
+
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ListResourcesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  AUTH_REQUIRED_MESSAGE,
+  EmeliaApiResponse,
+  EmeliaRequestContext,
+  formatEmeliaError,
+  getEmeliaApiKey,
+  makeEmeliaRequest,
+} from "./helpers.js";
+
+const CONTACTS_PAGE_SIZE = 100;
+// Reading stops there, so a huge campaign does not flood the client's context
+const MAX_RESOURCE_CONTACTS = 1000;
+
+export function registerResources(server: McpServer, apiUrl: string): void {
+  async function request(
+    context: EmeliaRequestContext,
+    action: string,
+    url: string
+  ): Promise<EmeliaApiResponse> {
+    if (!getEmeliaApiKey(context)) {
+      throw new Error(AUTH_REQUIRED_MESSAGE);
+    }
+
+    const result = await makeEmeliaRequest<EmeliaApiResponse>(context, url);
+    if (!result.ok) {
+      throw new Error(formatEmeliaError(action, result.error));
+    }
+    return result.data;
+  }
+
+  // Listing runs whenever a client connects, so it stays empty until authenticated
+  async function list(
+    context: EmeliaRequestContext,
+    action: string,
+    url: string,
+    key: string,
+    toResource: (
+      item: Record<string, any>
+    ) => ListResourcesResult["resources"][0]
+  ): Promise<ListResourcesResult> {
+    if (!getEmeliaApiKey(context)) {
+      return { resources: [] };
+    }
+
+    const response = await request(context, action, url);
+    const items = (response[key] as Array<Record<string, any>>) || [];
+    return { resources: items.map(toResource) };
+  }
+
+  function json(uri: URL, data: unknown): ReadResourceResult {
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  server.registerResource(
+    "email-campaign",
+    new ResourceTemplate("emelia://campaigns/{id}", {
+      list: (extra) =>
+        list(
+          extra,
+          "Failed to list campaigns",
+          `${apiUrl}/emails/campaigns`,
+          "campaigns",
+          (campaign) => ({
+            uri: `emelia://campaigns/${campaign._id}`,
+            name: campaign.name,
+            description: `Email campaign (${campaign.status})`,
+            mimeType: "application/json",
+          })
+        ),
+    }),
+    {
+      title: "Email campaign",
+      description:
+        "Full configuration of an email campaign: steps, schedule, sender and recipients",
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) => {
+      const response = await request(
+        extra,
+        "Failed to read campaign",
+        `${apiUrl}/emails/campaigns/${id}`
+      );
+      return json(uri, response.campaign);
+    }
+  );
+
+  server.registerResource(
+    "email-campaign-contacts",
+    new ResourceTemplate("emelia://campaigns/{id}/contacts", {
+      list: (extra) =>
+        list(
+          extra,
+          "Failed to list campaigns",
+          `${apiUrl}/emails/campaigns`,
+          "campaigns",
+          (campaign) => ({
+            uri: `emelia://campaigns/${campaign._id}/contacts`,
+            name: `${campaign.name} contacts`,
+            description: `Contacts of the email campaign ${campaign.name}`,
+            mimeType: "application/json",
+          })
+        ),
+    }),
+    {
+      title: "Email campaign contacts",
+      description: `Contacts of an email campaign with their status, up to ${MAX_RESOURCE_CONTACTS}`,
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) => {
+      const contacts: Array<Record<string, any>> = [];
+      let total = 0;
+
+      for (let page = 1; contacts.length < MAX_RESOURCE_CONTACTS; page++) {
+        const response = await request(
+          extra,
+          "Failed to read campaign contacts",
+          `${apiUrl}/emails/campaign/contacts?id=${id}&page=${page}&perPage=${CONTACTS_PAGE_SIZE}`
+        );
+        const pageContacts =
+          (response.contacts as Array<Record<string, any>>) || [];
+        contacts.push(...pageContacts);
+        total = (response.total as number) || contacts.length;
+
+        if (
+          pageContacts.length < CONTACTS_PAGE_SIZE ||
+          contacts.length >= total
+        ) {
+          break;
+        }
+      }
+
+      return json(uri, {
+        campaignId: id,
+        total,
+        truncated: contacts.length < total,
+        contacts: contacts.slice(0, MAX_RESOURCE_CONTACTS),
+      });
+    }
+  );
+
+  server.registerResource(
+    "linkedin-campaign",
+    new ResourceTemplate("emelia://linkedin-campaigns/{id}", {
+      list: (extra) =>
+        list(
+          extra,
+          "Failed to list LinkedIn campaigns",
+          `${apiUrl}/linkedin/campaigns`,
+          "campaigns",
+          (campaign) => ({
+            uri: `emelia://linkedin-campaigns/${campaign._id}`,
+            name: campaign.name,
+            description: `LinkedIn campaign (${campaign.status})`,
+            mimeType: "application/json",
+          })
+        ),
+    }),
+    {
+      title: "LinkedIn campaign",
+      description:
+        "Full configuration of a LinkedIn campaign: steps, schedule, account and recipients",
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) => {
+      const response = await request(
+        extra,
+        "Failed to read LinkedIn campaign",
+        `${apiUrl}/linkedin/campaigns/${id}`
+      );
+      return json(uri, response.campaign);
+    }
+  );
+
+  server.registerResource(
+    "email-provider",
+    new ResourceTemplate("emelia://email-providers/{id}", {
+      list: (extra) =>
+        list(
+          extra,
+          "Failed to list email providers",
+          `${apiUrl}/email-providers`,
+          "providers",
+          (provider) => ({
+            uri: `emelia://email-providers/${provider._id}`,
+            name: `${provider.senderName} <${provider.senderEmail}>`,
+            description: `${provider.emailType} email provider`,
+            mimeType: "application/json",
+          })
+        ),
+    }),
+    {
+      title: "Email provider",
+      description: "Sender identity and connection status of an email provider",
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) => {
+      // The API only lists providers, so pick the requested one from the list
+      const response = await request(
+        extra,
+        "Failed to read email provider",
+        `${apiUrl}/email-providers`
+      );
+      const providers =
+        (response.providers as Array<Record<string, any>>) || [];
+      const provider = providers.find((p) => p._id === id);
+      if (!provider) {
+        throw new Error(`Email provider ${id} not found`);
+      }
+      return json(uri, provider);
+    }
+  );
+}
@@ -0,0 +1,283 @@
+// Zod schemas for the structured output of the tools. They mirror the JSON the
+// Emelia API returns for the interfaces of ./types/models.ts: dates and
+// references arrive as strings, and records are passthrough so fields the API
+// adds later reach the client instead of failing validation. The SDK rejects
+// a tool result that does not match its schema, so fields a record may lack
+// accept both a missing value and null.
+
+import { z } from "zod";
+
+// CampaignModel, as listed by the campaigns endpoints
+export const campaignSchema = z
+  .object({
+    _id: z.string(),
+    name: z.string().nullish(),
+    status: z.string().nullish(),
+    createdAt: z.string().nullish(),
+  })
+  .passthrough();
+
+// LinkedinCampaignModel, with the LinkedIn account as its ID
+export const linkedinCampaignSchema = campaignSchema.extend({
+  account: z.string().nullish(),
+});
+
+// ContactModel
+export const contactSchema = z
+  .object({
+    email: z.string().nullish(),
+    firstName: z.string().nullish(),
+    lastName: z.string().nullish(),
+    phoneNumber: z.string().nullish(),
+    status: z.string().nullish(),
+    sentiment: z.string().nullish(),
+    interested: z.string().nullish(),
+    mailsSent: z.number().nullish(),
+    lastContacted: z.string().nullish(),
+    lastReplied: z.string().nullish(),
+    lastOpen: z.string().nullish(),
+    custom: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+// LKContactModel
+export const linkedinContactSchema = z
+  .object({
+    url: z.string(),
+    id: z.string().nullish(),
+    handle: z.string().nullish(),
+    firstName: z.string().nullish(),
+    lastName: z.string().nullish(),
+    status: z.string().nullish(),
+    sentiment: z.string().nullish(),
+    lastContacted: z.string().nullish(),
+    lastReplied: z.string().nullish(),
+    custom: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+// ContactListModel and LKContactListModel, with their contacts counted
+export const contactListSchema = z
+  .object({
+    _id: z.string(),
+    name: z.string().nullish(),
+    contactsCount: z.number().nullish(),
+  })
+  .passthrough();
+
+// Contact of an advanced campaign, reachable by email, LinkedIn or both
+export const advancedContactSchema = contactSchema.extend({
+  id: z.string(),
+  email: z.string().nullish(),
+  linkedinUrlProfile: z.string().nullish(),
+});
+
+// ActivityModel and LKActivityModel, with the contact as its email or URL
+export const activitySchema = z
+  .object({
+    event: z.string(),
+    contact: z.string().nullish(),
+    identity: z.string().nullish(),
+    stepId: z.string().nullish(),
+    versionId: z.string().nullish(),
+    date: z.string().nullish(),
+  })
+  .passthrough();
+
+// A step of CampaignModel, with its A/B versions
+export const emailStepSchema = z
+  .object({
+    delay: z
+      .object({ amount: z.number(), unit: z.string() })
+      .passthrough()
+      .nullish(),
+    versions: z.array(
+      z
+        .object({
+          subject: z.string().nullish(),
+          message: z.string(),
+          disabled: z.boolean().nullish(),
+          rawHtml: z.boolean().nullish(),
+          attachments: z
+            .array(z.object({ name: z.string(), url: z.string() }))
+            .nullish(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+// A step of LinkedinCampaignModel, with its A/B versions
+export const linkedinStepSchema = z
+  .object({
+    stepType: z.string(),
+    delay: z.object({ amount: z.number(), unit: z.string() }).passthrough(),
+    versions: z.array(
+      z
+        .object({ message: z.string(), disabled: z.boolean().nullish() })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+// The sending schedule of CampaignModel
+export const emailScheduleSchema = z
+  .object({
+    dailyContact: z.number(),
+    dailyLimit: z.number(),
+    minInterval: z.number(),
+    maxInterval: z.number(),
+    timeZone: z.string(),
+    days: z.array(z.number()),
+    start: z.string(),
+    end: z.string(),
+    trackLinks: z.boolean().nullish(),
+    trackOpens: z.boolean().nullish(),
+    blacklistUnsub: z.boolean().nullish(),
+    bcc: z.string().nullish(),
+    eventToStopMails: z.array(z.string()).nullish(),
+  })
+  .passthrough();
+
+// The schedule and audience exclusions of LinkedinCampaignModel
+export const linkedinScheduleSchema = z
+  .object({
+    dailyContact: z.number(),
+    timeZone: z.string(),
+    days: z.array(z.number()),
+    start: z.string(),
+    end: z.string(),
+    excludeAlreadyMessaged: z.boolean().nullish(),
+    exclude1stConn: z.boolean().nullish(),
+    excludeNoPictures: z.boolean().nullish(),
+  })
+  .passthrough();
+
+// VersionStat, with every count optional as the API leaves out empty ones
+export const versionStatSchema = z
+  .object({
+    sent: z.number().nullish(),
+    to_send: z.number().nullish(),
+    delivered: z.number().nullish(),
+    first_open: z.number().nullish(),
+    opened: z.number().nullish(),
+    clicked: z.number().nullish(),
+    unique_clicked: z.number().nullish(),
+    replied: z.number().nullish(),
+    bounced: z.number().nullish(),
+    unsubscribed: z.number().nullish(),
+    first_open_percent: z.number().nullish(),
+    clicked_percent: z.number().nullish(),
+    replied_percent: z.number().nullish(),
+    bounced_percent: z.number().nullish(),
+    unsubscribed_percent: z.number().nullish(),
+  })
+  .passthrough();
+
+// GlobalStat
+export const globalStatSchema = versionStatSchema
+  .omit({ to_send: true, delivered: true })
+  .extend({ progress_percent: z.number().nullish() });
+
+// EmailProviderModel, without its credentials
+export const emailProviderSchema = z
+  .object({
+    _id: z.string(),
+    senderName: z.string(),
+    senderEmail: z.string(),
+    emailType: z.string(),
+    disabled: z.boolean().nullish(),
+    disconnected: z.boolean().nullish(),
+  })
+  .passthrough();
+
+// LinkedinAuthModel, without its cookies, browser settings and proxy
+// credentials. The SDK only checks structuredContent against this schema and
+// sends the object as the tool built it, so publicAccount() in campaigns.ts is
+// what keeps the credentials out.
+export const linkedinAccountSchema = z.object({
+  _id: z.string(),
+  name: z.string().nullish(),
+  status: z.string(),
+  disabled: z.boolean().nullish(),
+  hasAdvanced: z.boolean().nullish(),
+  metadata: z
+    .object({
+      id: z.string().nullish(),
+      handle: z.string().nullish(),
+      fullName: z.string().nullish(),
+      picture: z.string().nullish(),
+      hasPremium: z.boolean().nullish(),
+    })
+    .nullish(),
+  proxy: z.object({ host: z.string(), port: z.number() }).nullish(),
+});
+
+// WarmupModel, with the email address of its provider
+export const warmupSchema = z
+  .object({
+    provider: z.string().nullish(),
+    email: z.string().nullish(),
+    running: z.boolean(),
+    startDate: z.string().nullish(),
+    emailsSent: z.number().nullish(),
+    emailsReceived: z.number().nullish(),
+    spamCount: z.number().nullish(),
+    conversationsCount: z.number().nullish(),
+    score: z.number().nullish(),
+    disabledReason: z.string().nullish(),
+  })
+  .passthrough();
+
+const jobStatusSchema = z.enum(["running", "done", "error"]);
+
+// UniqueEmailVerifierModel
+export const emailVerificationSchema = z
+  .object({
+    email: z.string().nullish(),
+    qualification: z.string().nullish(),
+    status: jobStatusSchema,
+    date: z.string().nullish(),
+  })
+  .passthrough();
+
+// UniqueEmailFinderModel
+export const emailFinderSchema = z
+  .object({
+    fullname: z.string().nullish(),
+    companyName: z.string().nullish(),
+    companyWebsite: z.string().nullish(),
+    email: z.string().nullish(),
+    qualification: z.string().nullish(),
+    error: z.string().nullish(),
+    status: jobStatusSchema,
+    date: z.string().nullish(),
+  })
+  .passthrough();
+
+// UniquePhoneFinderModel
+export const phoneFinderSchema = z
+  .object({
+    linkedinUrl: z.string().nullish(),
+    phoneNumber: z.string().nullish(),
+    country: z.string().nullish(),
+    qualification: z.string().nullish(),
+    status: jobStatusSchema,
+    date: z.string().nullish(),
+  })
+  .passthrough();
+
+// Output shapes shared by several tools
+
+// ActivitiesCountModel: one array per step, holding one VersionStat per
+// version of the step
+export const campaignStatsOutput = {
+  global: globalStatSchema.optional(),
+  steps: z.array(z.array(versionStatSchema)),
+};
+
+export const pageOutput = {
+  page: z.number(),
+  perPage: z.number(),
+  total: z.number(),
+};
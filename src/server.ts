@@ -0,0 +1,2809 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  authRequiredResult,
+  CampaignsResponse,
+  clearEmeliaApiKey,
+  EmeliaApiResponse,
+  emeliaErrorResult,
+  errorResult,
+  formatCampaign,
+  formatEmailFinder,
+  formatEmailVerification,
+  formatPhoneFinder,
+  getEmeliaApiKey,
+  makeEmeliaRequest,
+  setEmeliaApiKey,
+  waitForEmeliaJob,
+} from "./helpers.js";
+import { registerBulkTools } from "./bulk.js";
+import { registerCampaignTools } from "./campaigns.js";
+import { getProfile, getProfileNames } from "./config.js";
+import { registerListTools } from "./lists.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import {
+  activitySchema,
+  advancedContactSchema,
+  campaignSchema,
+  campaignStatsOutput,
+  contactSchema,
+  emailFinderSchema,
+  emailProviderSchema,
+  emailVerificationSchema,
+  linkedinCampaignSchema,
+  linkedinContactSchema,
+  pageOutput,
+  phoneFinderSchema,
+  warmupSchema,
+} from "./schemas.js";
+
+export const DEFAULT_EMELIA_REST_API = "https://api.emelia.io";
+
+export interface EmeliaServerOptions {
+  /** Base URL of the Emelia REST API, e.g. a staging or mock server */
+  apiUrl?: string;
+  /**
+   * Register the tools using the machine the server runs on: reading and
+   * writing files at the paths the caller names, and switching between the
+   * profiles of the local config file. Only for stdio, where the caller owns
+   * that machine; HTTP clients are remote.
+   */
+  local?: boolean;
+}
+
+// Arguments of the tools starting an enrichment job, to get its result directly
+const jobWaitInput = {
+  wait: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Wait for the job to finish and return its result instead of the job ID (Optional)"
+    ),
+  timeout_seconds: z
+    .number()
+    .min(1)
+    .max(300)
+    .default(60)
+    .describe("Maximum time to wait for the job, in seconds (Optional)"),
+};
+
+// Statistics of each step, split by version when a step has several
+function formatStepStats(steps: Array<Array<Record<string, any>>>): string {
+  if (steps.length === 0) {
+    return "";
+  }
+
+  let text = "\nStep Stats:\n";
+  steps.forEach((versions, index) => {
+    versions.forEach((version, v) => {
+      text += `\nStep ${index + 1}${
+        versions.length > 1 ? `, Version ${String.fromCharCode(65 + v)}` : ""
+      }:\n`;
+      Object.entries(version).forEach(([key, value]) => {
+        if (typeof value !== "object") {
+          text += `- ${key}: ${value}\n`;
+        }
+      });
+    });
+  });
+  return text;
+}
+
+// Report the wait for a job as MCP progress, when the client asked for it
+function jobProgress(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  jobId: string,
+  timeoutMs: number
+) {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return (elapsedMs: number, checks: number) =>
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: elapsedMs,
+        total: timeoutMs,
+        message: `Job ${jobId} still running after ${checks} status check${
+          checks > 1 ? "s" : ""
+        }`,
+      },
+    });
+}
+
+// Create a server instance with every Emelia tool registered. Each transport
+// connection needs its own instance, so HTTP sessions call this once per session.
+export function createServer(options: EmeliaServerOptions = {}): McpServer {
+  const EMELIA_REST_API = (options.apiUrl || DEFAULT_EMELIA_REST_API).replace(
+    /\/+$/,
+    ""
+  );
+
+  const server = new McpServer({
+    name: "emelia",
+    version: "1.0.0",
+    capabilities: {
+      resources: {},
+      tools: {},
+    },
+  });
+
+  // Authentication tool
+  server.registerTool(
+    "authenticate",
+    {
+      description: "Authenticate with Emelia API key",
+      inputSchema: {
+        api_key: z.string().describe("Your Emelia API key"),
+      },
+      outputSchema: { authenticated: z.boolean() },
+    },
+    async ({ api_key }, extra) => {
+      setEmeliaApiKey(extra, api_key);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Successfully authenticated with Emelia. Your API key has been securely stored for this session.",
+          },
+        ],
+        structuredContent: { authenticated: true },
+      };
+    }
+  );
+
+  // Logout tool
+  server.registerTool(
+    "logout",
+    {
+      description: "Clear stored Emelia API key",
+      inputSchema: {},
+      outputSchema: { authenticated: z.boolean() },
+    },
+    async (_args, extra) => {
+      clearEmeliaApiKey(extra);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Successfully logged out. Your API key has been cleared.",
+          },
+        ],
+        structuredContent: { authenticated: false },
+      };
+    }
+  );
+
+  // Switch between the profiles of the config file, which only the stdio
+  // server reads
+  if (options.local) {
+    server.registerTool(
+      "switch-profile",
+      {
+        description:
+          "Switch to another Emelia workspace profile from the local config file",
+        inputSchema: {
+          profile: z.string().describe("Name of the profile to switch to"),
+        },
+        outputSchema: { profile: z.string() },
+      },
+      async ({ profile }, extra) => {
+        const names = getProfileNames();
+        if (names.length === 0) {
+          return errorResult(
+            "No profiles configured. Add profiles to ~/.config/emelia-mcp/config.json to use this tool."
+          );
+        }
+
+        const selected = getProfile(profile);
+        if (!selected) {
+          return errorResult(
+            `Profile "${profile}" not found. Available profiles: ${names.join(
+              ", "
+            )}`
+          );
+        }
+
+        setEmeliaApiKey(extra, selected.apiKey);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Switched to profile "${profile}".`,
+            },
+          ],
+          structuredContent: { profile },
+        };
+      }
+    );
+  }
+
+  // Register emelia tools
+  server.registerTool(
+    "get-campaigns",
+    {
+      description: "Get Emelia campaigns list",
+      inputSchema: {
+        status: z
+          .string()
+          .optional()
+          .describe("Status filter of the campaigns (Optional)"),
+      },
+      outputSchema: { campaigns: z.array(campaignSchema) },
+    },
+    async ({ status }, extra) => {
+      // Check if user is authenticated
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let queryUrl = `${EMELIA_REST_API}/emails/campaigns`;
+
+      if (status) {
+        queryUrl += `?status=${status}`;
+      }
+      const result = await makeEmeliaRequest<CampaignsResponse>(
+        extra,
+        queryUrl
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve campaigns data",
+          result.error
+        );
+      }
+
+      const campaignsData = result.data;
+
+      const campaigns = campaignsData.campaigns || [];
+      if (campaigns.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No active campaigns`,
+            },
+          ],
+          structuredContent: { campaigns: [] },
+        };
+      }
+
+      const formattedCampaigns = campaigns.map(formatCampaign);
+      const campaignsText = `Campaigns list:\n\n${formattedCampaigns.join(
+        "\n"
+      )}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: campaignsText,
+          },
+        ],
+        structuredContent: { campaigns },
+      };
+    }
+  );
+
+  // Create email campaign
+  server.registerTool(
+    "create-email-campaign",
+    {
+      description: "Create a new email campaign",
+      inputSchema: {
+        name: z.string().describe("Name of the campaign"),
+      },
+      outputSchema: { name: z.string(), campaignId: z.string().optional() },
+    },
+    async ({ name }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/campaigns`,
+        {
+          method: "POST",
+          body: JSON.stringify({ name }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to create campaign", result.error);
+      }
+
+      const response = result.data;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Campaign "${name}" created successfully!`,
+          },
+        ],
+        structuredContent: { name, campaignId: response.campaignId },
+      };
+    }
+  );
+
+  // Add contact to a campaign
+  server.registerTool(
+    "add-contact-to-campaign",
+    {
+      description: "Add a contact to an email campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        email: z.string().email().describe("Contact email address"),
+        first_name: z
+          .string()
+          .optional()
+          .describe("Contact first name (Optional)"),
+        last_name: z
+          .string()
+          .optional()
+          .describe("Contact last name (Optional)"),
+        custom_fields: z
+          .record(z.string())
+          .optional()
+          .describe("Custom fields as key-value pairs (Optional)"),
+      },
+      outputSchema: { campaignId: z.string(), email: z.string() },
+    },
+    async (
+      { campaign_id, email, first_name, last_name, custom_fields },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const contact = {
+        email,
+        firstName: first_name,
+        lastName: last_name,
+        ...custom_fields,
+      };
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/campaign/contacts`,
+        {
+          method: "POST",
+          body: JSON.stringify({ id: campaign_id, contact }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to add contact to campaign",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact ${email} added to campaign successfully!`,
+          },
+        ],
+        structuredContent: { campaignId: campaign_id, email },
+      };
+    }
+  );
+
+  // Get campaign contacts
+  server.registerTool(
+    "get-campaign-contacts",
+    {
+      description: "Get contacts from an email campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        page: z.number().default(1).describe("Page number"),
+        per_page: z.number().default(10).describe("Contacts per page"),
+        event: z
+          .string()
+          .optional()
+          .describe(
+            "Filter by event type (Optional): REPLIED, OPENED, CLICKED, BOUNCED, BLACKLISTED, UNSUBSCRIBED"
+          ),
+        query: z.string().optional().describe("Search query (Optional)"),
+      },
+      outputSchema: { contacts: z.array(contactSchema), ...pageOutput },
+    },
+    async ({ campaign_id, page, per_page, event, query }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/emails/campaign/contacts?id=${campaign_id}&page=${page}&perPage=${per_page}`;
+
+      if (event) {
+        apiUrl += `&event=${event}`;
+      }
+
+      if (query) {
+        apiUrl += `&query=${encodeURIComponent(query)}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve campaign contacts",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const contacts =
+        (response.contacts as Array<{
+          email: string;
+          firstName?: string;
+          lastName?: string;
+          status?: string;
+        }>) || [];
+      if (contacts.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No contacts found for this campaign",
+            },
+          ],
+          structuredContent: {
+            contacts: [],
+            page,
+            perPage: per_page,
+            total: 0,
+          },
+        };
+      }
+
+      const contactsText = contacts
+        .map((contact) => {
+          return `Email: ${contact.email}${
+            contact.firstName
+              ? `, Name: ${contact.firstName} ${contact.lastName || ""}`
+              : ""
+          }${contact.status ? `, Status: ${contact.status}` : ""}`;
+        })
+        .join("\n");
+
+      const total = (response.total as number) || contacts.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Campaign Contacts (Page ${page} of ${Math.ceil(
+              total / per_page
+            )}, Total: ${total}):\n\n${contactsText}`,
+          },
+        ],
+        structuredContent: { contacts, page, perPage: per_page, total },
+      };
+    }
+  );
+
+  // Send test email
+  server.registerTool(
+    "send-test-email",
+    {
+      description: "Send a test email for a campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        email: z.string().email().describe("Email to send the test to"),
+        step: z
+          .number()
+          .min(0)
+          .describe("Step index (0 = first step, 1 = second step, etc.)"),
+        version: z
+          .number()
+          .min(0)
+          .optional()
+          .describe(
+            "Version index for A/B testing (0 = A version, 1 = B version) (Optional)"
+          ),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        email: z.string(),
+        step: z.number(),
+        version: z.number().optional(),
+      },
+    },
+    async ({ campaign_id, email, step, version }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const payload: {
+        campaignId: string;
+        email: string;
+        step: number;
+        version?: number;
+      } = {
+        campaignId: campaign_id,
+        email,
+        step,
+      };
+
+      if (version !== undefined) {
+        payload.version = version;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/test`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to send test email", result.error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Test email sent successfully to ${email}!`,
+          },
+        ],
+        structuredContent: { campaignId: campaign_id, email, step, version },
+      };
+    }
+  );
+
+  // Get campaign statistics
+  server.registerTool(
+    "get-campaign-stats",
+    {
+      description: "Get statistics for an email campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        detailed: z
+          .boolean()
+          .default(false)
+          .describe("Include detailed statistics"),
+        start_date: z
+          .string()
+          .optional()
+          .describe("Start date for filtering (ISO format) (Optional)"),
+        end_date: z
+          .string()
+          .optional()
+          .describe("End date for filtering (ISO format) (Optional)"),
+        provider_id: z
+          .string()
+          .optional()
+          .describe("Filter by email provider ID (Optional)"),
+      },
+      outputSchema: campaignStatsOutput,
+    },
+    async (
+      { campaign_id, detailed, start_date, end_date, provider_id },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/stats?campaignId=${campaign_id}`;
+
+      if (detailed) {
+        apiUrl += `&detailed=true`;
+      }
+
+      if (start_date) {
+        apiUrl += `&start=${encodeURIComponent(start_date)}`;
+      }
+
+      if (end_date) {
+        apiUrl += `&end=${encodeURIComponent(end_date)}`;
+      }
+
+      if (provider_id) {
+        apiUrl += `&providerId=${provider_id}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve campaign statistics",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      // Format the statistics for better readability
+      const globalStats = (response.global as Record<string, any>) || {};
+      let statsText = "Campaign Statistics:\n\n";
+
+      statsText += "Global Stats:\n";
+      Object.entries(globalStats).forEach(([key, value]) => {
+        statsText += `- ${key}: ${value}\n`;
+      });
+
+      const steps = (response.steps as Array<Array<Record<string, any>>>) || [];
+      statsText += formatStepStats(steps);
+
+      return {
+        content: [{ type: "text", text: statsText }],
+        structuredContent: { global: response.global, steps },
+      };
+    }
+  );
+
+  // Email verification tool
+  server.registerTool(
+    "verify-email",
+    {
+      description: "Verify if an email address is valid",
+      inputSchema: {
+        email: z.string().email().describe("Email address to verify"),
+        ...jobWaitInput,
+      },
+      outputSchema: {
+        email: z.string(),
+        jobId: z.string().optional(),
+        job: emailVerificationSchema.optional(),
+      },
+    },
+    async ({ email, wait, timeout_seconds }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/tools/verify/email`,
+        {
+          method: "POST",
+          body: JSON.stringify({ email }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to start email verification",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      if (wait) {
+        const timeoutMs = timeout_seconds * 1000;
+        const job = await waitForEmeliaJob(
+          extra,
+          `${EMELIA_REST_API}/tools/verify/email/${response.jobId}`,
+          timeoutMs,
+          jobProgress(extra, response.jobId, timeoutMs)
+        );
+        if (!job.ok) {
+          return emeliaErrorResult(
+            "Failed to retrieve verification status",
+            job.error
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                job.data.status === "running"
+                  ? `Email verification job ${response.jobId} for ${email} is still running after ${timeout_seconds} seconds.\nUse the check-email-verification tool with this job ID to get the results.`
+                  : formatEmailVerification(job.data),
+            },
+          ],
+          structuredContent: { email, jobId: response.jobId, job: job.data },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Email verification job started for ${email}. Job ID: ${response.jobId}\nUse the check-email-verification tool with this job ID to get the results.`,
+          },
+        ],
+        structuredContent: { email, jobId: response.jobId },
+      };
+    }
+  );
+
+  // Check email verification status
+  server.registerTool(
+    "check-email-verification",
+    {
+      description: "Check the status of an email verification job",
+      inputSchema: {
+        job_id: z.string().describe("Job ID from the verify-email tool"),
+      },
+      outputSchema: { job: emailVerificationSchema },
+    },
+    async ({ job_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/tools/verify/email/${job_id}`
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve verification status",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const data = response.data as Record<string, any> | undefined;
+      if (!data) {
+        return errorResult(
+          `Failed to retrieve verification status: Emelia returned no data for job ${job_id}`
+        );
+      }
+
+      const statusText = formatEmailVerification(data);
+
+      return {
+        content: [{ type: "text", text: statusText }],
+        structuredContent: { job: data },
+      };
+    }
+  );
+
+  // LinkedIn Campaign Operations
+  // Get LinkedIn campaigns
+  server.registerTool(
+    "get-linkedin-campaigns",
+    {
+      description: "Get LinkedIn campaigns list",
+      inputSchema: {
+        status: z
+          .string()
+          .optional()
+          .describe("Status filter of the campaigns (Optional)"),
+      },
+      outputSchema: { campaigns: z.array(linkedinCampaignSchema) },
+    },
+    async ({ status }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/linkedin/campaigns`;
+      if (status) {
+        apiUrl += `?status=${status}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve LinkedIn campaigns",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const campaigns =
+        (response.campaigns as Array<Record<string, any>>) || [];
+      if (campaigns.length === 0) {
+        return {
+          content: [{ type: "text", text: "No LinkedIn campaigns found" }],
+          structuredContent: { campaigns: [] },
+        };
+      }
+
+      const campaignsText = campaigns
+        .map((campaign) => {
+          return `Campaign ID: ${campaign._id || "-"}\nName: ${
+            campaign.name || "-"
+          }\nStatus: ${campaign.status || "-"}\nAccount: ${
+            campaign.account || "-"
+          }\n---`;
+        })
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `LinkedIn Campaigns:\n\n${campaignsText}`,
+          },
+        ],
+        structuredContent: { campaigns },
+      };
+    }
+  );
+
+  // Create LinkedIn campaign
+  server.registerTool(
+    "create-linkedin-campaign",
+    {
+      description: "Create a new LinkedIn campaign",
+      inputSchema: {
+        name: z.string().describe("Name of the campaign"),
+      },
+      outputSchema: { name: z.string(), campaignId: z.string().optional() },
+    },
+    async ({ name }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/linkedin/campaigns`,
+        {
+          method: "POST",
+          body: JSON.stringify({ name }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to create LinkedIn campaign",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `LinkedIn campaign "${name}" created successfully!`,
+          },
+        ],
+        structuredContent: { name, campaignId: response.campaignId },
+      };
+    }
+  );
+
+  // Add contact to LinkedIn campaign
+  server.registerTool(
+    "add-contact-to-linkedin-campaign",
+    {
+      description: "Add a contact to a LinkedIn campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        linkedin_url: z
+          .string()
+          .url()
+          .describe("LinkedIn profile URL of the contact"),
+        first_name: z
+          .string()
+          .optional()
+          .describe("Contact first name (Optional)"),
+        last_name: z
+          .string()
+          .optional()
+          .describe("Contact last name (Optional)"),
+        custom_fields: z
+          .record(z.string())
+          .optional()
+          .describe("Custom fields as key-value pairs (Optional)"),
+      },
+      outputSchema: { campaignId: z.string(), linkedinUrl: z.string() },
+    },
+    async (
+      { campaign_id, linkedin_url, first_name, last_name, custom_fields },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const contact = {
+        url: linkedin_url,
+        firstName: first_name,
+        lastName: last_name,
+        ...custom_fields,
+      };
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/linkedin/campaign/contacts`,
+        {
+          method: "POST",
+          body: JSON.stringify({ id: campaign_id, contact }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to add contact to LinkedIn campaign",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact with LinkedIn URL ${linkedin_url} added to campaign successfully!`,
+          },
+        ],
+        structuredContent: {
+          campaignId: campaign_id,
+          linkedinUrl: linkedin_url,
+        },
+      };
+    }
+  );
+
+  // Get LinkedIn campaign contacts
+  server.registerTool(
+    "get-linkedin-campaign-contacts",
+    {
+      description: "Get contacts from a LinkedIn campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        page: z.number().default(1).describe("Page number"),
+        per_page: z.number().default(10).describe("Contacts per page"),
+        event: z
+          .string()
+          .optional()
+          .describe(
+            "Filter by event type (Optional): VISITED, INVITED, ACCEPTED, REPLIED, LIKED, MESSAGE_SENT"
+          ),
+        query: z.string().optional().describe("Search query (Optional)"),
+      },
+      outputSchema: { contacts: z.array(linkedinContactSchema), ...pageOutput },
+    },
+    async ({ campaign_id, page, per_page, event, query }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/linkedin/campaign/contacts?id=${campaign_id}&page=${page}&perPage=${per_page}`;
+
+      if (event) {
+        apiUrl += `&event=${event}`;
+      }
+
+      if (query) {
+        apiUrl += `&query=${encodeURIComponent(query)}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve LinkedIn campaign contacts",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const contacts =
+        (response.contacts as Array<{
+          url: string;
+          firstName?: string;
+          lastName?: string;
+          status?: string;
+        }>) || [];
+      if (contacts.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No contacts found for this LinkedIn campaign",
+            },
+          ],
+          structuredContent: {
+            contacts: [],
+            page,
+            perPage: per_page,
+            total: 0,
+          },
+        };
+      }
+
+      const contactsText = contacts
+        .map((contact) => {
+          return `LinkedIn URL: ${contact.url}${
+            contact.firstName
+              ? `, Name: ${contact.firstName} ${contact.lastName || ""}`
+              : ""
+          }${contact.status ? `, Status: ${contact.status}` : ""}`;
+        })
+        .join("\n");
+
+      const total = (response.total as number) || contacts.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `LinkedIn Campaign Contacts (Page ${page} of ${Math.ceil(
+              total / per_page
+            )}, Total: ${total}):\n\n${contactsText}`,
+          },
+        ],
+        structuredContent: { contacts, page, perPage: per_page, total },
+      };
+    }
+  );
+
+  // Remove contact from LinkedIn campaign
+  server.registerTool(
+    "remove-contact-from-linkedin-campaign",
+    {
+      description: "Remove a contact from a LinkedIn campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        linkedin_url: z
+          .string()
+          .url()
+          .describe("LinkedIn URL of the contact to remove"),
+      },
+      outputSchema: { campaignId: z.string(), linkedinUrl: z.string() },
+    },
+    async ({ campaign_id, linkedin_url }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/linkedin/campaign/contacts`,
+        {
+          method: "DELETE",
+          body: JSON.stringify({ id: campaign_id, url: linkedin_url }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to remove contact from LinkedIn campaign",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact with LinkedIn URL ${linkedin_url} removed from campaign successfully!`,
+          },
+        ],
+        structuredContent: {
+          campaignId: campaign_id,
+          linkedinUrl: linkedin_url,
+        },
+      };
+    }
+  );
+
+  // Update LinkedIn contact custom field
+  server.registerTool(
+    "update-linkedin-contact-field",
+    {
+      description: "Update a custom field for a LinkedIn contact",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        linkedin_url: z.string().url().describe("LinkedIn URL of the contact"),
+        field_name: z.string().describe("Name of the custom field to update"),
+        field_value: z.string().describe("New value for the custom field"),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        linkedinUrl: z.string(),
+        fieldName: z.string(),
+        fieldValue: z.string(),
+      },
+    },
+    async ({ campaign_id, linkedin_url, field_name, field_value }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/linkedin/contacts`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({
+            campaignId: campaign_id,
+            url: linkedin_url,
+            fieldName: field_name,
+            fieldValue: field_value,
+          }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to update LinkedIn contact custom field",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Custom field "${field_name}" updated to "${field_value}" for contact with LinkedIn URL ${linkedin_url}`,
+          },
+        ],
+        structuredContent: {
+          campaignId: campaign_id,
+          linkedinUrl: linkedin_url,
+          fieldName: field_name,
+          fieldValue: field_value,
+        },
+      };
+    }
+  );
+
+  // Get LinkedIn campaign activities
+  server.registerTool(
+    "get-linkedin-campaign-activities",
+    {
+      description: "Get activities from a LinkedIn campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        contact_id: z
+          .string()
+          .optional()
+          .describe("Filter by contact ID (Optional)"),
+        type: z
+          .string()
+          .optional()
+          .describe(
+            "Filter by activity type (VISITED, INVITED, ACCEPTED, MESSAGE_SENT, REPLIED, RE_REPLY, FOLLOWED, LIKED) (Optional)"
+          ),
+        page: z.number().default(1).describe("Page number (Optional)"),
+        query: z.string().optional().describe("Search query (Optional)"),
+      },
+      outputSchema: { activities: z.array(activitySchema), page: z.number() },
+    },
+    async ({ campaign_id, contact_id, type, page, query }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/linkedin/campaigns/${campaign_id}/activities?page=${page}`;
+
+      if (contact_id) {
+        apiUrl += `&contactId=${contact_id}`;
+      }
+
+      if (type) {
+        apiUrl += `&type=${type}`;
+      }
+
+      if (query) {
+        apiUrl += `&query=${encodeURIComponent(query)}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve LinkedIn campaign activities",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const activities =
+        (response.activities as Array<Record<string, any>>) || [];
+      if (activities.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No activities found for this LinkedIn campaign",
+            },
+          ],
+          structuredContent: { activities: [], page },
+        };
+      }
+
+      const activitiesText = activities
+        .map((activity) => {
+          const date = activity.date
+            ? new Date(activity.date).toLocaleString()
+            : "Unknown date";
+          return `Event: ${activity.event || "Unknown"}\nContact: ${
+            activity.contact || "Unknown"
+          }\nDate: ${date}\n---`;
+        })
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `LinkedIn Campaign Activities:\n\n${activitiesText}`,
+          },
+        ],
+        structuredContent: { activities, page },
+      };
+    }
+  );
+
+  // Get LinkedIn campaign statistics
+  server.registerTool(
+    "get-linkedin-campaign-stats",
+    {
+      description: "Get statistics for a LinkedIn campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("LinkedIn campaign ID"),
+        detailed: z
+          .boolean()
+          .default(false)
+          .describe("Include detailed statistics"),
+        start_date: z
+          .string()
+          .optional()
+          .describe("Start date for filtering (ISO format) (Optional)"),
+        end_date: z
+          .string()
+          .optional()
+          .describe("End date for filtering (ISO format) (Optional)"),
+        account_id: z
+          .string()
+          .optional()
+          .describe("Filter by LinkedIn account ID (Optional)"),
+      },
+      outputSchema: campaignStatsOutput,
+    },
+    async (
+      { campaign_id, detailed, start_date, end_date, account_id },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/stats/linkedin?campaignId=${campaign_id}`;
+
+      if (detailed) {
+        apiUrl += `&detailed=true`;
+      }
+
+      if (start_date) {
+        apiUrl += `&start=${encodeURIComponent(start_date)}`;
+      }
+
+      if (end_date) {
+        apiUrl += `&end=${encodeURIComponent(end_date)}`;
+      }
+
+      if (account_id) {
+        apiUrl += `&accountId=${account_id}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve LinkedIn campaign statistics",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      // Format the statistics for better readability
+      const globalStats = (response.global as Record<string, any>) || {};
+      let statsText = "LinkedIn Campaign Statistics:\n\n";
+
+      statsText += "Global Stats:\n";
+      Object.entries(globalStats).forEach(([key, value]) => {
+        statsText += `- ${key}: ${value}\n`;
+      });
+
+      const steps = (response.steps as Array<Array<Record<string, any>>>) || [];
+      statsText += formatStepStats(steps);
+
+      return {
+        content: [{ type: "text", text: statsText }],
+        structuredContent: { global: response.global, steps },
+      };
+    }
+  );
+
+  // Advanced Campaign Operations
+  // Create advanced campaign
+  server.registerTool(
+    "create-advanced-campaign",
+    {
+      description: "Create a new advanced campaign",
+      inputSchema: {
+        name: z.string().describe("Name of the campaign"),
+      },
+      outputSchema: { name: z.string(), campaignId: z.string().optional() },
+    },
+    async ({ name }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/advanced/campaigns`,
+        {
+          method: "POST",
+          body: JSON.stringify({ name }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to create advanced campaign",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Advanced campaign "${name}" created successfully! Campaign ID: ${response.campaignId}`,
+          },
+        ],
+        structuredContent: { name, campaignId: response.campaignId },
+      };
+    }
+  );
+
+  // Get advanced campaigns
+  server.registerTool(
+    "get-advanced-campaigns",
+    {
+      description: "Get advanced campaigns list",
+      inputSchema: {},
+      outputSchema: { campaigns: z.array(campaignSchema) },
+    },
+    async (_args, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/advanced/campaigns`
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve advanced campaigns",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const campaigns =
+        (response.campaigns as Array<Record<string, any>>) || [];
+      if (campaigns.length === 0) {
+        return {
+          content: [{ type: "text", text: "No advanced campaigns found" }],
+          structuredContent: { campaigns: [] },
+        };
+      }
+
+      const campaignsText = campaigns
+        .map((campaign) => {
+          return `Campaign ID: ${campaign._id || "-"}\nName: ${
+            campaign.name || "-"
+          }\nStatus: ${campaign.status || "-"}\nCreated: ${
+            campaign.createdAt
+              ? new Date(campaign.createdAt).toLocaleString()
+              : "-"
+          }\n---`;
+        })
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Advanced Campaigns:\n\n${campaignsText}`,
+          },
+        ],
+        structuredContent: { campaigns },
+      };
+    }
+  );
+
+  // Add contact to advanced campaign
+  server.registerTool(
+    "add-contact-to-advanced-campaign",
+    {
+      description: "Add a contact to an advanced campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Advanced campaign ID"),
+        email: z
+          .string()
+          .email()
+          .optional()
+          .describe("Contact email address (Optional)"),
+        linkedin_url: z
+          .string()
+          .url()
+          .optional()
+          .describe("LinkedIn profile URL of the contact (Optional)"),
+        first_name: z
+          .string()
+          .optional()
+          .describe("Contact first name (Optional)"),
+        last_name: z
+          .string()
+          .optional()
+          .describe("Contact last name (Optional)"),
+        custom_fields: z
+          .record(z.string())
+          .optional()
+          .describe("Custom fields as key-value pairs (Optional)"),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        contactId: z.string().optional(),
+      },
+    },
+    async (
+      {
+        campaign_id,
+        email,
+        linkedin_url,
+        first_name,
+        last_name,
+        custom_fields,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      if (!email && !linkedin_url) {
+        return errorResult("Either email or LinkedIn URL must be provided");
+      }
+
+      const contact = {
+        ...(email && { email }),
+        ...(linkedin_url && { linkedinUrlProfile: linkedin_url }),
+        ...(first_name && { firstName: first_name }),
+        ...(last_name && { lastName: last_name }),
+        ...custom_fields,
+      };
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/advanced/campaign/contacts`,
+        {
+          method: "POST",
+          body: JSON.stringify({ id: campaign_id, contact }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to add contact to advanced campaign",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact added to advanced campaign successfully! Contact ID: ${response.contactId}`,
+          },
+        ],
+        structuredContent: {
+          campaignId: campaign_id,
+          contactId: response.contactId,
+        },
+      };
+    }
+  );
+
+  // Get advanced campaign contacts
+  server.registerTool(
+    "get-advanced-campaign-contacts",
+    {
+      description: "Get contacts from an advanced campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Advanced campaign ID"),
+        page: z.number().default(1).describe("Page number"),
+        per_page: z.number().default(10).describe("Contacts per page"),
+        event: z
+          .string()
+          .optional()
+          .describe("Filter by event type (Optional)"),
+        query: z.string().optional().describe("Search query (Optional)"),
+      },
+      outputSchema: { contacts: z.array(advancedContactSchema), ...pageOutput },
+    },
+    async ({ campaign_id, page, per_page, event, query }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/advanced/campaign/contacts?id=${campaign_id}&page=${page}&perPage=${per_page}`;
+
+      if (event) {
+        apiUrl += `&event=${event}`;
+      }
+
+      if (query) {
+        apiUrl += `&query=${encodeURIComponent(query)}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve advanced campaign contacts",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const contacts = (response.contacts as Array<Record<string, any>>) || [];
+      if (contacts.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No contacts found for this advanced campaign",
+            },
+          ],
+          structuredContent: {
+            contacts: [],
+            page,
+            perPage: per_page,
+            total: 0,
+          },
+        };
+      }
+
+      const contactsText = contacts
+        .map((contact) => {
+          let text = `Contact ID: ${contact.id || "-"}`;
+          if (contact.email) text += `\nEmail: ${contact.email}`;
+          if (contact.linkedinUrlProfile)
+            text += `\nLinkedIn: ${contact.linkedinUrlProfile}`;
+          if (contact.firstName || contact.lastName)
+            text += `\nName: ${`${contact.firstName || ""} ${
+              contact.lastName || ""
+            }`.trim()}`;
+          if (contact.status) text += `\nStatus: ${contact.status}`;
+          text += "\n---";
+          return text;
+        })
+        .join("\n");
+
+      const total = (response.total as number) || contacts.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Advanced Campaign Contacts (Page ${page} of ${Math.ceil(
+              total / per_page
+            )}, Total: ${total}):\n\n${contactsText}`,
+          },
+        ],
+        structuredContent: { contacts, page, perPage: per_page, total },
+      };
+    }
+  );
+
+  // Remove contact from advanced campaign
+  server.registerTool(
+    "remove-contact-from-advanced-campaign",
+    {
+      description: "Remove a contact from an advanced campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Advanced campaign ID"),
+        contact_id: z.string().describe("ID of the contact to remove"),
+      },
+      outputSchema: { campaignId: z.string(), contactId: z.string() },
+    },
+    async ({ campaign_id, contact_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/advanced/campaign/contacts`,
+        {
+          method: "DELETE",
+          body: JSON.stringify({
+            id: campaign_id,
+            contactId: contact_id,
+          }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to remove contact from advanced campaign",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact with ID ${contact_id} removed from advanced campaign successfully!`,
+          },
+        ],
+        structuredContent: { campaignId: campaign_id, contactId: contact_id },
+      };
+    }
+  );
+
+  // Add contact to advanced list
+  server.registerTool(
+    "add-contact-to-advanced-list",
+    {
+      description: "Add a contact to an advanced list",
+      inputSchema: {
+        list_id: z.string().describe("Advanced list ID"),
+        email: z
+          .string()
+          .email()
+          .optional()
+          .describe("Contact email address (Optional)"),
+        linkedin_url: z
+          .string()
+          .url()
+          .optional()
+          .describe("LinkedIn profile URL of the contact (Optional)"),
+        first_name: z
+          .string()
+          .optional()
+          .describe("Contact first name (Optional)"),
+        last_name: z
+          .string()
+          .optional()
+          .describe("Contact last name (Optional)"),
+        custom_fields: z
+          .record(z.string())
+          .optional()
+          .describe("Custom fields as key-value pairs (Optional)"),
+      },
+      outputSchema: { listId: z.string(), contactId: z.string().optional() },
+    },
+    async (
+      { list_id, email, linkedin_url, first_name, last_name, custom_fields },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      if (!email && !linkedin_url) {
+        return errorResult("Either email or LinkedIn URL must be provided");
+      }
+
+      const contact = {
+        ...(email && { email }),
+        ...(linkedin_url && { linkedinUrlProfile: linkedin_url }),
+        ...(first_name && { firstName: first_name }),
+        ...(last_name && { lastName: last_name }),
+        ...custom_fields,
+      };
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/advanced/lists/contacts`,
+        {
+          method: "POST",
+          body: JSON.stringify({ id: list_id, contact }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to add contact to advanced list",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Contact added to advanced list successfully! Contact ID: ${response.contactId}`,
+          },
+        ],
+        structuredContent: { listId: list_id, contactId: response.contactId },
+      };
+    }
+  );
+
+  // Get advanced campaign activities
+  server.registerTool(
+    "get-advanced-campaign-activities",
+    {
+      description: "Get activities from an advanced campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Advanced campaign ID"),
+        contact_id: z
+          .string()
+          .optional()
+          .describe("Filter by contact ID (Optional)"),
+        type: z
+          .string()
+          .optional()
+          .describe("Filter by activity type (Optional)"),
+        page: z.number().default(1).describe("Page number (Optional)"),
+        query: z.string().optional().describe("Search query (Optional)"),
+      },
+      outputSchema: { activities: z.array(activitySchema), page: z.number() },
+    },
+    async ({ campaign_id, contact_id, type, page, query }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/advanced/campaigns/${campaign_id}/activities?page=${page}`;
+
+      if (contact_id) {
+        apiUrl += `&contactId=${contact_id}`;
+      }
+
+      if (type) {
+        apiUrl += `&type=${type}`;
+      }
+
+      if (query) {
+        apiUrl += `&query=${encodeURIComponent(query)}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve advanced campaign activities",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const activities =
+        (response.activities as Array<Record<string, any>>) || [];
+      if (activities.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No activities found for this advanced campaign",
+            },
+          ],
+          structuredContent: { activities: [], page },
+        };
+      }
+
+      const activitiesText = activities
+        .map((activity) => {
+          const date = activity.date
+            ? new Date(activity.date).toLocaleString()
+            : "Unknown date";
+          return `Event: ${activity.event || "Unknown"}\nContact: ${
+            activity.contact || "Unknown"
+          }\nIdentity: ${activity.identity || "Unknown"}\nDate: ${date}\n---`;
+        })
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Advanced Campaign Activities:\n\n${activitiesText}`,
+          },
+        ],
+        structuredContent: { activities, page },
+      };
+    }
+  );
+
+  // Get advanced campaign statistics
+  server.registerTool(
+    "get-advanced-campaign-stats",
+    {
+      description: "Get statistics for an advanced campaign",
+      inputSchema: {
+        campaign_id: z.string().describe("Advanced campaign ID"),
+        detailed: z
+          .boolean()
+          .default(false)
+          .describe("Include detailed statistics"),
+        start_date: z
+          .string()
+          .optional()
+          .describe("Start date for filtering (ISO format) (Optional)"),
+        end_date: z
+          .string()
+          .optional()
+          .describe("End date for filtering (ISO format) (Optional)"),
+      },
+      outputSchema: campaignStatsOutput,
+    },
+    async ({ campaign_id, detailed, start_date, end_date }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/stats/advanced?campaignId=${campaign_id}`;
+
+      if (detailed) {
+        apiUrl += `&detailed=true`;
+      }
+
+      if (start_date) {
+        apiUrl += `&start=${encodeURIComponent(start_date)}`;
+      }
+
+      if (end_date) {
+        apiUrl += `&end=${encodeURIComponent(end_date)}`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve advanced campaign statistics",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      // Format the statistics for better readability
+      const globalStats = (response.global as Record<string, any>) || {};
+      let statsText = "Advanced Campaign Statistics:\n\n";
+
+      statsText += "Global Stats:\n";
+      Object.entries(globalStats).forEach(([key, value]) => {
+        statsText += `- ${key}: ${value}\n`;
+      });
+
+      const steps = (response.steps as Array<Array<Record<string, any>>>) || [];
+      statsText += formatStepStats(steps);
+
+      return {
+        content: [{ type: "text", text: statsText }],
+        structuredContent: { global: response.global, steps },
+      };
+    }
+  );
+
+  // Email blacklist management
+  server.registerTool(
+    "add-to-blacklist",
+    {
+      description: "Add an email or domain to the blacklist",
+      inputSchema: {
+        email: z
+          .string()
+          .describe(
+            "Email address or domain to blacklist (e.g., example@domain.com or domain.com)"
+          ),
+      },
+      outputSchema: { email: z.string() },
+    },
+    async ({ email }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/blacklists/contact`,
+        {
+          method: "POST",
+          body: JSON.stringify({ email }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to add to blacklist", result.error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully added ${email} to the blacklist`,
+          },
+        ],
+        structuredContent: { email },
+      };
+    }
+  );
+
+  server.registerTool(
+    "remove-from-blacklist",
+    {
+      description: "Remove an email or domain from the blacklist",
+      inputSchema: {
+        email: z
+          .string()
+          .describe(
+            "Email address or domain to remove from blacklist (e.g., example@domain.com or domain.com)"
+          ),
+      },
+      outputSchema: { email: z.string() },
+    },
+    async ({ email }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/blacklists/contact`,
+        {
+          method: "DELETE",
+          body: JSON.stringify({ email }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to remove from blacklist",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully removed ${email} from the blacklist`,
+          },
+        ],
+        structuredContent: { email },
+      };
+    }
+  );
+
+  // Email finder tool
+  server.registerTool(
+    "find-email",
+    {
+      description: "Find email address of a person at a company",
+      inputSchema: {
+        fullname: z.string().describe("Full name of the person"),
+        company_name: z.string().describe("Company name"),
+        company_website: z
+          .string()
+          .optional()
+          .describe("Company website (Optional)"),
+        country: z
+          .string()
+          .describe(
+            "Country of the company. In two letter format (e.g. US, DE, FR, etc.)"
+          ),
+        ...jobWaitInput,
+      },
+      outputSchema: {
+        fullname: z.string(),
+        companyName: z.string(),
+        jobId: z.string().optional(),
+        job: emailFinderSchema.optional(),
+      },
+    },
+    async (
+      {
+        fullname,
+        company_name,
+        company_website,
+        country,
+        wait,
+        timeout_seconds,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const payload = {
+        fullname,
+        companyName: company_name,
+        ...(company_website && { companyWebsite: company_website }),
+        ...(country && { country }),
+      };
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/tools/find/email`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to start email finder job",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      if (wait) {
+        const timeoutMs = timeout_seconds * 1000;
+        const job = await waitForEmeliaJob(
+          extra,
+          `${EMELIA_REST_API}/tools/find/email/${response.jobId}`,
+          timeoutMs,
+          jobProgress(extra, response.jobId, timeoutMs)
+        );
+        if (!job.ok) {
+          return emeliaErrorResult(
+            "Failed to retrieve email finder status",
+            job.error
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                job.data.status === "running"
+                  ? `Email finder job ${response.jobId} for ${fullname} at ${company_name} is still running after ${timeout_seconds} seconds.\nUse the check-email-finder tool with this job ID to get the results.`
+                  : formatEmailFinder(job.data),
+            },
+          ],
+          structuredContent: {
+            fullname,
+            companyName: company_name,
+            jobId: response.jobId,
+            job: job.data,
+          },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Email finder job started for ${fullname} at ${company_name}. Job ID: ${response.jobId}\nUse the check-email-finder tool with this job ID to get the results.`,
+          },
+        ],
+        structuredContent: {
+          fullname,
+          companyName: company_name,
+          jobId: response.jobId,
+        },
+      };
+    }
+  );
+
+  // Check email finder job status
+  server.registerTool(
+    "check-email-finder",
+    {
+      description: "Check the status of an email finder job",
+      inputSchema: {
+        job_id: z.string().describe("Job ID from the find-email tool"),
+      },
+      outputSchema: { job: emailFinderSchema },
+    },
+    async ({ job_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/tools/find/email/${job_id}`
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve email finder status",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const data = response.data as Record<string, any> | undefined;
+      if (!data) {
+        return errorResult(
+          `Failed to retrieve email finder status: Emelia returned no data for job ${job_id}`
+        );
+      }
+
+      const statusText = formatEmailFinder(data);
+
+      return {
+        content: [{ type: "text", text: statusText }],
+        structuredContent: { job: data },
+      };
+    }
+  );
+
+  // Phone finder tool
+  server.registerTool(
+    "find-phone",
+    {
+      description: "Find phone number of a person using their LinkedIn profile",
+      inputSchema: {
+        linkedin_url: z.string().url().describe("LinkedIn URL of the person"),
+        ...jobWaitInput,
+      },
+      outputSchema: {
+        linkedinUrl: z.string(),
+        jobId: z.string().optional(),
+        job: phoneFinderSchema.optional(),
+      },
+    },
+    async ({ linkedin_url, wait, timeout_seconds }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/tools/find/phone`,
+        {
+          method: "POST",
+          body: JSON.stringify({ linkedinUrl: linkedin_url }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to start phone finder job",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      if (wait) {
+        const timeoutMs = timeout_seconds * 1000;
+        const job = await waitForEmeliaJob(
+          extra,
+          `${EMELIA_REST_API}/tools/find/phone/${response.jobId}`,
+          timeoutMs,
+          jobProgress(extra, response.jobId, timeoutMs)
+        );
+        if (!job.ok) {
+          return emeliaErrorResult(
+            "Failed to retrieve phone finder status",
+            job.error
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                job.data.status === "running"
+                  ? `Phone finder job ${response.jobId} for ${linkedin_url} is still running after ${timeout_seconds} seconds.\nUse the check-phone-finder tool with this job ID to get the results.`
+                  : formatPhoneFinder(job.data),
+            },
+          ],
+          structuredContent: {
+            linkedinUrl: linkedin_url,
+            jobId: response.jobId,
+            job: job.data,
+          },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Phone finder job started for LinkedIn profile: ${linkedin_url}. Job ID: ${response.jobId}\nUse the check-phone-finder tool with this job ID to get the results.`,
+          },
+        ],
+        structuredContent: { linkedinUrl: linkedin_url, jobId: response.jobId },
+      };
+    }
+  );
+
+  // Check phone finder job status
+  server.registerTool(
+    "check-phone-finder",
+    {
+      description: "Check the status of a phone finder job",
+      inputSchema: {
+        job_id: z.string().describe("Job ID from the find-phone tool"),
+      },
+      outputSchema: { job: phoneFinderSchema },
+    },
+    async ({ job_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/tools/find/phone/${job_id}`
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve phone finder status",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const data = response.data as Record<string, any> | undefined;
+      if (!data) {
+        return errorResult(
+          `Failed to retrieve phone finder status: Emelia returned no data for job ${job_id}`
+        );
+      }
+
+      const statusText = formatPhoneFinder(data);
+
+      return {
+        content: [{ type: "text", text: statusText }],
+        structuredContent: { job: data },
+      };
+    }
+  );
+
+  // Email provider management
+  server.registerTool(
+    "get-email-providers",
+    {
+      description: "List email providers",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe("Filter to show only disconnected providers (Optional)"),
+      },
+      outputSchema: { providers: z.array(emailProviderSchema) },
+    },
+    async ({ filter }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      let apiUrl = `${EMELIA_REST_API}/email-providers`;
+
+      if (filter === "disconnected") {
+        apiUrl += `?filter=disconnected`;
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(extra, apiUrl);
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve email providers",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const providers =
+        (response.providers as Array<Record<string, any>>) || [];
+      if (providers.length === 0) {
+        return {
+          content: [{ type: "text", text: "No email providers found" }],
+          structuredContent: { providers: [] },
+        };
+      }
+
+      const providersText = providers
+        .map((provider) => {
+          return `Sender: ${provider.senderName || "-"} <${
+            provider.senderEmail || "-"
+          }>\nType: ${provider.emailType || "-"}\nStatus: ${
+            provider.disconnected ? "Disconnected" : "Connected"
+          }\n---`;
+        })
+        .join("\n");
+
+      return {
+        content: [
+          { type: "text", text: `Email Providers:\n\n${providersText}` },
+        ],
+        structuredContent: { providers },
+      };
+    }
+  );
+
+  server.registerTool(
+    "add-email-provider",
+    {
+      description: "Add a new email provider",
+      inputSchema: {
+        sender_name: z.string().describe("Name displayed as sender"),
+        sender_email: z
+          .string()
+          .email()
+          .describe("Email address used for sending emails"),
+        email_type: z
+          .enum(["GOOGLE", "OFFICE", "EXCHANGE", "SMTP", "GOOGLEIMAP"])
+          .describe("Type of email provider"),
+        sender_password: z
+          .string()
+          .optional()
+          .describe(
+            "Password for the email account (required for some provider types)"
+          ),
+        smtp_config: z
+          .object({
+            login: z.string(),
+            password: z.string(),
+            server: z.string(),
+            port: z.number(),
+            ssl: z.boolean().default(true),
+          })
+          .optional()
+          .describe("SMTP configuration (required for SMTP type)"),
+        imap_config: z
+          .object({
+            login: z.string(),
+            password: z.string(),
+            server: z.string(),
+            port: z.number(),
+            ssl: z.boolean().default(true),
+          })
+          .optional()
+          .describe("IMAP configuration (required for some provider types)"),
+        signature: z
+          .string()
+          .optional()
+          .describe("Signature ID to use with this provider"),
+      },
+      outputSchema: {
+        senderName: z.string(),
+        senderEmail: z.string(),
+        emailType: z.string(),
+        providerId: z.string().optional(),
+      },
+    },
+    async (
+      {
+        sender_name,
+        sender_email,
+        email_type,
+        sender_password,
+        smtp_config,
+        imap_config,
+        signature,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      // Check required fields based on email type
+      if (email_type === "SMTP" && !smtp_config) {
+        return errorResult(
+          "SMTP configuration is required for SMTP email type"
+        );
+      }
+
+      const payload = {
+        senderName: sender_name,
+        senderEmail: sender_email,
+        emailType: email_type,
+        ...(sender_password && { senderPassword: sender_password }),
+        ...(smtp_config && { smtp: smtp_config }),
+        ...(imap_config && { imap: imap_config }),
+        ...(signature && { signature }),
+      };
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/email-providers`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to add email provider", result.error);
+      }
+
+      const response = result.data;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully added email provider: ${sender_name} <${sender_email}>`,
+          },
+        ],
+        structuredContent: {
+          senderName: sender_name,
+          senderEmail: sender_email,
+          emailType: email_type,
+          providerId: response.providerId,
+        },
+      };
+    }
+  );
+
+  // Email provider warmup management
+  server.registerTool(
+    "get-email-warmups",
+    {
+      description: "List warmups for all email providers",
+      inputSchema: {},
+      outputSchema: { warmups: z.array(warmupSchema) },
+    },
+    async (_args, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/email-providers/warmup`
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to retrieve email warmups",
+          result.error
+        );
+      }
+
+      const response = result.data;
+
+      const warmups = (response.warmups as Array<Record<string, any>>) || [];
+      if (warmups.length === 0) {
+        return {
+          content: [{ type: "text", text: "No email warmups found" }],
+          structuredContent: { warmups: [] },
+        };
+      }
+
+      const warmupsText = warmups
+        .map((warmup) => {
+          let text = `Email: ${warmup.email || "-"}\n`;
+          text += `Status: ${warmup.running ? "Running" : "Stopped"}\n`;
+          if (warmup.startDate) {
+            text += `Start Date: ${new Date(
+              warmup.startDate
+            ).toLocaleString()}\n`;
+          }
+          text += `Emails Sent: ${warmup.emailsSent || 0}\n`;
+          text += `Emails Received: ${warmup.emailsReceived || 0}\n`;
+          text += `Spam Count: ${warmup.spamCount || 0}\n`;
+          text += `Score: ${warmup.score || 0}\n`;
+
+          if (warmup.disabledReason) {
+            text += `Disabled Reason: ${warmup.disabledReason}\n`;
+          }
+          text += `---`;
+          return text;
+        })
+        .join("\n");
+
+      return {
+        content: [{ type: "text", text: `Email Warmups:\n\n${warmupsText}` }],
+        structuredContent: { warmups },
+      };
+    }
+  );
+
+  server.registerTool(
+    "enable-email-warmup",
+    {
+      description: "Enable warmup for an email provider",
+      inputSchema: {
+        provider_id: z
+          .string()
+          .describe("ID of the email provider to enable warmup for"),
+      },
+      outputSchema: { providerId: z.string(), running: z.boolean() },
+    },
+    async ({ provider_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/email-providers/warmup/enable`,
+        {
+          method: "POST",
+          body: JSON.stringify({ providerId: provider_id }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to enable email warmup", result.error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully enabled warmup for email provider with ID: ${provider_id}`,
+          },
+        ],
+        structuredContent: { providerId: provider_id, running: true },
+      };
+    }
+  );
+
+  server.registerTool(
+    "disable-email-warmup",
+    {
+      description: "Disable warmup for an email provider",
+      inputSchema: {
+        provider_id: z
+          .string()
+          .describe("ID of the email provider to disable warmup for"),
+      },
+      outputSchema: { providerId: z.string(), running: z.boolean() },
+    },
+    async ({ provider_id }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/email-providers/warmup/disable`,
+        {
+          method: "POST",
+          body: JSON.stringify({ providerId: provider_id }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to disable email warmup",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully disabled warmup for email provider with ID: ${provider_id}`,
+          },
+        ],
+        structuredContent: { providerId: provider_id, running: false },
+      };
+    }
+  );
+
+  // Email campaign reply
+  server.registerTool(
+    "reply-to-email",
+    {
+      description: "Reply to an email from an Emelia campaign",
+      inputSchema: {
+        sender_email: z
+          .string()
+          .email()
+          .optional()
+          .describe(
+            "Sender email address (Optional if providerId is provided)"
+          ),
+        provider_id: z
+          .string()
+          .optional()
+          .describe("Provider ID (Optional if senderEmail is provided)"),
+        message_id: z
+          .string()
+          .optional()
+          .describe("Original message ID (Optional)"),
+        subject: z.string().describe("Reply subject"),
+        content: z.string().describe("Reply content/body"),
+        to: z
+          .array(z.string().email())
+          .optional()
+          .describe("Recipients (Optional)"),
+        cc: z
+          .array(z.string().email())
+          .optional()
+          .describe("CC recipients (Optional)"),
+        bcc: z
+          .array(z.string().email())
+          .optional()
+          .describe("BCC recipients (Optional)"),
+        attachments: z
+          .array(
+            z.object({
+              name: z.string(),
+              url: z.string(),
+            })
+          )
+          .optional()
+          .describe("Attachments as array of {name, url} objects (Optional)"),
+      },
+      outputSchema: {
+        subject: z.string(),
+        senderEmail: z.string().optional(),
+        providerId: z.string().optional(),
+      },
+    },
+    async (
+      {
+        sender_email,
+        provider_id,
+        message_id,
+        subject,
+        content,
+        to,
+        cc,
+        bcc,
+        attachments,
+      },
+      extra
+    ) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      if (!sender_email && !provider_id) {
+        return errorResult(
+          "Either sender_email or provider_id must be provided"
+        );
+      }
+
+      const payload: Record<string, any> = {
+        content,
+        subject,
+      };
+
+      if (sender_email) payload.senderEmail = sender_email;
+      if (provider_id) payload.providerId = provider_id;
+      if (message_id) payload.messageId = message_id;
+      if (to) payload.to = to;
+      if (cc) payload.cc = cc;
+      if (bcc) payload.bcc = bcc;
+      if (attachments) payload.attachments = attachments;
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/reply`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult("Failed to send reply", result.error);
+      }
+
+      return {
+        content: [{ type: "text", text: `Successfully sent email reply` }],
+        structuredContent: {
+          subject,
+          senderEmail: sender_email,
+          providerId: provider_id,
+        },
+      };
+    }
+  );
+
+  // Update contact custom field
+  server.registerTool(
+    "update-contact-field",
+    {
+      description: "Update a custom field for an email contact",
+      inputSchema: {
+        campaign_id: z.string().describe("Campaign ID"),
+        email: z.string().email().describe("Contact email address"),
+        field_name: z.string().describe("Name of the custom field to update"),
+        field_value: z.string().describe("New value for the custom field"),
+      },
+      outputSchema: {
+        campaignId: z.string(),
+        email: z.string(),
+        fieldName: z.string(),
+        fieldValue: z.string(),
+      },
+    },
+    async ({ campaign_id, email, field_name, field_value }, extra) => {
+      if (!getEmeliaApiKey(extra)) {
+        return authRequiredResult();
+      }
+
+      const result = await makeEmeliaRequest<EmeliaApiResponse>(
+        extra,
+        `${EMELIA_REST_API}/emails/contacts`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({
+            campaignId: campaign_id,
+            email,
+            fieldName: field_name,
+            fieldValue: field_value,
+          }),
+        }
+      );
+
+      if (!result.ok) {
+        return emeliaErrorResult(
+          "Failed to update contact custom field",
+          result.error
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Custom field "${field_name}" updated to "${field_value}" for contact with email ${email}`,
+          },
+        ],
+        structuredContent: {
+          campaignId: campaign_id,
+          email,
+          fieldName: field_name,
+          fieldValue: field_value,
+        },
+      };
+    }
+  );
+
+  registerCampaignTools(server, EMELIA_REST_API);
+  if (options.local) {
+    registerBulkTools(server, EMELIA_REST_API);
+  }
+  registerListTools(server, EMELIA_REST_API);
+  registerResources(server, EMELIA_REST_API);
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,532 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const encoder = new TextEncoder();
+
+// Build a JSON-RPC error response that is not tied to any request id
+export function jsonRpcErrorResponse(
+  status: number,
+  code: number,
+  message: string,
+  headers?: Record<string, string>
+): Response {
+  return new Response(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code, message },
+    }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    }
+  );
+}
+
+// Format a JSON-RPC message as a Server-Sent Event
+function sseEvent(event: string, data: string): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${data}\n\n`);
+}
+
+// Parse a request body into a list of JSON-RPC messages, or return the
+// HTTP response describing why it could not be parsed
+async function parseMessages(
+  request: Request
+): Promise<
+  { messages: JSONRPCMessage[]; batch: boolean } | { error: Response }
+> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: jsonRpcErrorResponse(400, -32700, "Parse error") };
+  }
+
+  const raw = Array.isArray(body) ? body : [body];
+  const messages: JSONRPCMessage[] = [];
+  for (const item of raw) {
+    const parsed = JSONRPCMessageSchema.safeParse(item);
+    if (!parsed.success) {
+      return { error: jsonRpcErrorResponse(400, -32600, "Invalid Request") };
+    }
+    messages.push(parsed.data);
+  }
+
+  if (messages.length === 0) {
+    return { error: jsonRpcErrorResponse(400, -32600, "Invalid Request") };
+  }
+
+  return { messages, batch: Array.isArray(body) };
+}
+
+// Whether a POST starts a session, i.e. holds an initialize request. Reads a
+// copy of the body, so the request can still be handled afterwards.
+export async function isInitializePost(request: Request): Promise<boolean> {
+  try {
+    const body = await request.clone().json();
+    return (Array.isArray(body) ? body : [body]).some(isInitializeRequest);
+  } catch {
+    return false;
+  }
+}
+
+function responseId(message: JSONRPCMessage): RequestId | undefined {
+  if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+    return message.id;
+  }
+  return undefined;
+}
+
+interface PendingPost {
+  requestIds: RequestId[];
+  responses: Map<RequestId, JSONRPCMessage>;
+  // Set when the client accepted an SSE stream for this POST
+  stream?: ReadableStreamDefaultController<Uint8Array>;
+  // Set when the responses are returned as a single JSON body
+  resolveJson?: (messages: JSONRPCMessage[]) => void;
+  batch: boolean;
+}
+
+export interface WorkerStreamableHTTPTransportOptions {
+  sessionIdGenerator?: () => string;
+  onsessioninitialized?: (sessionId: string) => void;
+}
+
+/**
+ * Streamable HTTP server transport built on the Fetch API, so it can run in a
+ * Cloudflare Worker where the SDK's node:http based transport is unavailable.
+ *
+ * Mirrors the SDK's StreamableHTTPServerTransport in stateful mode:
+ * - the initialize request creates the session and returns `Mcp-Session-Id`
+ * - requests with an unknown session id are rejected with 404
+ * - POSTs holding only notifications or responses are answered with 202
+ * - POSTs holding requests are answered once every request has a response,
+ *   as an SSE stream if the client accepts one, otherwise as JSON
+ * - GET opens a standalone SSE stream for server-initiated messages
+ * - DELETE terminates the session
+ */
+export class WorkerStreamableHTTPTransport implements Transport {
+  private _sessionIdGenerator: () => string;
+  private _onsessioninitialized?: (sessionId: string) => void;
+  private _started = false;
+  private _initialized = false;
+  private _pending = new Map<RequestId, PendingPost>();
+  private _standaloneStream?: ReadableStreamDefaultController<Uint8Array>;
+
+  sessionId?: string;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (
+    message: JSONRPCMessage,
+    extra?: { authInfo?: AuthInfo }
+  ) => void;
+
+  constructor(options: WorkerStreamableHTTPTransportOptions = {}) {
+    this._sessionIdGenerator =
+      options.sessionIdGenerator ?? (() => crypto.randomUUID());
+    this._onsessioninitialized = options.onsessioninitialized;
+  }
+
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error("Transport already started");
+    }
+    this._started = true;
+  }
+
+  // Handle an incoming HTTP request for this session. `authInfo` is handed to
+  // the tool handlers of every message carried by the request.
+  async handleRequest(
+    request: Request,
+    authInfo?: AuthInfo
+  ): Promise<Response> {
+    switch (request.method) {
+      case "POST":
+        return this.handlePostRequest(request, authInfo);
+      case "GET":
+        return this.handleGetRequest(request);
+      case "DELETE":
+        return this.handleDeleteRequest(request);
+      default:
+        return jsonRpcErrorResponse(405, -32000, "Method not allowed.", {
+          Allow: "GET, POST, DELETE",
+        });
+    }
+  }
+
+  private sessionHeaders(): Record<string, string> {
+    return this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {};
+  }
+
+  private validateSession(request: Request): Response | undefined {
+    if (!this._initialized) {
+      return jsonRpcErrorResponse(
+        400,
+        -32000,
+        "Bad Request: Server not initialized"
+      );
+    }
+
+    const sessionId = request.headers.get("mcp-session-id");
+    if (!sessionId) {
+      return jsonRpcErrorResponse(
+        400,
+        -32000,
+        "Bad Request: Mcp-Session-Id header is required"
+      );
+    }
+
+    if (sessionId !== this.sessionId) {
+      return jsonRpcErrorResponse(404, -32001, "Session not found");
+    }
+
+    return undefined;
+  }
+
+  private async handlePostRequest(
+    request: Request,
+    authInfo?: AuthInfo
+  ): Promise<Response> {
+    const accept = request.headers.get("accept") || "";
+    const acceptsSse = accept.includes("text/event-stream");
+    if (!acceptsSse && !accept.includes("application/json")) {
+      return jsonRpcErrorResponse(
+        406,
+        -32000,
+        "Not Acceptable: Client must accept application/json or text/event-stream"
+      );
+    }
+
+    const contentType = request.headers.get("content-type") || "";
+    if (!contentType.includes("application/json")) {
+      return jsonRpcErrorResponse(
+        415,
+        -32000,
+        "Unsupported Media Type: Content-Type must be application/json"
+      );
+    }
+
+    const parsed = await parseMessages(request);
+    if ("error" in parsed) {
+      return parsed.error;
+    }
+    const { messages, batch } = parsed;
+
+    if (messages.some(isInitializeRequest)) {
+      if (this._initialized) {
+        return jsonRpcErrorResponse(
+          400,
+          -32600,
+          "Invalid Request: Server already initialized"
+        );
+      }
+      if (messages.length > 1) {
+        return jsonRpcErrorResponse(
+          400,
+          -32600,
+          "Invalid Request: Only one initialization request is allowed"
+        );
+      }
+      this.sessionId = this._sessionIdGenerator();
+      this._initialized = true;
+      this._onsessioninitialized?.(this.sessionId);
+    } else {
+      const invalid = this.validateSession(request);
+      if (invalid) {
+        return invalid;
+      }
+    }
+
+    const requestIds = messages.filter(isJSONRPCRequest).map((m) => m.id);
+
+    // Responses are routed back by request id, so an id must be unique among
+    // the requests awaiting a response, in this POST or a concurrent one
+    const duplicate = requestIds.find(
+      (id, i) => requestIds.indexOf(id) !== i || this._pending.has(id)
+    );
+    if (duplicate !== undefined) {
+      return jsonRpcErrorResponse(
+        400,
+        -32600,
+        `Invalid Request: Request ID ${duplicate} is already in use`
+      );
+    }
+
+    // Notifications and responses only: nothing to wait for
+    if (requestIds.length === 0) {
+      for (const message of messages) {
+        this.onmessage?.(message, { authInfo });
+      }
+      return new Response(null, {
+        status: 202,
+        headers: this.sessionHeaders(),
+      });
+    }
+
+    const pending: PendingPost = {
+      requestIds,
+      responses: new Map(),
+      batch,
+    };
+
+    if (acceptsSse) {
+      const body = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          pending.stream = controller;
+        },
+        cancel: () => {
+          this.releasePending(pending);
+        },
+      });
+      this.registerPending(pending);
+      for (const message of messages) {
+        this.onmessage?.(message, { authInfo });
+      }
+      return new Response(body, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          ...this.sessionHeaders(),
+        },
+      });
+    }
+
+    const responses = new Promise<JSONRPCMessage[]>((resolve) => {
+      pending.resolveJson = resolve;
+    });
+    this.registerPending(pending);
+    for (const message of messages) {
+      this.onmessage?.(message, { authInfo });
+    }
+
+    const results = await responses;
+    return new Response(JSON.stringify(pending.batch ? results : results[0]), {
+      headers: {
+        "Content-Type": "application/json",
+        ...this.sessionHeaders(),
+      },
+    });
+  }
+
+  private async handleGetRequest(request: Request): Promise<Response> {
+    const accept = request.headers.get("accept") || "";
+    if (!accept.includes("text/event-stream")) {
+      return jsonRpcErrorResponse(
+        406,
+        -32000,
+        "Not Acceptable: Client must accept text/event-stream"
+      );
+    }
+
+    const invalid = this.validateSession(request);
+    if (invalid) {
+      return invalid;
+    }
+
+    if (this._standaloneStream) {
+      return jsonRpcErrorResponse(
+        409,
+        -32000,
+        "Conflict: Only one SSE stream is allowed per session"
+      );
+    }
+
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this._standaloneStream = controller;
+      },
+      cancel: () => {
+        this._standaloneStream = undefined;
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        ...this.sessionHeaders(),
+      },
+    });
+  }
+
+  private async handleDeleteRequest(request: Request): Promise<Response> {
+    const invalid = this.validateSession(request);
+    if (invalid) {
+      return invalid;
+    }
+
+    await this.close();
+    return new Response(null, { status: 200 });
+  }
+
+  private registerPending(pending: PendingPost): void {
+    for (const id of pending.requestIds) {
+      this._pending.set(id, pending);
+    }
+  }
+
+  private releasePending(pending: PendingPost): void {
+    for (const id of pending.requestIds) {
+      this._pending.delete(id);
+    }
+  }
+
+  async send(
+    message: JSONRPCMessage,
+    options?: { relatedRequestId?: RequestId }
+  ): Promise<void> {
+    const id = responseId(message) ?? options?.relatedRequestId;
+
+    // Server-initiated messages go to the standalone GET stream, if one is open
+    if (id === undefined) {
+      this._standaloneStream?.enqueue(
+        sseEvent("message", JSON.stringify(message))
+      );
+      return;
+    }
+
+    const pending = this._pending.get(id);
+    if (!pending) {
+      throw new Error(`No connection established for request ID: ${id}`);
+    }
+
+    pending.stream?.enqueue(sseEvent("message", JSON.stringify(message)));
+
+    if (responseId(message) === undefined) {
+      return;
+    }
+
+    pending.responses.set(id, message);
+    if (pending.responses.size < pending.requestIds.length) {
+      return;
+    }
+
+    this.releasePending(pending);
+    if (pending.stream) {
+      pending.stream.close();
+    } else {
+      pending.resolveJson?.(
+        pending.requestIds.map((requestId) => pending.responses.get(requestId)!)
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    const posts = new Set(this._pending.values());
+    for (const pending of posts) {
+      try {
+        pending.stream?.close();
+      } catch {
+        // The client already went away
+      }
+      pending.resolveJson?.([...pending.responses.values()]);
+    }
+    this._pending.clear();
+
+    try {
+      this._standaloneStream?.close();
+    } catch {
+      // The client already went away
+    }
+    this._standaloneStream = undefined;
+
+    this.onclose?.();
+  }
+}
+
+/**
+ * Legacy HTTP+SSE server transport (protocol version 2024-11-05) built on the
+ * Fetch API. The client keeps a GET stream open and POSTs its messages to the
+ * endpoint announced in the first `endpoint` event.
+ */
+export class WorkerSSETransport implements Transport {
+  private _stream?: ReadableStreamDefaultController<Uint8Array>;
+
+  sessionId: string;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (
+    message: JSONRPCMessage,
+    extra?: { authInfo?: AuthInfo }
+  ) => void;
+
+  constructor(private _endpoint: string) {
+    this.sessionId = crypto.randomUUID();
+  }
+
+  // Open the SSE stream. The server must be connected before returning it.
+  connect(): Response {
+    const endpoint = `${this._endpoint}?sessionId=${this.sessionId}`;
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this._stream = controller;
+        controller.enqueue(sseEvent("endpoint", endpoint));
+      },
+      cancel: () => {
+        this._stream = undefined;
+        this.onclose?.();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  async start(): Promise<void> {
+    // The stream is opened by connect()
+  }
+
+  // Handle a client message POSTed to the announced endpoint
+  async handlePostMessage(
+    request: Request,
+    authInfo?: AuthInfo
+  ): Promise<Response> {
+    if (!this._stream) {
+      return new Response("SSE connection not established", { status: 500 });
+    }
+
+    const parsed = await parseMessages(request);
+    if ("error" in parsed) {
+      return parsed.error;
+    }
+
+    for (const message of parsed.messages) {
+      this.onmessage?.(message, { authInfo });
+    }
+
+    return new Response("Accepted", { status: 202 });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this._stream) {
+      throw new Error("Not connected");
+    }
+    this._stream.enqueue(sseEvent("message", JSON.stringify(message)));
+  }
+
+  async close(): Promise<void> {
+    try {
+      this._stream?.close();
+    } catch {
+      // The client already went away
+    }
+    this._stream = undefined;
+    this.onclose?.();
+  }
+}
@@ -0,0 +1,176 @@
+// Cloudflare Worker serving the MCP server over HTTP: Streamable HTTP on /mcp
+// and the legacy HTTP+SSE transport on /sse and /messages
+
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { EmeliaRequestEnv, requestPolicyFromEnv } from "./config.js";
+import { clearEmeliaApiKey, configureEmeliaRequests } from "./helpers.js";
+import { createServer } from "./server.js";
+import {
+  isInitializePost,
+  jsonRpcErrorResponse,
+  WorkerSSETransport,
+  WorkerStreamableHTTPTransport,
+} from "./transport.js";
+
+export interface Env extends EmeliaRequestEnv {
+  EMELIA_API_URL?: string;
+}
+
+// Worker bindings are only known once a request comes in
+let requestPolicyConfigured = false;
+let apiUrl: string | undefined;
+
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, Accept, Mcp-Session-Id",
+  "Access-Control-Expose-Headers": "Mcp-Session-Id",
+};
+
+// Active sessions of this Worker isolate, keyed by session ID
+const streamableSessions = new Map<string, WorkerStreamableHTTPTransport>();
+const sseSessions = new Map<string, WorkerSSETransport>();
+
+// Clients may go away without closing their session, so sessions without a
+// request for this long are closed
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+// Time of the last request of each session, by session ID
+const sessionActivity = new Map<string, number>();
+
+function closeIdleSessions(now: number): void {
+  for (const sessions of [streamableSessions, sseSessions]) {
+    for (const [id, transport] of sessions) {
+      if (now - (sessionActivity.get(id) ?? 0) > SESSION_IDLE_MS) {
+        void transport.close();
+      }
+    }
+  }
+}
+
+function withCors(response: Response): Response {
+  const corsResponse = new Response(response.body, response);
+  Object.entries(CORS_HEADERS).forEach(([key, value]) => {
+    corsResponse.headers.set(key, value);
+  });
+  return corsResponse;
+}
+
+// HTTP clients may send their own Emelia API key as a bearer token instead of
+// calling the authenticate tool
+function bearerAuthInfo(request: Request): AuthInfo | undefined {
+  const match = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return undefined;
+  }
+  return { token: match[1], clientId: "emelia-mcp", scopes: [] };
+}
+
+// Streamable HTTP transport: a new session starts with an initialize POST
+async function handleStreamableHttp(request: Request): Promise<Response> {
+  const sessionId = request.headers.get("mcp-session-id");
+
+  if (sessionId) {
+    const transport = streamableSessions.get(sessionId);
+    if (!transport) {
+      return jsonRpcErrorResponse(404, -32001, "Session not found");
+    }
+    sessionActivity.set(sessionId, Date.now());
+    return transport.handleRequest(request, bearerAuthInfo(request));
+  }
+
+  // Only an initialize request may come without a session, so nothing else
+  // gets a server built for it
+  if (request.method !== "POST" || !(await isInitializePost(request))) {
+    return jsonRpcErrorResponse(
+      400,
+      -32000,
+      "Bad Request: Mcp-Session-Id header is required"
+    );
+  }
+
+  const transport = new WorkerStreamableHTTPTransport({
+    onsessioninitialized: (id) => {
+      streamableSessions.set(id, transport);
+      sessionActivity.set(id, Date.now());
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      streamableSessions.delete(transport.sessionId);
+      sessionActivity.delete(transport.sessionId);
+      clearEmeliaApiKey({ sessionId: transport.sessionId });
+    }
+  };
+
+  await createServer({ apiUrl }).connect(transport);
+  return transport.handleRequest(request, bearerAuthInfo(request));
+}
+
+// Legacy HTTP+SSE transport: GET /sse opens the stream, POST /messages feeds it
+async function handleSse(request: Request, url: URL): Promise<Response> {
+  if (request.method === "GET") {
+    const transport = new WorkerSSETransport("/messages");
+    sseSessions.set(transport.sessionId, transport);
+    sessionActivity.set(transport.sessionId, Date.now());
+    transport.onclose = () => {
+      sseSessions.delete(transport.sessionId);
+      sessionActivity.delete(transport.sessionId);
+      clearEmeliaApiKey({ sessionId: transport.sessionId });
+    };
+
+    const response = transport.connect();
+    await createServer({ apiUrl }).connect(transport);
+    return response;
+  }
+
+  const sessionId = url.searchParams.get("sessionId");
+  const transport = sessionId ? sseSessions.get(sessionId) : undefined;
+  if (!transport) {
+    return new Response("Session not found", { status: 404 });
+  }
+  sessionActivity.set(transport.sessionId, Date.now());
+  return transport.handlePostMessage(request, bearerAuthInfo(request));
+}
+
+// Cloudflare Worker handler
+export default {
+  async fetch(request: Request, env: Env) {
+    const url = new URL(request.url);
+    closeIdleSessions(Date.now());
+
+    if (!requestPolicyConfigured) {
+      configureEmeliaRequests(requestPolicyFromEnv(env));
+      apiUrl = env.EMELIA_API_URL;
+      requestPolicyConfigured = true;
+    }
+
+    // Handle CORS preflight requests
+    if (request.method === "OPTIONS") {
+      return new Response(null, { headers: CORS_HEADERS });
+    }
+
+    if (url.pathname === "/mcp") {
+      return withCors(await handleStreamableHttp(request));
+    }
+
+    if (
+      (url.pathname === "/sse" && request.method === "GET") ||
+      (url.pathname === "/messages" && request.method === "POST")
+    ) {
+      return withCors(await handleSse(request, url));
+    }
+
+    // Default response for other routes
+    return new Response(
+      "Emelia MCP Server - Use /mcp (Streamable HTTP) or /sse (legacy SSE) for MCP connections",
+      {
+        headers: {
+          "Content-Type": "text/plain",
+          ...CORS_HEADERS,
+        },
+      }
+    );
+  },
+};
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+describe("advanced campaign tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("create-advanced-campaign returns the new campaign ID", async () => {
+    const result = await harness.call("create-advanced-campaign", {
+      name: "Enterprise",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/campaigns`,
+      method: "POST",
+      body: { name: "Enterprise" },
+    });
+    expect(textOf(result)).toBe(
+      'Advanced campaign "Enterprise" created successfully! Campaign ID: advanced-campaign-mock-1'
+    );
+  });
+
+  it("get-advanced-campaigns lists campaigns", async () => {
+    const result = await harness.call("get-advanced-campaigns");
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/campaigns`,
+      method: "GET",
+    });
+    expect(textOf(result)).toMatch(
+      /^Advanced Campaigns:\n\nCampaign ID: advanced-campaign-1\nName: Multichannel ABM\nStatus: RUNNING\nCreated: .+\n---$/
+    );
+  });
+
+  it("get-advanced-campaigns reports an empty campaigns array", async () => {
+    harness.respondWith({ success: true, campaigns: [] });
+
+    const result = await harness.call("get-advanced-campaigns");
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe("No advanced campaigns found");
+  });
+
+  it("add-contact-to-advanced-campaign requires an email or LinkedIn URL", async () => {
+    const result = await harness.call("add-contact-to-advanced-campaign", {
+      campaign_id: "advanced-campaign-1",
+      first_name: "Jane",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Either email or LinkedIn URL must be provided"
+    );
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("add-contact-to-advanced-campaign posts the contact", async () => {
+    const result = await harness.call("add-contact-to-advanced-campaign", {
+      campaign_id: "advanced-campaign-1",
+      email: "john.smith@globex.com",
+      linkedin_url: "https://www.linkedin.com/in/john-smith",
+      last_name: "Smith",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/campaign/contacts`,
+      method: "POST",
+      body: {
+        id: "advanced-campaign-1",
+        contact: {
+          email: "john.smith@globex.com",
+          linkedinUrlProfile: "https://www.linkedin.com/in/john-smith",
+          lastName: "Smith",
+        },
+      },
+    });
+    expect(textOf(result)).toBe(
+      "Contact added to advanced campaign successfully! Contact ID: advanced-contact-mock-1"
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "advanced-campaign-1",
+      contactId: "advanced-contact-mock-1",
+    });
+  });
+
+  it("get-advanced-campaign-contacts pages contacts", async () => {
+    const result = await harness.call("get-advanced-campaign-contacts", {
+      campaign_id: "advanced-campaign-1",
+      per_page: 20,
+      query: "acme",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/campaign/contacts?id=advanced-campaign-1&page=1&perPage=20&query=acme`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe(
+      [
+        "Advanced Campaign Contacts (Page 1 of 1, Total: 1):",
+        "",
+        "Contact ID: advanced-contact-1",
+        "Email: jane.doe@acme.com",
+        "LinkedIn: https://www.linkedin.com/in/jane-doe",
+        "Name: Jane Doe",
+        "Status: CONTACTED",
+        "---",
+      ].join("\n")
+    );
+  });
+
+  it("remove-contact-from-advanced-campaign deletes the contact", async () => {
+    const result = await harness.call("remove-contact-from-advanced-campaign", {
+      campaign_id: "advanced-campaign-1",
+      contact_id: "advanced-contact-1",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/campaign/contacts`,
+      method: "DELETE",
+      body: { id: "advanced-campaign-1", contactId: "advanced-contact-1" },
+    });
+    expect(textOf(result)).toBe(
+      "Contact with ID advanced-contact-1 removed from advanced campaign successfully!"
+    );
+  });
+
+  it("remove-contact-from-advanced-campaign reports an unknown contact", async () => {
+    const result = await harness.call("remove-contact-from-advanced-campaign", {
+      campaign_id: "advanced-campaign-1",
+      contact_id: "missing",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to remove contact from advanced campaign: Contact not found \(HTTP 404\) \[not-found\]\n/
+    );
+  });
+
+  it("add-contact-to-advanced-list posts the contact", async () => {
+    const result = await harness.call("add-contact-to-advanced-list", {
+      list_id: "advanced-list-1",
+      email: "john.smith@globex.com",
+      custom_fields: { role: "CTO" },
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/lists/contacts`,
+      method: "POST",
+      body: {
+        id: "advanced-list-1",
+        contact: { email: "john.smith@globex.com", role: "CTO" },
+      },
+    });
+    expect(textOf(result)).toBe(
+      "Contact added to advanced list successfully! Contact ID: advanced-contact-mock-1"
+    );
+  });
+
+  it("get-advanced-campaign-activities lists activities", async () => {
+    const result = await harness.call("get-advanced-campaign-activities", {
+      campaign_id: "advanced-campaign-1",
+      contact_id: "advanced-contact-1",
+      page: 2,
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/advanced/campaigns/advanced-campaign-1/activities?page=2&contactId=advanced-contact-1`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe(
+      "No activities found for this advanced campaign"
+    );
+
+    const first = await harness.call("get-advanced-campaign-activities", {
+      campaign_id: "advanced-campaign-1",
+    });
+    expect(textOf(first)).toMatch(
+      /^Advanced Campaign Activities:\n\nEvent: SENT\nContact: jane\.doe@acme\.com\nIdentity: sales@emelia\.io\nDate: .+\n---$/
+    );
+  });
+
+  it("get-advanced-campaign-stats formats statistics", async () => {
+    const result = await harness.call("get-advanced-campaign-stats", {
+      campaign_id: "advanced-campaign-1",
+      detailed: true,
+      start_date: "2025-01-01T00:00:00Z",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/stats/advanced?campaignId=advanced-campaign-1&detailed=true&start=2025-01-01T00%3A00%3A00Z`,
+      method: "GET",
+    });
+    expect(textOf(result)).toMatch(
+      /^Advanced Campaign Statistics:\n\nGlobal Stats:\n- sent: 0\n/
+    );
+  });
+});
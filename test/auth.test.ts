@@ -0,0 +1,300 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_KEY, createHarness, Harness, textOf } from "./harness.js";
+
+// Valid arguments for every tool that needs an Emelia API key
+const SAMPLE_ARGS: Record<string, Record<string, unknown>> = {
+  "get-campaigns": {},
+  "create-email-campaign": { name: "New campaign" },
+  "add-contact-to-campaign": {
+    campaign_id: "email-campaign-1",
+    email: "a@b.co",
+  },
+  "get-campaign-contacts": { campaign_id: "email-campaign-1" },
+  "send-test-email": {
+    campaign_id: "email-campaign-1",
+    email: "a@b.co",
+    step: 0,
+  },
+  "get-campaign-stats": { campaign_id: "email-campaign-1" },
+  "verify-email": { email: "a@b.co" },
+  "check-email-verification": { job_id: "job" },
+  "get-linkedin-campaigns": {},
+  "create-linkedin-campaign": { name: "New campaign" },
+  "add-contact-to-linkedin-campaign": {
+    campaign_id: "linkedin-campaign-1",
+    linkedin_url: "https://www.linkedin.com/in/a",
+  },
+  "get-linkedin-campaign-contacts": { campaign_id: "linkedin-campaign-1" },
+  "remove-contact-from-linkedin-campaign": {
+    campaign_id: "linkedin-campaign-1",
+    linkedin_url: "https://www.linkedin.com/in/a",
+  },
+  "update-linkedin-contact-field": {
+    campaign_id: "linkedin-campaign-1",
+    linkedin_url: "https://www.linkedin.com/in/a",
+    field_name: "a",
+    field_value: "b",
+  },
+  "get-linkedin-campaign-activities": { campaign_id: "linkedin-campaign-1" },
+  "get-linkedin-campaign-stats": { campaign_id: "linkedin-campaign-1" },
+  "create-advanced-campaign": { name: "New campaign" },
+  "get-advanced-campaigns": {},
+  "add-contact-to-advanced-campaign": {
+    campaign_id: "advanced-campaign-1",
+    email: "a@b.co",
+  },
+  "get-advanced-campaign-contacts": { campaign_id: "advanced-campaign-1" },
+  "remove-contact-from-advanced-campaign": {
+    campaign_id: "advanced-campaign-1",
+    contact_id: "advanced-contact-1",
+  },
+  "add-contact-to-advanced-list": { list_id: "list", email: "a@b.co" },
+  "get-advanced-campaign-activities": { campaign_id: "advanced-campaign-1" },
+  "get-advanced-campaign-stats": { campaign_id: "advanced-campaign-1" },
+  "add-to-blacklist": { email: "a@b.co" },
+  "remove-from-blacklist": { email: "a@b.co" },
+  "find-email": { fullname: "Jane Doe", company_name: "Acme", country: "FR" },
+  "check-email-finder": { job_id: "job" },
+  "find-phone": { linkedin_url: "https://www.linkedin.com/in/a" },
+  "check-phone-finder": { job_id: "job" },
+  "get-email-providers": {},
+  "add-email-provider": {
+    sender_name: "Sales",
+    sender_email: "a@b.co",
+    email_type: "GOOGLE",
+  },
+  "get-email-warmups": {},
+  "enable-email-warmup": { provider_id: "provider-1" },
+  "disable-email-warmup": { provider_id: "provider-1" },
+  "reply-to-email": {
+    provider_id: "provider-1",
+    subject: "Re: hello",
+    content: "Thanks",
+  },
+  "update-contact-field": {
+    campaign_id: "email-campaign-1",
+    email: "a@b.co",
+    field_name: "a",
+    field_value: "b",
+  },
+  "start-campaign": { campaign_type: "email", campaign_id: "email-campaign-2" },
+  "pause-campaign": { campaign_type: "email", campaign_id: "email-campaign-1" },
+  "resume-campaign": {
+    campaign_type: "email",
+    campaign_id: "email-campaign-1",
+  },
+  "archive-campaign": {
+    campaign_type: "email",
+    campaign_id: "email-campaign-2",
+  },
+  "add-campaign-step": { campaign_id: "email-campaign-2", message: "Hi" },
+  "update-campaign-step": {
+    campaign_id: "email-campaign-1",
+    step: 1,
+    delay_amount: 2,
+  },
+  "move-campaign-step": { campaign_id: "email-campaign-1", step: 1, to: 0 },
+  "delete-campaign-step": { campaign_id: "email-campaign-1", step: 1 },
+  "add-step-version": {
+    campaign_id: "email-campaign-1",
+    step: 0,
+    subject: "Hello",
+    message: "Hi",
+  },
+  "update-step-version": {
+    campaign_id: "email-campaign-1",
+    step: 0,
+    version: 0,
+    disabled: true,
+  },
+  "delete-step-version": {
+    campaign_id: "email-campaign-1",
+    step: 0,
+    version: 0,
+  },
+  "get-campaign-schedule": { campaign_id: "email-campaign-1" },
+  "update-campaign-schedule": { campaign_id: "email-campaign-1", days: [1] },
+  "clone-campaign": { campaign_type: "email", campaign_id: "email-campaign-1" },
+  "attach-campaign-senders": {
+    campaign_id: "email-campaign-1",
+    provider_ids: ["provider-1"],
+  },
+  "detach-campaign-senders": {
+    campaign_id: "email-campaign-1",
+    provider_ids: ["provider-1"],
+  },
+  "set-sender-rotation": { campaign_id: "email-campaign-1", enabled: true },
+  "pin-version-sender": {
+    campaign_id: "email-campaign-1",
+    step: 0,
+    version: 0,
+  },
+  "set-linkedin-sequence": {
+    campaign_id: "linkedin-campaign-1",
+    steps: [{ type: "VISIT" }],
+  },
+  "get-linkedin-campaign-schedule": { campaign_id: "linkedin-campaign-1" },
+  "update-linkedin-campaign-schedule": {
+    campaign_id: "linkedin-campaign-1",
+    daily_contact: 10,
+  },
+  "get-linkedin-accounts": {},
+  "reassign-linkedin-campaign": {
+    campaign_id: "linkedin-campaign-1",
+    account_id: "linkedin-account-1",
+  },
+  "get-contact-lists": { list_type: "email" },
+  "create-contact-list": { list_type: "email", name: "New list" },
+  "rename-contact-list": {
+    list_type: "email",
+    list_id: "email-list-1",
+    name: "Renamed",
+  },
+  "delete-contact-list": { list_type: "email", list_id: "email-list-1" },
+  "get-contact-list-contacts": { list_type: "email", list_id: "email-list-1" },
+  "add-contacts-to-list": {
+    list_type: "email",
+    list_id: "email-list-1",
+    contacts: [{ email: "a@b.co" }],
+  },
+  "remove-contacts-from-list": {
+    list_type: "email",
+    list_id: "email-list-1",
+    contacts: ["a@b.co"],
+  },
+  "attach-campaign-lists": {
+    campaign_type: "email",
+    campaign_id: "email-campaign-1",
+    list_ids: ["email-list-1"],
+  },
+  "detach-campaign-lists": {
+    campaign_type: "email",
+    campaign_id: "email-campaign-1",
+    list_ids: ["email-list-1"],
+  },
+  "verify-emails-bulk": { emails: ["a@b.co"] },
+  "find-emails-bulk": { csv_path: "leads.csv" },
+  "find-phones-bulk": { csv_path: "leads.csv" },
+  "export-campaign-contacts": {
+    campaign_type: "email",
+    campaign_id: "email-campaign-1",
+    output_path: "contacts.csv",
+  },
+  "import-contacts": {
+    campaign_type: "email",
+    campaign_id: "email-campaign-1",
+    file_path: "leads.csv",
+  },
+};
+
+// Tools that manage credentials themselves
+const CREDENTIAL_TOOLS = ["authenticate", "logout", "switch-profile"];
+
+describe("authentication", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("has sample arguments for every registered tool", async () => {
+    const { tools } = await harness.client.listTools();
+    const names = tools
+      .map((tool) => tool.name)
+      .filter((name) => !CREDENTIAL_TOOLS.includes(name));
+
+    expect(names.sort()).toEqual(Object.keys(SAMPLE_ARGS).sort());
+  });
+
+  it("leaves the tools using local files and profiles out of HTTP servers", async () => {
+    const remote = await createHarness({ local: false });
+    const { tools } = await remote.client.listTools();
+    await remote.close();
+
+    const names = tools.map((tool) => tool.name);
+    for (const name of [
+      "verify-emails-bulk",
+      "find-emails-bulk",
+      "find-phones-bulk",
+      "import-contacts",
+      "export-campaign-contacts",
+      "switch-profile",
+    ]) {
+      expect(names).not.toContain(name);
+    }
+    expect(names).toContain("verify-email");
+  });
+
+  it("declares an output schema for every tool", async () => {
+    const { tools } = await harness.client.listTools();
+
+    tools.forEach((tool) => {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: "object" });
+    });
+  });
+
+  it.each(Object.entries(SAMPLE_ARGS))(
+    "%s requires authentication",
+    async (name, args) => {
+      const result = await harness.call(name, args);
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toBe(
+        "Authentication required. Please use the authenticate tool with your Emelia API key first."
+      );
+      expect(harness.requests).toHaveLength(0);
+    }
+  );
+
+  it("sends the stored API key as a bearer token", async () => {
+    const result = await harness.call("authenticate", { api_key: API_KEY });
+    expect(textOf(result)).toBe(
+      "Successfully authenticated with Emelia. Your API key has been securely stored for this session."
+    );
+
+    await harness.call("get-campaigns");
+
+    expect(harness.lastRequest().headers.authorization).toBe(
+      `Bearer ${API_KEY}`
+    );
+  });
+
+  it("clears the API key on logout", async () => {
+    await harness.authenticate();
+
+    const result = await harness.call("logout");
+    expect(textOf(result)).toBe(
+      "Successfully logged out. Your API key has been cleared."
+    );
+
+    const campaigns = await harness.call("get-campaigns");
+    expect(campaigns.isError).toBe(true);
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("reports an invalid API key as an auth error", async () => {
+    await harness.call("authenticate", { api_key: "wrong-key" });
+
+    const result = await harness.call("get-campaigns");
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Failed to retrieve campaigns data: Invalid API key (HTTP 401) [auth]\nCheck that your Emelia API key is valid, then use the authenticate tool again."
+    );
+  });
+
+  it("rejects switching profiles when none are configured", async () => {
+    const result = await harness.call("switch-profile", {
+      profile: "internal",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "No profiles configured. Add profiles to ~/.config/emelia-mcp/config.json to use this tool."
+    );
+  });
+});
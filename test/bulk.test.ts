@@ -0,0 +1,884 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+describe("bulk tools", () => {
+  let harness: Harness;
+  let dir: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+    dir = await mkdtemp(join(tmpdir(), "emelia-bulk-"));
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeCsv(name: string, lines: string[]): Promise<string> {
+    const path = join(dir, name);
+    await writeFile(path, lines.join("\n") + "\n");
+    return path;
+  }
+
+  it("verify-emails-bulk annotates every row of a CSV file", async () => {
+    const input = await writeCsv("leads.csv", [
+      "Name,E-mail,Company",
+      'Jane Doe,jane.doe@acme.com,"Acme, Inc"',
+      "Invalid Lead,invalid@acme.com,Acme",
+      "Jane Again,Jane.Doe@acme.com,Acme",
+      "No Email,,Acme",
+    ]);
+
+    const result = await harness.call("verify-emails-bulk", {
+      csv_path: input,
+    });
+
+    expect(
+      harness.requests
+        .filter((r) => r.method === "POST")
+        .map((r) => [r.url, r.body])
+    ).toEqual([
+      [`${API_URL}/tools/verify/email`, { email: "jane.doe@acme.com" }],
+      [`${API_URL}/tools/verify/email`, { email: "invalid@acme.com" }],
+    ]);
+    const output = join(dir, "leads.verified.csv");
+    expect(textOf(result)).toBe(
+      [
+        `Verified 2 of 2 email addresses from ${input} (column "E-mail").`,
+        "",
+        "Qualifications:",
+        "- valid: 1",
+        "- invalid: 1",
+        "",
+        "Skipped 1 row without a valid email address.",
+        "",
+        `Annotated CSV written to ${output}`,
+      ].join("\n")
+    );
+    expect(await readFile(output, "utf8")).toBe(
+      [
+        "Name,E-mail,Company,qualification,verification_status",
+        'Jane Doe,jane.doe@acme.com,"Acme, Inc",valid,done',
+        "Invalid Lead,invalid@acme.com,Acme,invalid,done",
+        "Jane Again,Jane.Doe@acme.com,Acme,valid,done",
+        "No Email,,Acme,,skipped",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      emailColumn: "E-mail",
+      contactsCount: 2,
+      contactsProcessed: 2,
+      status: "done",
+      qualifications: { valid: 1, invalid: 1 },
+      output,
+    });
+  });
+
+  it("verify-emails-bulk verifies a list and reports progress", async () => {
+    const progress: number[] = [];
+
+    const result = (await harness.client.callTool(
+      {
+        name: "verify-emails-bulk",
+        arguments: {
+          emails: ["a@acme.com", "b@acme.com", "invalid@acme.com"],
+          concurrency: 2,
+        },
+      },
+      undefined,
+      { onprogress: (notification) => progress.push(notification.progress) }
+    )) as CallToolResult;
+
+    expect(progress).toEqual([1, 2, 3]);
+    expect(textOf(result)).toContain(
+      "Results:\n- a@acme.com: valid\n- b@acme.com: valid\n- invalid@acme.com: invalid"
+    );
+    expect(result.structuredContent).toMatchObject({
+      emailColumn: "email",
+      contactsCount: 3,
+      contactsProcessed: 3,
+      results: [
+        { email: "a@acme.com", jobId: "verify-mock-1", status: "done" },
+        { email: "b@acme.com", jobId: "verify-mock-2", status: "done" },
+        { email: "invalid@acme.com", qualification: "invalid" },
+      ],
+    });
+  });
+
+  it("verify-emails-bulk uses the given email column and output path", async () => {
+    const input = await writeCsv("leads.csv", [
+      "work,personal",
+      "jane.doe@acme.com,jane@home.com",
+    ]);
+    const output = join(dir, "out.csv");
+
+    await harness.call("verify-emails-bulk", {
+      csv_path: input,
+      email_column: "personal",
+      output_path: output,
+    });
+
+    expect(harness.requests[0].body).toEqual({ email: "jane@home.com" });
+    expect(await readFile(output, "utf8")).toBe(
+      "work,personal,qualification,verification_status\njane.doe@acme.com,jane@home.com,valid,done\n"
+    );
+  });
+
+  it("verify-emails-bulk rejects a CSV without an email column", async () => {
+    const input = await writeCsv("leads.csv", ["name,company", "Jane,Acme"]);
+
+    const result = await harness.call("verify-emails-bulk", {
+      csv_path: input,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      `No email column found in ${input}. Pass email_column with one of: name, company`
+    );
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("verify-emails-bulk requires exactly one input", async () => {
+    const result = await harness.call("verify-emails-bulk", {});
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe("Either csv_path or emails must be provided");
+  });
+
+  it("verify-emails-bulk reports failed verifications", async () => {
+    harness.respondWith({ success: false, error: "Out of credits" }, 402);
+
+    const result = await harness.call("verify-emails-bulk", {
+      emails: ["a@acme.com", "b@acme.com"],
+      concurrency: 1,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain(
+      "Failed verifications:\n- a@acme.com: Out of credits\n"
+    );
+    expect(result.structuredContent).toMatchObject({
+      contactsProcessed: 2,
+      results: [
+        { email: "a@acme.com", status: "error" },
+        { email: "b@acme.com", status: "done", qualification: "valid" },
+      ],
+    });
+  });
+
+  it("verify-emails-bulk writes the rows verified before an authentication error", async () => {
+    const input = await writeCsv("leads.csv", [
+      "email",
+      "a@acme.com",
+      "b@acme.com",
+    ]);
+    harness.respondWith({ success: false, error: "Invalid API key" }, 401);
+
+    const result = await harness.call("verify-emails-bulk", {
+      csv_path: input,
+      concurrency: 1,
+    });
+
+    const output = join(dir, "leads.verified.csv");
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to start email verification: Invalid API key \(HTTP 401\) \[auth\]/
+    );
+    expect(textOf(result)).toContain(
+      `The results of the run so far were written to ${output}.`
+    );
+    expect(harness.requests).toHaveLength(1);
+    expect(await readFile(output, "utf8")).toBe(
+      [
+        "email,qualification,verification_status",
+        "a@acme.com,,error",
+        "b@acme.com,,not_started",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("verify-emails-bulk stops waiting for its jobs after an authentication error", async () => {
+    const input = await writeCsv("leads.csv", [
+      "email",
+      "a@acme.com",
+      "b@acme.com",
+    ]);
+    harness.mock.state.emailVerifications.push({
+      _id: "verify-a",
+      email: "a@acme.com",
+      qualification: "valid",
+      status: "running",
+      date: new Date().toISOString(),
+      pollsLeft: Infinity,
+    });
+    harness.respondWith({ success: true, jobId: "verify-a" });
+    harness.respondWith({ success: false, error: "Invalid API key" }, 401);
+
+    const result = await harness.call("verify-emails-bulk", {
+      csv_path: input,
+      concurrency: 2,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(await readFile(join(dir, "leads.verified.csv"), "utf8")).toBe(
+      [
+        "email,qualification,verification_status",
+        "a@acme.com,,running",
+        "b@acme.com,,error",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("find-emails-bulk enriches a CSV file and reports the rows without an email", async () => {
+    const input = await writeCsv("prospects.csv", [
+      "First Name,Last Name,Company,Website,Country",
+      "Jane,Doe,Acme,https://www.acme.io/about,fr",
+      "Unknown,Person,Acme,,FR",
+      "John,Smith,,,US",
+      "Jane,Doe,Acme,https://www.acme.io/about,FR",
+    ]);
+
+    const result = await harness.call("find-emails-bulk", {
+      csv_path: input,
+    });
+
+    expect(
+      harness.requests.filter((r) => r.method === "POST").map((r) => r.body)
+    ).toEqual([
+      {
+        fullname: "Jane Doe",
+        companyName: "Acme",
+        companyWebsite: "https://www.acme.io/about",
+        country: "FR",
+      },
+      { fullname: "Unknown Person", companyName: "Acme", country: "FR" },
+    ]);
+    const output = join(dir, "prospects.enriched.csv");
+    const failures = join(dir, "prospects.failed.csv");
+    expect(textOf(result)).toBe(
+      [
+        `Searched 2 of 2 prospects from ${input}: 1 email found.`,
+        'Columns: first_name "First Name", last_name "Last Name", company_name "Company", company_website "Website", country "Country"',
+        "",
+        `Rows without an email (2), written to ${failures}:`,
+        "- Row 3 (Unknown Person, Acme): No email found",
+        "- Row 4 (John Smith): Missing company name",
+        "",
+        `Enriched CSV written to ${output}`,
+      ].join("\n")
+    );
+    expect(await readFile(output, "utf8")).toBe(
+      [
+        "First Name,Last Name,Company,Website,Country,found_email,qualification,finder_status",
+        "Jane,Doe,Acme,https://www.acme.io/about,fr,jane.doe@acme.io,valid,done",
+        "Unknown,Person,Acme,,FR,,not_found,done",
+        "John,Smith,,,US,,,skipped",
+        "Jane,Doe,Acme,https://www.acme.io/about,FR,jane.doe@acme.io,valid,done",
+        "",
+      ].join("\n")
+    );
+    expect(await readFile(failures, "utf8")).toBe(
+      [
+        "First Name,Last Name,Company,Website,Country,failure_reason",
+        "Unknown,Person,Acme,,FR,No email found",
+        "John,Smith,,,US,Missing company name",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      columns: {
+        first_name: "First Name",
+        last_name: "Last Name",
+        company_name: "Company",
+        company_website: "Website",
+        country: "Country",
+      },
+      contactsCount: 2,
+      contactsProcessed: 2,
+      contactsFound: 1,
+      contactsFailed: 2,
+      status: "done",
+      output,
+      failures,
+      state: join(dir, "prospects.find-emails.json"),
+    });
+  });
+
+  it("find-emails-bulk resumes the jobs of a previous run", async () => {
+    const input = await writeCsv("prospects.csv", [
+      "name,company",
+      "Jane Doe,Acme",
+      "John Smith,Globex",
+      "Ada Lovelace,Initech",
+    ]);
+    await harness.call("find-email", {
+      fullname: "John Smith",
+      company_name: "Globex",
+      country: "US",
+    });
+    const state = join(dir, "prospects.find-emails.json");
+    await writeFile(
+      state,
+      JSON.stringify({
+        jobs: {
+          "jane doe|acme||": {
+            jobId: "find-email-old",
+            job: {
+              email: "jane@acme.com",
+              qualification: "valid",
+              status: "done",
+            },
+          },
+          "john smith|globex||": { jobId: "find-email-mock-1" },
+        },
+      })
+    );
+    harness.requests.length = 0;
+
+    const result = await harness.call("find-emails-bulk", {
+      csv_path: input,
+      concurrency: 1,
+    });
+
+    expect(harness.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      `GET ${API_URL}/tools/find/email/find-email-mock-1`,
+      `POST ${API_URL}/tools/find/email`,
+      `GET ${API_URL}/tools/find/email/find-email-mock-2`,
+    ]);
+    expect(textOf(result)).toContain(
+      "Searched 3 of 3 prospects from " +
+        input +
+        ": 3 emails found.\n2 prospects were resumed from a previous run.\n"
+    );
+    expect(
+      await readFile(join(dir, "prospects.enriched.csv"), "utf8")
+    ).toContain("Jane Doe,Acme,jane@acme.com,valid,done\n");
+    expect(JSON.parse(await readFile(state, "utf8")).jobs).toMatchObject({
+      "john smith|globex||": {
+        jobId: "find-email-mock-1",
+        job: { email: "john.smith@globex.com", status: "done" },
+      },
+      "ada lovelace|initech||": {
+        jobId: "find-email-mock-2",
+        job: { email: "ada.lovelace@initech.com", status: "done" },
+      },
+    });
+
+    const restarted = await harness.call("find-emails-bulk", {
+      csv_path: input,
+      restart: true,
+    });
+    expect(restarted.structuredContent).toMatchObject({ contactsFound: 3 });
+    expect(harness.requests.filter((r) => r.method === "POST")).toHaveLength(4);
+  });
+
+  it("find-emails-bulk keeps its results when the progress cannot be saved", async () => {
+    const input = await writeCsv("prospects.csv", [
+      "name,company",
+      "Jane Doe,Acme",
+      "John Smith,Globex",
+    ]);
+    // A directory where the state file goes makes every save fail
+    await mkdir(join(dir, "prospects.find-emails.json"));
+
+    const result = await harness.call("find-emails-bulk", {
+      csv_path: input,
+      restart: true,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      contactsProcessed: 2,
+      contactsFound: 2,
+    });
+    expect(textOf(result)).toContain(
+      `Failed to write ${join(dir, "prospects.find-emails.json")}: `
+    );
+    expect(
+      await readFile(join(dir, "prospects.enriched.csv"), "utf8")
+    ).toContain("Jane Doe,Acme,jane.doe@acme.com,");
+  });
+
+  it("find-emails-bulk uses the given columns", async () => {
+    const input = await writeCsv("prospects.csv", [
+      "who,employer,name",
+      "Jane Doe,Acme,ignored",
+    ]);
+
+    const result = await harness.call("find-emails-bulk", {
+      csv_path: input,
+      columns: { fullname: "who", company_name: "employer" },
+      default_country: "de",
+    });
+
+    expect(harness.requests[0].body).toEqual({
+      fullname: "Jane Doe",
+      companyName: "Acme",
+      country: "DE",
+    });
+    expect(result.structuredContent).toMatchObject({
+      columns: { fullname: "who", company_name: "employer" },
+    });
+
+    const unknown = await harness.call("find-emails-bulk", {
+      csv_path: input,
+      columns: { fullname: "full name", company_name: "employer" },
+    });
+    expect(unknown.isError).toBe(true);
+    expect(textOf(unknown)).toBe(
+      `Column "full name" not found in ${input}. Available columns: who, employer, name`
+    );
+  });
+
+  it("find-phones-bulk writes E.164 numbers and the hit rate", async () => {
+    const input = await writeCsv("profiles.csv", [
+      "Name,Profile",
+      "Jane Doe,https://www.linkedin.com/in/jane-doe/",
+      "Unknown,https://www.linkedin.com/in/unknown-person",
+      "Jane Again,http://linkedin.com/in/jane-doe?trk=x",
+      "No Profile,https://acme.com",
+    ]);
+
+    const result = await harness.call("find-phones-bulk", {
+      csv_path: input,
+      lookups_per_minute: 600,
+    });
+
+    expect(
+      harness.requests.filter((r) => r.method === "POST").map((r) => r.body)
+    ).toEqual([
+      { linkedinUrl: "https://www.linkedin.com/in/jane-doe/" },
+      { linkedinUrl: "https://www.linkedin.com/in/unknown-person" },
+    ]);
+    const output = join(dir, "profiles.phones.csv");
+    expect(textOf(result)).toBe(
+      [
+        `Looked up 2 of 2 LinkedIn profiles from ${input} (column "Profile"): 1 phone number found, a 50% hit rate.`,
+        "",
+        "Skipped 1 row without a LinkedIn profile URL.",
+        "",
+        `Results written to ${output}`,
+      ].join("\n")
+    );
+    expect(await readFile(output, "utf8")).toBe(
+      [
+        "Name,Profile,phone_number,phone_e164,phone_country,finder_status",
+        "Jane Doe,https://www.linkedin.com/in/jane-doe/,06 12 34 56 78,+33612345678,FR,done",
+        "Unknown,https://www.linkedin.com/in/unknown-person,,,,done",
+        "Jane Again,http://linkedin.com/in/jane-doe?trk=x,06 12 34 56 78,+33612345678,FR,done",
+        "No Profile,https://acme.com,,,,skipped",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      linkedinColumn: "Profile",
+      contactsCount: 2,
+      contactsProcessed: 2,
+      contactsFound: 1,
+      hitRate: 50,
+      status: "done",
+      output,
+    });
+  });
+
+  it("find-phones-bulk spaces out the lookups", async () => {
+    const input = await writeCsv("profiles.csv", [
+      "linkedin",
+      "https://www.linkedin.com/in/a",
+      "https://www.linkedin.com/in/b",
+      "https://www.linkedin.com/in/c",
+    ]);
+    const startedAt = Date.now();
+
+    await harness.call("find-phones-bulk", {
+      csv_path: input,
+      lookups_per_minute: 600,
+    });
+
+    // 100ms between each of the 3 lookups
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+  });
+
+  it("find-phones-bulk starts no lookup once the timeout passed", async () => {
+    const input = await writeCsv("profiles.csv", [
+      "linkedin",
+      "https://www.linkedin.com/in/a",
+      "https://www.linkedin.com/in/b",
+      "https://www.linkedin.com/in/c",
+    ]);
+
+    // The second lookup would start after 2 seconds, past the timeout
+    const result = await harness.call("find-phones-bulk", {
+      csv_path: input,
+      lookups_per_minute: 30,
+      concurrency: 1,
+      timeout_seconds: 1,
+    });
+
+    expect(harness.requests.filter((r) => r.method === "POST")).toHaveLength(1);
+    expect(textOf(result)).toContain(
+      "2 lookups were not finished after 1 seconds, their rows are marked as running or not_started."
+    );
+    const output = await readFile(join(dir, "profiles.phones.csv"), "utf8");
+    expect(output.match(/,not_started\n/g)).toHaveLength(2);
+  });
+
+  it("import-contacts validates, dedupes and adds CSV rows to an email campaign", async () => {
+    const input = await writeCsv("leads.csv", [
+      "Email,First Name,Last Name,Company",
+      "new@lead.com,New,Lead,Lead Inc",
+      "not-an-email,Bad,Row,Acme",
+      ",No,Email,Acme",
+      "NEW@lead.com,New,Again,Lead Inc",
+      "other@lead.com,Other,,",
+    ]);
+
+    const result = await harness.call("import-contacts", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      file_path: input,
+    });
+
+    expect(harness.requests.map((r) => [r.method, r.url, r.body])).toEqual([
+      [
+        "POST",
+        `${API_URL}/emails/campaign/contacts`,
+        {
+          id: "email-campaign-1",
+          contact: {
+            email: "new@lead.com",
+            firstName: "New",
+            lastName: "Lead",
+            Company: "Lead Inc",
+          },
+        },
+      ],
+      [
+        "POST",
+        `${API_URL}/emails/campaign/contacts`,
+        {
+          id: "email-campaign-1",
+          contact: { email: "other@lead.com", firstName: "Other" },
+        },
+      ],
+    ]);
+    expect(textOf(result)).toBe(
+      [
+        `Imported 2 of 2 contacts from ${input} into email campaign email-campaign-1.`,
+        'Columns: email "Email", first_name "First Name", last_name "Last Name"',
+        "Custom fields: Company",
+        "",
+        "Skipped 1 duplicate row.",
+        "",
+        "Rows not imported (2):",
+        '- Row 3: Invalid email address "not-an-email"',
+        "- Row 4: Missing email address",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "email-campaign-1",
+      columns: {
+        email: "Email",
+        first_name: "First Name",
+        last_name: "Last Name",
+      },
+      contactsCount: 2,
+      contactsAdded: 2,
+      contactsFailed: 2,
+      rows: [
+        { row: 2, status: "added", email: "new@lead.com" },
+        {
+          row: 3,
+          status: "invalid",
+          email: "not-an-email",
+          error: 'Invalid email address "not-an-email"',
+        },
+        { row: 4, status: "invalid", error: "Missing email address" },
+        {
+          row: 5,
+          status: "duplicate",
+          email: "NEW@lead.com",
+          error: "Duplicate of row 2",
+        },
+        { row: 6, status: "added", email: "other@lead.com" },
+      ],
+    });
+  });
+
+  it("import-contacts keeps the LinkedIn column of an email campaign as a custom field", async () => {
+    const input = await writeCsv("leads.csv", [
+      "Email,LinkedIn",
+      "new@lead.com,linkedin.com/company/lead-inc",
+    ]);
+
+    const result = await harness.call("import-contacts", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      file_path: input,
+    });
+
+    expect(harness.requests[0].body).toEqual({
+      id: "email-campaign-1",
+      contact: {
+        email: "new@lead.com",
+        LinkedIn: "linkedin.com/company/lead-inc",
+      },
+    });
+    expect(result.structuredContent).toMatchObject({
+      columns: { email: "Email" },
+      contactsAdded: 1,
+      rows: [{ row: 2, status: "added", email: "new@lead.com" }],
+    });
+  });
+
+  it("import-contacts maps JSON fields into an advanced campaign", async () => {
+    const input = join(dir, "leads.json");
+    await writeFile(
+      input,
+      JSON.stringify([
+        {
+          mail: "jane@acme.com",
+          profile: "https://www.linkedin.com/in/jane",
+          org: "Acme",
+          score: 12,
+        },
+        { profile: "https://www.linkedin.com/in/john/", org: "Globex" },
+        { mail: "ada@initech.com", profile: "https://linkedin.com/in/jane" },
+      ])
+    );
+
+    const result = await harness.call("import-contacts", {
+      campaign_type: "advanced",
+      campaign_id: "advanced-campaign-1",
+      file_path: input,
+      columns: { email: "mail", linkedin_url: "profile" },
+      custom_fields: { org: "company" },
+    });
+
+    expect(harness.requests.map((r) => r.body)).toEqual([
+      {
+        id: "advanced-campaign-1",
+        contact: {
+          email: "jane@acme.com",
+          linkedinUrlProfile: "https://www.linkedin.com/in/jane",
+          company: "Acme",
+        },
+      },
+      {
+        id: "advanced-campaign-1",
+        contact: {
+          linkedinUrlProfile: "https://www.linkedin.com/in/john/",
+          company: "Globex",
+        },
+      },
+    ]);
+    expect(result.structuredContent).toMatchObject({
+      contactsAdded: 2,
+      rows: [
+        { row: 1, status: "added", contactId: "advanced-contact-mock-1" },
+        { row: 2, status: "added", contactId: "advanced-contact-mock-2" },
+        { row: 3, status: "duplicate", error: "Duplicate of row 1" },
+      ],
+    });
+  });
+
+  it("import-contacts reports the rows the API rejects", async () => {
+    const input = await writeCsv("leads.csv", [
+      "linkedin",
+      "https://www.linkedin.com/in/a",
+      "https://www.linkedin.com/in/b",
+    ]);
+    harness.respondWith(
+      { success: false, error: "Contact limit reached" },
+      400
+    );
+
+    const result = await harness.call("import-contacts", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+      file_path: input,
+      concurrency: 1,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain(
+      "Imported 1 of 2 contacts from " +
+        input +
+        " into LinkedIn campaign linkedin-campaign-1.\n"
+    );
+    expect(textOf(result)).toContain(
+      "Rows not imported (1):\n- Row 2: Contact limit reached"
+    );
+    expect(harness.lastRequest().body).toEqual({
+      id: "linkedin-campaign-1",
+      contact: { url: "https://www.linkedin.com/in/b" },
+    });
+  });
+
+  it("import-contacts stops at the first authentication error", async () => {
+    const input = await writeCsv("leads.csv", [
+      "email",
+      "a@lead.com",
+      "b@lead.com",
+    ]);
+    harness.respondWith({ success: false, error: "Invalid API key" }, 401);
+
+    const result = await harness.call("import-contacts", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      file_path: input,
+      concurrency: 1,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to add contacts to email campaign: Invalid API key \(HTTP 401\) \[auth\]/
+    );
+    expect(harness.requests).toHaveLength(1);
+  });
+
+  it("export-campaign-contacts walks every page into a CSV file", async () => {
+    const campaign = harness.mock.state.campaigns[0];
+    for (let i = 1; i <= 150; i++) {
+      campaign.contacts.push({
+        email: `lead${i}@acme.com`,
+        status: "SENT",
+        custom: { email: `personal${i}@home.com` },
+      });
+    }
+    const output = join(dir, "contacts.csv");
+    const progress: number[] = [];
+
+    const result = (await harness.client.callTool(
+      {
+        name: "export-campaign-contacts",
+        arguments: {
+          campaign_type: "email",
+          campaign_id: "email-campaign-1",
+          output_path: output,
+        },
+      },
+      undefined,
+      { onprogress: (notification) => progress.push(notification.progress) }
+    )) as CallToolResult;
+
+    expect(harness.requests.map((r) => r.url)).toEqual([
+      `${API_URL}/emails/campaign/contacts?id=email-campaign-1&page=1&perPage=100`,
+      `${API_URL}/emails/campaign/contacts?id=email-campaign-1&page=2&perPage=100`,
+    ]);
+    expect(progress).toEqual([100, 152]);
+    const columns =
+      "email,firstName,lastName,phoneNumber,status,sentiment,interested,mailsSent,lastContacted,lastOpen,lastReplied,company,custom.email";
+    expect(textOf(result)).toBe(
+      `Exported 152 contacts of email campaign email-campaign-1 to ${output} as csv.\nColumns: ${columns.replace(
+        /,/g,
+        ", "
+      )}`
+    );
+    const lines = (await readFile(output, "utf8")).split("\n");
+    expect(lines.slice(0, 3)).toEqual([
+      columns,
+      "jane.doe@acme.com,Jane,Doe,,REPLIED,,,,2025-01-06T09:00:00.000Z,,,Acme,",
+      "john.smith@globex.com,John,Smith,,OPENED,,,,,,,Globex,",
+    ]);
+    expect(lines[152]).toBe(
+      "lead150@acme.com,,,,SENT,,,,,,,,personal150@home.com"
+    );
+    expect(result.structuredContent).toMatchObject({
+      campaignId: "email-campaign-1",
+      format: "csv",
+      output,
+      contactsCount: 152,
+    });
+  });
+
+  it("export-campaign-contacts filters LinkedIn contacts into JSON Lines", async () => {
+    harness.mock.state.linkedinCampaigns[0].contacts.push(
+      {
+        url: "https://www.linkedin.com/in/jane-roe",
+        firstName: "Jane",
+        lastName: "Roe",
+        status: "REPLIED",
+        custom: { company: "Initech" },
+      },
+      {
+        url: "https://www.linkedin.com/in/john-roe",
+        firstName: "John",
+        status: "REPLIED",
+        custom: {},
+      }
+    );
+    const output = join(dir, "replied.jsonl");
+
+    const result = await harness.call("export-campaign-contacts", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+      output_path: output,
+      format: "jsonl",
+      event: "REPLIED",
+      query: "jane",
+    });
+
+    expect(harness.lastRequest().url).toBe(
+      `${API_URL}/linkedin/campaign/contacts?id=linkedin-campaign-1&page=1&perPage=100&event=REPLIED&query=jane`
+    );
+    expect(await readFile(output, "utf8")).toBe(
+      '{"url":"https://www.linkedin.com/in/jane-roe","firstName":"Jane","lastName":"Roe","status":"REPLIED","custom":{"company":"Initech"}}\n'
+    );
+    expect(textOf(result)).toBe(
+      `Exported 1 contact of LinkedIn campaign linkedin-campaign-1 (event REPLIED, query "jane") to ${output} as jsonl.`
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "linkedin-campaign-1",
+      format: "jsonl",
+      output,
+      contactsCount: 1,
+    });
+  });
+
+  it("export-campaign-contacts writes CSV that Excel opens safely", async () => {
+    const [jane, john] = harness.mock.state.campaigns[0].contacts;
+    jane.custom = { note: '=HYPERLINK("http://evil")' };
+    john.custom = { note: "+33 6 12 34 56 78", company: "-Globex" };
+    const output = join(dir, "contacts.csv");
+
+    await harness.call("export-campaign-contacts", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      output_path: output,
+      format: "xlsx-csv",
+    });
+
+    const text = await readFile(output, "utf8");
+    expect(text.startsWith("\uFEFFemail,")).toBe(true);
+    expect(text.split("\r\n")[1]).toBe(
+      `jane.doe@acme.com,Jane,Doe,,REPLIED,,,,2025-01-06T09:00:00.000Z,,,"'=HYPERLINK(""http://evil"")",`
+    );
+    // A phone number is written as is, other text starting with a sign is not
+    expect(text.split("\r\n")[2]).toBe(
+      "john.smith@globex.com,John,Smith,,OPENED,,,,,,,+33 6 12 34 56 78,'-Globex"
+    );
+  });
+
+  it("export-campaign-contacts reports API failures", async () => {
+    const result = await harness.call("export-campaign-contacts", {
+      campaign_type: "advanced",
+      campaign_id: "missing",
+      output_path: join(dir, "contacts.csv"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve campaign contacts: Campaign not found \(HTTP 404\)/
+    );
+  });
+});
@@ -0,0 +1,1784 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+describe("campaign lifecycle tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("start-campaign launches a draft and confirms its status", async () => {
+    const result = await harness.call("start-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-2",
+    });
+
+    expect(harness.requests.map((r) => [r.method, r.url, r.body])).toEqual([
+      ["GET", `${API_URL}/emails/campaigns/email-campaign-2`, undefined],
+      ["POST", `${API_URL}/emails/campaigns/email-campaign-2/start`, {}],
+      ["GET", `${API_URL}/emails/campaigns/email-campaign-2`, undefined],
+    ]);
+    expect(textOf(result)).toBe(
+      'Email campaign "Webinar follow-up" started. Status: RUNNING'
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "email-campaign-2",
+      name: "Webinar follow-up",
+      previousStatus: "DRAFT",
+      status: "RUNNING",
+    });
+  });
+
+  it("start-campaign plans the start of a campaign", async () => {
+    const created = await harness.call("create-linkedin-campaign", {
+      name: "Spring launch",
+    });
+    const { campaignId } = created.structuredContent as { campaignId: string };
+    harness.mock.state.linkedinCampaigns[1].steps = [
+      {
+        stepType: "VISIT",
+        delay: { amount: 0, unit: "DAYS" },
+        versions: [],
+      },
+    ];
+    harness.requests.length = 0;
+
+    const result = await harness.call("start-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: campaignId,
+      planned_start: "2099-03-01T09:00:00+01:00",
+    });
+
+    expect(harness.requests[1]).toMatchObject({
+      url: `${API_URL}/linkedin/campaigns/${campaignId}/start`,
+      body: { plannedStart: "2099-03-01T08:00:00.000Z" },
+    });
+    expect(textOf(result)).toBe(
+      'LinkedIn campaign "Spring launch" started. Status: RUNNING\nPlanned start: 2099-03-01T08:00:00.000Z'
+    );
+    expect(result.structuredContent).toMatchObject({
+      plannedStart: "2099-03-01T08:00:00.000Z",
+    });
+  });
+
+  it("start-campaign rejects a planned start in the past", async () => {
+    const result = await harness.call("start-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-2",
+      planned_start: "2020-01-01T09:00:00Z",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "planned_start must be in the future, got 2020-01-01T09:00:00Z"
+    );
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("pause-campaign and resume-campaign toggle a running campaign", async () => {
+    const paused = await harness.call("pause-campaign", {
+      campaign_type: "advanced",
+      campaign_id: "advanced-campaign-1",
+    });
+    expect(harness.requests[1]).toMatchObject({
+      method: "POST",
+      url: `${API_URL}/advanced/campaigns/advanced-campaign-1/pause`,
+    });
+    expect(textOf(paused)).toBe(
+      'Advanced campaign "Multichannel ABM" paused. Status: PAUSED'
+    );
+
+    const resumed = await harness.call("resume-campaign", {
+      campaign_type: "advanced",
+      campaign_id: "advanced-campaign-1",
+    });
+    expect(textOf(resumed)).toBe(
+      'Advanced campaign "Multichannel ABM" resumed. Status: RUNNING'
+    );
+    expect(resumed.structuredContent).toMatchObject({
+      previousStatus: "PAUSED",
+      status: "RUNNING",
+    });
+  });
+
+  it("archive-campaign refuses a running campaign", async () => {
+    const result = await harness.call("archive-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      'Cannot archive LinkedIn campaign "Founders outreach": its status is RUNNING, and only DRAFT or PAUSED or FINISHED campaigns can be archived.\nPause it with the pause-campaign tool first.'
+    );
+    expect(harness.requests).toHaveLength(1);
+  });
+
+  it("archive-campaign archives a finished campaign", async () => {
+    harness.mock.state.campaigns[0].status = "FINISHED";
+
+    const result = await harness.call("archive-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(textOf(result)).toBe(
+      'Email campaign "Q1 Outbound" archived. Status: ARCHIVED'
+    );
+  });
+
+  it("reports a status the API did not change", async () => {
+    harness.respondWith({
+      success: true,
+      campaign: { name: "Q1 Outbound", status: "RUNNING" },
+    });
+    harness.respondWith({ success: true });
+    harness.respondWith({
+      success: true,
+      campaign: { name: "Q1 Outbound", status: "RUNNING" },
+    });
+
+    const result = await harness.call("pause-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe(
+      'Email campaign "Q1 Outbound" was paused, but its status is still RUNNING. Check it again in a moment.'
+    );
+  });
+
+  it("reports unknown campaigns", async () => {
+    const result = await harness.call("resume-campaign", {
+      campaign_type: "email",
+      campaign_id: "missing",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve campaign: Campaign not found \(HTTP 404\) \[not-found\]/
+    );
+  });
+  it("reports a response without the campaign", async () => {
+    harness.respondWith({ success: true });
+
+    const result = await harness.call("pause-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve campaign: Emelia returned no campaign for email-campaign-1 \[server\]/
+    );
+    expect(harness.requests).toHaveLength(1);
+  });
+});
+
+describe("email campaign sequence tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const stepsOf = (id: string) =>
+    harness.mock.state.campaigns.find((c) => c._id === id)!.steps;
+
+  it("add-campaign-step builds a sequence from an empty campaign", async () => {
+    await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-2",
+      subject: "Thanks for joining, {{firstName}}",
+      message: "<p>Here is the <b>recording</b> of the webinar.</p>",
+      attachments: [{ name: "slides.pdf", url: "https://cdn.test/slides.pdf" }],
+    });
+    const result = await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-2",
+      delay_amount: 1,
+      message: "<p>Any questions?</p>",
+      raw_html: true,
+    });
+
+    expect(harness.requests[1]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/emails/campaigns/email-campaign-2`,
+      body: {
+        steps: [
+          {
+            versions: [
+              {
+                subject: "Thanks for joining, {{firstName}}",
+                message: "<p>Here is the <b>recording</b> of the webinar.</p>",
+                attachments: [
+                  { name: "slides.pdf", url: "https://cdn.test/slides.pdf" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    });
+    expect(stepsOf("email-campaign-2")).toEqual([
+      { versions: [expect.objectContaining({ subject: expect.any(String) })] },
+      {
+        delay: { amount: 1, unit: "DAYS" },
+        versions: [{ message: "<p>Any questions?</p>", rawHtml: true }],
+      },
+    ]);
+    expect(textOf(result)).toBe(
+      [
+        'Step added. Sequence of "Webinar follow-up":',
+        "",
+        "Step 1 (index 0), sent first",
+        '  Version A: subject "Thanks for joining, {{firstName}}", message "Here is the recording of the webinar.", 1 attachment',
+        "",
+        "Step 2 (index 1), sent 1 day after step 1",
+        '  Version A: reply in the same thread, message "Any questions?", raw HTML',
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "email-campaign-2",
+      steps: stepsOf("email-campaign-2"),
+    });
+  });
+
+  it("add-campaign-step requires a subject for the first step and a delay after it", async () => {
+    const noSubject = await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-2",
+      message: "<p>Hello</p>",
+    });
+    expect(noSubject.isError).toBe(true);
+    expect(textOf(noSubject)).toBe(
+      "Version A of step 1 needs a subject: the first email starts the thread that later steps without a subject reply in."
+    );
+
+    const noDelay = await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-1",
+      message: "<p>Last try</p>",
+    });
+    expect(noDelay.isError).toBe(true);
+    expect(textOf(noDelay)).toBe(
+      "Step 3 (index 2) needs a delay: every step after the first is sent a delay after the previous one. Pass delay_amount to set it."
+    );
+
+    const outOfRange = await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-1",
+      position: 5,
+      delay_amount: 2,
+      message: "<p>Last try</p>",
+    });
+    expect(textOf(outOfRange)).toBe(
+      "Cannot add a step at index 5: the sequence has 2 steps, so the last index a step can be added at is 2."
+    );
+    expect(harness.requests.map((r) => r.method)).toEqual([
+      "GET",
+      "GET",
+      "GET",
+    ]);
+  });
+
+  it("add-campaign-step at index 0 gives its delay to the former first step", async () => {
+    await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-1",
+      position: 0,
+      delay_amount: 12,
+      delay_unit: "HOURS",
+      subject: "Before anything else",
+      message: "<p>Intro</p>",
+    });
+
+    expect(stepsOf("email-campaign-1").map((step) => step.delay)).toEqual([
+      undefined,
+      { amount: 12, unit: "HOURS" },
+      { amount: 3, unit: "DAYS" },
+    ]);
+  });
+
+  it("update-campaign-step changes the delay of a step", async () => {
+    const result = await harness.call("update-campaign-step", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+      delay_amount: 30,
+      delay_unit: "MINUTES",
+    });
+
+    expect(stepsOf("email-campaign-1")[1].delay).toEqual({
+      amount: 30,
+      unit: "MINUTES",
+    });
+    expect(textOf(result)).toContain(
+      "Step 2 (index 1), sent 30 minutes after step 1"
+    );
+
+    const first = await harness.call("update-campaign-step", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      delay_amount: 1,
+    });
+    expect(first.isError).toBe(true);
+    expect(textOf(first)).toMatch(/^The first step is sent as soon as/);
+
+    const missing = await harness.call("update-campaign-step", {
+      campaign_id: "email-campaign-1",
+      step: 4,
+      delay_amount: 1,
+    });
+    expect(textOf(missing)).toBe(
+      "The sequence has no step at index 4: its 2 steps have indexes 0 to 1."
+    );
+  });
+
+  it("move-campaign-step swaps the first step delay and checks the new first subject", async () => {
+    stepsOf("email-campaign-1")[1].versions[0].subject = "Following up";
+
+    await harness.call("move-campaign-step", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+      to: 0,
+    });
+
+    expect(stepsOf("email-campaign-1")).toEqual([
+      {
+        versions: [
+          {
+            subject: "Following up",
+            message: "<p>Following up on my last email.</p>",
+          },
+        ],
+      },
+      {
+        delay: { amount: 3, unit: "DAYS" },
+        versions: [
+          {
+            subject: "Quick question, {{firstName}}",
+            message: "<p>Hi {{firstName}}, are you the right person?</p>",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("move-campaign-step refuses to put a reply first", async () => {
+    const result = await harness.call("move-campaign-step", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      to: 1,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(/^Version A of step 1 needs a subject/);
+    expect(harness.requests).toHaveLength(1);
+  });
+
+  it("delete-campaign-step removes a step", async () => {
+    const result = await harness.call("delete-campaign-step", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+    });
+
+    expect(stepsOf("email-campaign-1")).toHaveLength(1);
+    expect(result.structuredContent).toMatchObject({
+      steps: [{ versions: [{ subject: "Quick question, {{firstName}}" }] }],
+    });
+  });
+
+  it("manages the A/B versions of a step", async () => {
+    await harness.call("add-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      subject: "{{firstName}}, a quick idea",
+      message: "<p>Version B</p>",
+    });
+    const updated = await harness.call("update-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      version: 0,
+      disabled: true,
+    });
+
+    expect(stepsOf("email-campaign-1")[0].versions).toEqual([
+      {
+        subject: "Quick question, {{firstName}}",
+        message: "<p>Hi {{firstName}}, are you the right person?</p>",
+        disabled: true,
+      },
+      { subject: "{{firstName}}, a quick idea", message: "<p>Version B</p>" },
+    ]);
+    expect(textOf(updated)).toContain(
+      [
+        "Step 1 (index 0), sent first",
+        '  Version A: subject "Quick question, {{firstName}}", message "Hi {{firstName}}, are you the right person?", disabled',
+        '  Version B: subject "{{firstName}}, a quick idea", message "Version B"',
+      ].join("\n")
+    );
+
+    const lastEnabled = await harness.call("delete-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      version: 1,
+    });
+    expect(lastEnabled.isError).toBe(true);
+    expect(textOf(lastEnabled)).toBe(
+      "Step 1 (index 0) would have no enabled version left. Enable another version, or delete the step with the delete-campaign-step tool."
+    );
+
+    await harness.call("delete-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      version: 0,
+    });
+    expect(stepsOf("email-campaign-1")[0].versions).toEqual([
+      { subject: "{{firstName}}, a quick idea", message: "<p>Version B</p>" },
+    ]);
+  });
+
+  it("update-step-version turns a follow-up into a reply and clears attachments", async () => {
+    stepsOf("email-campaign-1")[1].versions[0] = {
+      subject: "Re: Quick question",
+      message: "<p>Following up</p>",
+      attachments: [{ name: "deck.pdf", url: "https://cdn.test/deck.pdf" }],
+    };
+
+    await harness.call("update-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+      version: 0,
+      subject: "",
+      attachments: [],
+      raw_html: true,
+    });
+
+    expect(stepsOf("email-campaign-1")[1].versions).toEqual([
+      { message: "<p>Following up</p>", rawHtml: true },
+    ]);
+  });
+
+  it("update-step-version needs a change and an existing version", async () => {
+    const nothing = await harness.call("update-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      version: 0,
+    });
+    expect(textOf(nothing)).toBe(
+      "Nothing to update: pass at least one of subject, message, raw_html, attachments or disabled"
+    );
+    expect(harness.requests).toHaveLength(0);
+
+    const missing = await harness.call("update-step-version", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+      version: 1,
+      message: "<p>B</p>",
+    });
+    expect(textOf(missing)).toBe(
+      "Step 2 (index 1) has no version at index 1: its 1 version has indexes 0 to 0."
+    );
+  });
+
+  it("reports API errors when saving the sequence", async () => {
+    harness.respondWith({ success: true, campaign: { steps: [] } });
+    harness.respondWith({ success: false, error: "Campaign is locked" }, 409);
+
+    const result = await harness.call("add-campaign-step", {
+      campaign_id: "email-campaign-2",
+      subject: "Hello",
+      message: "<p>Hi</p>",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to update campaign sequence: Campaign is locked \(HTTP 409\) \[validation\]/
+    );
+  });
+});
+
+describe("email campaign schedule tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const scheduleOf = (id: string) =>
+    harness.mock.state.campaigns.find((c) => c._id === id)!.schedule;
+
+  it("get-campaign-schedule reports a campaign without a schedule", async () => {
+    harness.respondWith({
+      success: true,
+      campaign: { name: "Q1 Outbound", status: "DRAFT", steps: [] },
+    });
+
+    const result = await harness.call("get-campaign-schedule", {
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Emelia returned no schedule for campaign email-campaign-1"
+    );
+  });
+
+  it("get-campaign-schedule describes the sending window", async () => {
+    const result = await harness.call("get-campaign-schedule", {
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(harness.lastRequest().url).toBe(
+      `${API_URL}/emails/campaigns/email-campaign-1`
+    );
+    expect(textOf(result)).toBe(
+      [
+        'Schedule of "Q1 Outbound":',
+        "",
+        "Sends Monday to Friday, from 09:00 to 17:00 Europe/Paris time (8 hours a day).",
+        "Waits 5 to 15 minutes between two emails, so about 48 emails fit in the window: fewer than the daily limit of 100 emails, which will not be reached.",
+        "Emails up to 50 new contacts a day.",
+        "Stops the sequence of a contact who replies.",
+        "Tracks opens and clicks.",
+        "Adds contacts who unsubscribe to the blacklist.",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "email-campaign-1",
+      schedule: scheduleOf("email-campaign-1"),
+    });
+  });
+
+  it("update-campaign-schedule merges the changes into the schedule", async () => {
+    const result = await harness.call("update-campaign-schedule", {
+      campaign_id: "email-campaign-2",
+      time_zone: "america/new_york",
+      days: [6, 1, 3, 0],
+      start: "08:30",
+      end: "11:15",
+      min_interval: 1,
+      max_interval: 2,
+      event_to_stop_mails: ["REPLIED", "CLICKED", "UNSUBSCRIBED"],
+      track_opens: false,
+      track_links: false,
+      bcc: "crm@acme.com",
+    });
+
+    expect(harness.requests[1]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/emails/campaigns/email-campaign-2`,
+      body: {
+        schedule: {
+          dailyContact: 50,
+          dailyLimit: 100,
+          timeZone: "America/New_York",
+          days: [6, 1, 3, 0],
+          start: "08:30",
+          end: "11:15",
+          minInterval: 1,
+          maxInterval: 2,
+        },
+      },
+    });
+    expect(scheduleOf("email-campaign-2")).toMatchObject({
+      timeZone: "America/New_York",
+      bcc: "crm@acme.com",
+      blacklistUnsub: true,
+    });
+    expect(textOf(result)).toBe(
+      [
+        'Schedule of "Webinar follow-up" updated:',
+        "",
+        "Sends Monday, Wednesday, Saturday and Sunday, from 08:30 to 11:15 America/New_York time (2 hours 45 minutes a day).",
+        "Waits 1 to 2 minutes between two emails, so the daily limit of 100 emails is reached before the window ends.",
+        "Emails up to 50 new contacts a day.",
+        "Stops the sequence of a contact who replies, clicks a link or unsubscribes.",
+        "Tracks neither opens nor clicks.",
+        "Adds contacts who unsubscribe to the blacklist.",
+        "Sends a copy of every email to crm@acme.com.",
+      ].join("\n")
+    );
+  });
+
+  it("update-campaign-schedule reports every problem without saving", async () => {
+    const result = await harness.call("update-campaign-schedule", {
+      campaign_id: "email-campaign-1",
+      time_zone: "+01:00",
+      days: [1, 1],
+      start: "18:00",
+      min_interval: 30,
+      daily_contact: 200,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      [
+        "Schedule not updated:",
+        '- "+01:00" is not an IANA time zone. Use a name such as Europe/Paris or America/New_York.',
+        "- The start time (18:00) must be before the end time (17:00).",
+        "- Days must list each day of the week once.",
+        "- The minimum interval (30 minutes) must not be above the maximum interval (15 minutes).",
+        "- The new contacts a day (200) must not be above the daily limit of emails (100), which includes them.",
+      ].join("\n")
+    );
+    expect(harness.requests).toHaveLength(1);
+  });
+
+  it("update-campaign-schedule rejects unknown time zones and malformed times", async () => {
+    const zone = await harness.call("update-campaign-schedule", {
+      campaign_id: "email-campaign-1",
+      time_zone: "Europe/Atlantis",
+    });
+    expect(textOf(zone)).toContain(
+      '"Europe/Atlantis" is not an IANA time zone'
+    );
+
+    await expect(
+      harness.call("update-campaign-schedule", {
+        campaign_id: "email-campaign-1",
+        end: "5pm",
+      })
+    ).rejects.toThrow("Use the 24-hour HH:mm format, e.g. 09:30");
+    expect(harness.requests).toHaveLength(1);
+  });
+});
+
+describe("clone-campaign", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("copies an email campaign into a draft without its contacts", async () => {
+    const source = harness.mock.state.campaigns[0];
+    Object.assign(source.steps[0].versions[0], { _id: "version-1" });
+    source.schedule.timeZone = "America/New_York";
+
+    const result = await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    const copy = harness.mock.state.campaigns[2];
+    expect(harness.requests.map((r) => [r.method, r.url])).toEqual([
+      ["GET", `${API_URL}/emails/campaigns/email-campaign-1`],
+      ["POST", `${API_URL}/emails/campaigns`],
+      ["PATCH", `${API_URL}/emails/campaigns/${copy._id}`],
+      ["GET", `${API_URL}/emails/campaigns/${copy._id}`],
+    ]);
+    expect(harness.requests[1].body).toEqual({ name: "Q1 Outbound (copy)" });
+    expect(copy).toMatchObject({
+      name: "Q1 Outbound (copy)",
+      status: "DRAFT",
+      provider: "provider-1",
+      schedule: { timeZone: "America/New_York" },
+      contacts: [],
+    });
+    expect(copy.steps).toEqual([
+      {
+        versions: [
+          {
+            subject: "Quick question, {{firstName}}",
+            message: "<p>Hi {{firstName}}, are you the right person?</p>",
+          },
+        ],
+      },
+      source.steps[1],
+    ]);
+    expect(textOf(result)).toBe(
+      [
+        `Email campaign "Q1 Outbound" copied to "Q1 Outbound (copy)" (ID: ${copy._id}). Status: DRAFT`,
+        "Steps: 2",
+        "Sender: provider-1",
+        "Contacts not copied",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      sourceId: "email-campaign-1",
+      campaignId: copy._id,
+      name: "Q1 Outbound (copy)",
+      status: "DRAFT",
+      steps: 2,
+    });
+  });
+
+  it("applies a new name, sender and translated texts", async () => {
+    const source = harness.mock.state.campaigns[0];
+    source.useManyProviders = true;
+    source.providersUsed = ["provider-1", "provider-2"];
+
+    await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      name: "Q1 Outbound (FR)",
+      provider_id: "provider-3",
+      step_texts: [
+        {
+          step: 0,
+          subject: "Petite question, {{firstName}}",
+          message:
+            "<p>Bonjour {{firstName}}, êtes-vous la bonne personne ?</p>",
+        },
+        { step: 1, message: "<p>Je reviens vers vous.</p>" },
+      ],
+    });
+
+    const copy = harness.mock.state.campaigns[2];
+    expect(copy).toMatchObject({
+      name: "Q1 Outbound (FR)",
+      provider: "provider-3",
+      useManyProviders: true,
+      providersUsed: ["provider-3", "provider-2"],
+    });
+    expect(copy.steps.map((step) => step.versions[0])).toEqual([
+      {
+        subject: "Petite question, {{firstName}}",
+        message: "<p>Bonjour {{firstName}}, êtes-vous la bonne personne ?</p>",
+      },
+      { message: "<p>Je reviens vers vous.</p>" },
+    ]);
+    expect(source.steps[1].versions[0].message).toBe(
+      "<p>Following up on my last email.</p>"
+    );
+  });
+
+  it("copies the contacts of a LinkedIn campaign to another account", async () => {
+    const source = harness.mock.state.linkedinCampaigns[0];
+    source.contacts[0].custom = { company: "Acme" };
+    source.contacts.push({
+      url: "https://www.linkedin.com/in/john-smith",
+      firstName: "John",
+      status: "INVITED",
+      custom: {},
+    });
+    source.contacts.push({
+      url: "https://www.linkedin.com/in/grace-hopper",
+      firstName: "Grace",
+      lastName: "Hopper",
+      custom: {},
+    });
+    source.lists = ["linkedin-list-1"];
+
+    const result = await harness.call("clone-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+      include_recipients: true,
+      linkedin_account_id: "linkedin-account-2",
+    });
+
+    const copy = harness.mock.state.linkedinCampaigns[1];
+    expect(copy).toMatchObject({
+      status: "DRAFT",
+      account: "linkedin-account-2",
+      steps: source.steps,
+      lists: ["linkedin-list-1"],
+    });
+    expect(copy.contacts).toEqual([
+      {
+        url: "https://www.linkedin.com/in/jane-doe",
+        firstName: "Jane",
+        lastName: "Doe",
+        custom: { company: "Acme" },
+      },
+      {
+        url: "https://www.linkedin.com/in/john-smith",
+        firstName: "John",
+        custom: {},
+      },
+    ]);
+    expect(harness.requests[3].url).toBe(
+      `${API_URL}/linkedin/campaign/contacts?id=linkedin-campaign-1&page=1&perPage=100`
+    );
+    expect(harness.requests[4].url).toBe(
+      `${API_URL}/linkedin/lists/linkedin-list-1/contacts?page=1&perPage=100`
+    );
+    expect(textOf(result)).toContain(
+      [
+        "LinkedIn account: linkedin-account-2",
+        "Contact lists copied: linkedin-list-1",
+        "Contacts copied: 2, already in the contact lists: 1",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toMatchObject({
+      contactLists: ["linkedin-list-1"],
+      contactsCopied: 2,
+      contactsInLists: 1,
+      contactsFailed: [],
+    });
+  });
+
+  it("skips the list members of an advanced campaign by email or LinkedIn URL", async () => {
+    const source = harness.mock.state.advancedCampaigns[0];
+    source.contacts.push(
+      {
+        id: "advanced-contact-2",
+        linkedinUrlProfile: "https://www.linkedin.com/in/grace-hopper",
+        firstName: "Grace",
+        custom: {},
+      },
+      {
+        id: "advanced-contact-3",
+        email: "john.smith@globex.com",
+        firstName: "John",
+        custom: {},
+      }
+    );
+    source.lists = ["advanced-list-1"];
+    harness.mock.state.advancedLists[0].contacts.push(
+      { id: "advanced-list-contact-1", email: "jane.doe@acme.com", custom: {} },
+      {
+        id: "advanced-list-contact-2",
+        linkedinUrlProfile: "https://www.linkedin.com/in/grace-hopper",
+        custom: {},
+      }
+    );
+
+    const result = await harness.call("clone-campaign", {
+      campaign_type: "advanced",
+      campaign_id: "advanced-campaign-1",
+      include_recipients: true,
+    });
+
+    const copy = harness.mock.state.advancedCampaigns[1];
+    expect(copy.lists).toEqual(["advanced-list-1"]);
+    expect(copy.contacts.map((c) => c.email)).toEqual([
+      "john.smith@globex.com",
+    ]);
+    expect(harness.requests[4].url).toBe(
+      `${API_URL}/advanced/lists/advanced-list-1/contacts?page=1&perPage=100`
+    );
+    expect(result.structuredContent).toMatchObject({
+      contactLists: ["advanced-list-1"],
+      contactsCopied: 1,
+      contactsInLists: 2,
+      contactsFailed: [],
+    });
+  });
+
+  it("reports the contacts it could not copy", async () => {
+    harness.mock.state.campaigns[0].contacts.push({
+      email: "",
+      firstName: "No",
+      lastName: "Email",
+      custom: {},
+    });
+
+    const result = await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      include_recipients: true,
+    });
+
+    expect(
+      harness.mock.state.campaigns[2].contacts.map((c) => [c.email, c.custom])
+    ).toEqual([
+      ["jane.doe@acme.com", { company: "Acme" }],
+      ["john.smith@globex.com", { company: "Globex" }],
+    ]);
+    expect(textOf(result)).toContain(
+      "Contacts copied: 2, failed: 1\n- No Email: Contact email is required"
+    );
+    expect(result.structuredContent).toMatchObject({
+      contactsCopied: 2,
+      contactsFailed: [
+        { contact: "No Email", error: "Contact email is required" },
+      ],
+    });
+  });
+
+  it("checks the overrides before creating anything", async () => {
+    const sender = await harness.call("clone-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+      provider_id: "provider-2",
+    });
+    expect(textOf(sender)).toMatch(
+      /^provider_id applies to email and advanced/
+    );
+
+    const subject = await harness.call("clone-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+      step_texts: [{ step: 0, subject: "Hi" }],
+    });
+    expect(textOf(subject)).toBe(
+      "LinkedIn steps have no subject, only a message."
+    );
+
+    const missing = await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      step_texts: [{ step: 0, version: 1, message: "<p>B</p>" }],
+    });
+    expect(textOf(missing)).toBe(
+      "Step 1 (index 0) has no version at index 1: its 1 version has indexes 0 to 0."
+    );
+
+    expect(harness.requests.map((r) => r.method)).toEqual(["GET", "GET"]);
+    expect(harness.mock.state.campaigns).toHaveLength(2);
+  });
+
+  it("copies only the configuration of the campaign", async () => {
+    harness.respondWith({
+      success: true,
+      campaign: {
+        _id: "email-campaign-1",
+        name: "Q1 Outbound",
+        status: "RUNNING",
+        provider: "provider-1",
+        steps: [],
+        stats: { sent: 12 },
+        recipients: { lists: ["list-1"], contacts: ["contact-1"] },
+        lastRefreshed: "2024-01-01T00:00:00.000Z",
+      },
+    });
+
+    await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(harness.requests[2].body).toEqual({
+      provider: "provider-1",
+      steps: [],
+    });
+  });
+
+  it("stops when the API does not return the ID of the copy", async () => {
+    harness.respondWith({
+      success: true,
+      campaign: { name: "Q1 Outbound", status: "RUNNING", steps: [] },
+    });
+    harness.respondWith({ success: true });
+
+    const result = await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      'Created the draft "Q1 Outbound (copy)", but Emelia did not return its ID, so the settings of the campaign were not copied into it. Delete or archive the draft before trying again.'
+    );
+    expect(harness.requests.map((r) => r.method)).toEqual(["GET", "POST"]);
+  });
+
+  it("names the draft it created when copying the settings fails", async () => {
+    harness.respondWith({
+      success: true,
+      campaign: { name: "Q1 Outbound", status: "RUNNING", steps: [] },
+    });
+    harness.respondWith({ success: true, campaignId: "email-campaign-9" });
+    harness.respondWith({ success: false, error: "Unknown provider" }, 400);
+
+    const result = await harness.call("clone-campaign", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Created the draft email-campaign-9, but failed to copy the settings of the campaign into it\. Delete or archive the draft before trying again: Unknown provider \(HTTP 400\)/
+    );
+  });
+});
+
+describe("email campaign sender tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+    const { state } = harness.mock;
+    state.providers.push(
+      {
+        _id: "provider-2",
+        senderName: "Sales Team",
+        senderEmail: "hello@emelia.io",
+        emailType: "GOOGLE",
+      },
+      {
+        _id: "provider-3",
+        senderName: "Sales Team",
+        senderEmail: "team@emelia.io",
+        emailType: "OFFICE",
+        disconnected: true,
+      },
+      {
+        _id: "provider-4",
+        senderName: "Sales Team",
+        senderEmail: "old@emelia.io",
+        emailType: "SMTP",
+        disabled: true,
+      }
+    );
+    state.warmups.push({
+      _id: "warmup-2",
+      provider: "provider-2",
+      email: "hello@emelia.io",
+      running: true,
+      startDate: new Date(Date.now() - 3.5 * 24 * 60 * 60 * 1000).toISOString(),
+      emailsSent: 10,
+      emailsReceived: 10,
+      spamCount: 0,
+      score: 60,
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const campaign = () => harness.mock.state.campaigns[0];
+
+  it("attach-campaign-senders adds providers and warns about their health", async () => {
+    const result = await harness.call("attach-campaign-senders", {
+      campaign_id: "email-campaign-1",
+      provider_ids: ["provider-2", "provider-3"],
+    });
+
+    expect(harness.requests.map((r) => [r.method, r.url])).toEqual([
+      ["GET", `${API_URL}/emails/campaigns/email-campaign-1`],
+      ["GET", `${API_URL}/email-providers`],
+      ["GET", `${API_URL}/email-providers/warmup`],
+      ["PATCH", `${API_URL}/emails/campaigns/email-campaign-1`],
+      ["GET", `${API_URL}/emails/campaigns/email-campaign-1`],
+    ]);
+    expect(harness.requests[3].body).toMatchObject({
+      provider: "provider-1",
+      useManyProviders: false,
+      providersUsed: ["provider-1", "provider-2", "provider-3"],
+    });
+    expect(textOf(result)).toBe(
+      [
+        'Senders attached. Senders of "Q1 Outbound":',
+        "",
+        "Main sender: sales@emelia.io",
+        "Rotation: off",
+        "Attached: sales@emelia.io, hello@emelia.io, team@emelia.io",
+      ].join("\n")
+    );
+
+    const rotation = await harness.call("set-sender-rotation", {
+      campaign_id: "email-campaign-1",
+      enabled: true,
+    });
+
+    expect(campaign().useManyProviders).toBe(true);
+    expect(textOf(rotation)).toBe(
+      [
+        'Rotation turned on. Senders of "Q1 Outbound":',
+        "",
+        "Main sender: sales@emelia.io",
+        "Rotation: on, across sales@emelia.io, hello@emelia.io, team@emelia.io",
+        "",
+        "Warnings:",
+        "- hello@emelia.io is still warming up (day 4 of 14): sending a campaign from it now can hurt its reputation.",
+        "- team@emelia.io is disconnected: reconnect it in Emelia before the campaign sends from it.",
+      ].join("\n")
+    );
+    expect(rotation.structuredContent).toMatchObject({
+      provider: "provider-1",
+      useManyProviders: true,
+      providersUsed: ["provider-1", "provider-2", "provider-3"],
+      pins: [],
+    });
+  });
+
+  it("attach-campaign-senders rejects unknown providers", async () => {
+    const result = await harness.call("attach-campaign-senders", {
+      campaign_id: "email-campaign-1",
+      provider_ids: ["provider-9"],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "provider-9 is not one of the email providers of the account. List them with the get-email-providers tool."
+    );
+    expect(harness.requests.map((r) => r.method)).not.toContain("PATCH");
+  });
+
+  it("set-sender-rotation needs two senders", async () => {
+    const result = await harness.call("set-sender-rotation", {
+      campaign_id: "email-campaign-1",
+      enabled: true,
+    });
+
+    expect(textOf(result)).toBe(
+      "Rotation needs at least two senders, and this campaign has 0. Attach more with the attach-campaign-senders tool."
+    );
+  });
+
+  it("pin-version-sender pins an attached provider to a version", async () => {
+    Object.assign(campaign(), {
+      providersUsed: ["provider-1", "provider-4"],
+    });
+
+    const pinned = await harness.call("pin-version-sender", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+      version: 0,
+      provider_id: "provider-4",
+    });
+
+    expect(campaign().steps[1].versions[0].options).toEqual({
+      provider: "provider-4",
+    });
+    expect(textOf(pinned)).toContain(
+      [
+        "Version A of step 2 (index 1) always sends from old@emelia.io",
+        "",
+        "Warnings:",
+        "- old@emelia.io is disabled: the campaign sends nothing from it until it is enabled again.",
+      ].join("\n")
+    );
+    expect(pinned.structuredContent).toMatchObject({
+      pins: [{ step: 1, version: 0, provider: "provider-4" }],
+    });
+
+    const unpinned = await harness.call("pin-version-sender", {
+      campaign_id: "email-campaign-1",
+      step: 1,
+      version: 0,
+    });
+    expect(campaign().steps[1].versions[0].options).toEqual({});
+    expect(unpinned.structuredContent).toMatchObject({
+      pins: [],
+      warnings: [],
+    });
+  });
+
+  it("pin-version-sender only pins senders of the campaign", async () => {
+    const result = await harness.call("pin-version-sender", {
+      campaign_id: "email-campaign-1",
+      step: 0,
+      version: 0,
+      provider_id: "provider-2",
+    });
+
+    expect(textOf(result)).toBe(
+      "provider-2 is not a sender of this campaign. Attach it with the attach-campaign-senders tool first."
+    );
+  });
+
+  it("detach-campaign-senders hands over the main sender and unpins versions", async () => {
+    Object.assign(campaign(), {
+      useManyProviders: true,
+      providersUsed: ["provider-1", "provider-2"],
+    });
+    campaign().steps[0].versions[0].options = { provider: "provider-1" };
+
+    const result = await harness.call("detach-campaign-senders", {
+      campaign_id: "email-campaign-1",
+      provider_ids: ["provider-1"],
+    });
+
+    expect(campaign()).toMatchObject({
+      provider: "provider-2",
+      useManyProviders: false,
+      providersUsed: ["provider-2"],
+    });
+    expect(campaign().steps[0].versions[0].options).toEqual({});
+    expect(textOf(result)).toMatch(
+      /^Senders detached \(the main sender is now hello@emelia\.io, rotation is off with a single sender left\)\. Senders of "Q1 Outbound":\n\nMain sender: hello@emelia\.io\nRotation: off\nAttached: hello@emelia\.io\n\nWarnings:\n- hello@emelia\.io is still warming up/
+    );
+  });
+
+  it("detach-campaign-senders keeps a sender to send from", async () => {
+    const last = await harness.call("detach-campaign-senders", {
+      campaign_id: "email-campaign-1",
+      provider_ids: ["provider-1"],
+    });
+    expect(textOf(last)).toBe(
+      "Cannot detach every sender: the campaign needs one to send from. Attach another sender first."
+    );
+
+    const other = await harness.call("detach-campaign-senders", {
+      campaign_id: "email-campaign-1",
+      provider_ids: ["provider-3"],
+    });
+    expect(textOf(other)).toBe(
+      "provider-3 is not a sender of this campaign, whose senders are provider-1."
+    );
+  });
+});
+
+describe("set-linkedin-sequence", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+    harness.mock.state.linkedinCampaigns[0].status = "PAUSED";
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const problemsOf = async (args: Record<string, unknown>) => {
+    const result = await harness.call("set-linkedin-sequence", {
+      campaign_id: "linkedin-campaign-1",
+      ...args,
+    });
+    expect(result.isError).toBe(true);
+    return textOf(result).split("\n").slice(1);
+  };
+
+  it("saves a typed sequence with delays and A/B versions", async () => {
+    const result = await harness.call("set-linkedin-sequence", {
+      campaign_id: "linkedin-campaign-1",
+      steps: [
+        { type: "VISIT" },
+        {
+          type: "CONNECTION",
+          delay_amount: 1,
+          versions: [
+            { message: "Hi {{firstName}}, let's connect!" },
+            { message: "Hello {{firstName}}!", disabled: true },
+          ],
+        },
+        {
+          type: "MESSAGE",
+          delay_amount: 12,
+          delay_unit: "HOURS",
+          versions: [{ message: "Thanks for connecting, {{firstName}}." }],
+        },
+        { type: "LIKE", delay_amount: 3 },
+      ],
+    });
+
+    const expected = [
+      {
+        stepType: "VISIT",
+        delay: { amount: 0, unit: "DAYS" },
+        versions: [],
+      },
+      {
+        stepType: "CONNECTION",
+        delay: { amount: 1, unit: "DAYS" },
+        versions: [
+          { message: "Hi {{firstName}}, let's connect!" },
+          { message: "Hello {{firstName}}!", disabled: true },
+        ],
+      },
+      {
+        stepType: "MESSAGE",
+        delay: { amount: 12, unit: "HOURS" },
+        versions: [{ message: "Thanks for connecting, {{firstName}}." }],
+      },
+      {
+        stepType: "LIKE",
+        delay: { amount: 3, unit: "DAYS" },
+        versions: [],
+      },
+    ];
+    expect(harness.requests[1]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/linkedin/campaigns/linkedin-campaign-1`,
+      body: { steps: expected },
+    });
+    expect(harness.mock.state.linkedinCampaigns[0].steps).toEqual(expected);
+    expect(textOf(result)).toBe(
+      [
+        'Sequence of "Founders outreach" saved:',
+        "",
+        "Step 1 (index 0), VISIT: visit the profile, as soon as the contact joins the campaign",
+        "",
+        "Step 2 (index 1), CONNECTION: send a connection request, 1 day after step 1",
+        '  Version A: "Hi {{firstName}}, let\'s connect!" (32 characters)',
+        '  Version B: "Hello {{firstName}}!" (20 characters), disabled',
+        "",
+        "Step 3 (index 2), MESSAGE: send a message, 12 hours after step 2",
+        '  Version A: "Thanks for connecting, {{firstName}}." (37 characters)',
+        "",
+        "Step 4 (index 3), LIKE: like a recent post, 3 days after step 3",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "linkedin-campaign-1",
+      steps: expected,
+    });
+  });
+
+  it("enforces the length limits and text of each step type", async () => {
+    expect(
+      await problemsOf({
+        steps: [
+          { type: "VISIT", versions: [{ message: "Hi" }] },
+          { type: "CONNECTION", versions: [{ message: "x".repeat(301) }] },
+          { type: "MESSAGE", versions: [{ message: "Hi", disabled: true }] },
+          { type: "INMAIL", versions: [{ message: "y".repeat(1901) }] },
+        ],
+      })
+    ).toEqual([
+      "- Step 1 (index 0) is a VISIT step, which sends no text: remove its versions.",
+      "- Version A of step 2 (index 1) is 301 characters long, over the 300 characters LinkedIn allows in a connection note.",
+      "- Step 3 (index 2) is a MESSAGE step and needs at least one enabled version with a message.",
+      "- Version A of step 4 (index 3) is 1901 characters long, over the 1900 characters LinkedIn allows in an InMail.",
+    ]);
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("keeps messages after the connection request", async () => {
+    expect(
+      await problemsOf({
+        steps: [
+          { type: "MESSAGE", versions: [{ message: "Hi" }] },
+          { type: "CONNECTION" },
+          { type: "CONNECTION" },
+        ],
+      })
+    ).toEqual([
+      "- The sequence has 2 CONNECTION steps, but a contact can only be invited once.",
+      "- Step 1 (index 0) sends a MESSAGE before the CONNECTION step 2 (index 1): LinkedIn only delivers messages to 1st-degree connections, so invite contacts first.",
+    ]);
+
+    expect(
+      await problemsOf({
+        steps: [{ type: "MESSAGE", versions: [{ message: "Hi" }] }],
+      })
+    ).toEqual([
+      "- Step 1 (index 0) sends a MESSAGE, but the sequence has no CONNECTION step: LinkedIn only delivers messages to 1st-degree connections. Add a CONNECTION step before it, or set first_degree_only if every contact is already a connection.",
+    ]);
+  });
+
+  it("refuses to change the sequence of a running campaign", async () => {
+    harness.mock.state.linkedinCampaigns[0].status = "RUNNING";
+
+    const result = await harness.call("set-linkedin-sequence", {
+      campaign_id: "linkedin-campaign-1",
+      steps: [{ type: "VISIT" }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Campaign linkedin-campaign-1 is RUNNING: only the sequence of a paused or draft campaign can change. Pause it with the pause-campaign tool first."
+    );
+    expect(harness.requests.map((r) => r.method)).toEqual(["GET"]);
+  });
+
+  it("lets 1st-degree connections be messaged without a connection request", async () => {
+    const result = await harness.call("set-linkedin-sequence", {
+      campaign_id: "linkedin-campaign-1",
+      first_degree_only: true,
+      steps: [{ type: "MESSAGE", versions: [{ message: "Hi again!" }] }],
+    });
+    expect(result.isError).toBeFalsy();
+
+    expect(
+      await problemsOf({
+        first_degree_only: true,
+        steps: [{ type: "CONNECTION" }],
+      })
+    ).toEqual([
+      "- Step 1 (index 0) sends a connection request, but first_degree_only says every contact is already a connection.",
+    ]);
+  });
+
+  it("start-campaign refuses a LinkedIn sequence that would not run", async () => {
+    const created = await harness.call("create-linkedin-campaign", {
+      name: "Empty",
+    });
+    const { campaignId } = created.structuredContent as { campaignId: string };
+
+    const empty = await harness.call("start-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: campaignId,
+    });
+    expect(textOf(empty)).toBe(
+      [
+        'Cannot start LinkedIn campaign "Empty": its sequence would not run on LinkedIn.',
+        "- The sequence has no steps.",
+        "Fix it with the set-linkedin-sequence tool.",
+      ].join("\n")
+    );
+
+    harness.mock.state.linkedinCampaigns[1].steps = [
+      {
+        stepType: "MESSAGE",
+        delay: { amount: 0, unit: "DAYS" },
+        versions: [{ message: "Hi" }],
+      },
+      {
+        stepType: "CONNECTION",
+        delay: { amount: 1, unit: "DAYS" },
+        versions: [],
+      },
+    ];
+    const early = await harness.call("start-campaign", {
+      campaign_type: "linkedin",
+      campaign_id: campaignId,
+    });
+    expect(textOf(early)).toContain(
+      "- Step 1 (index 0) sends a MESSAGE before the CONNECTION step 2 (index 1)"
+    );
+    expect(harness.mock.state.linkedinCampaigns[1].status).toBe("DRAFT");
+  });
+});
+
+describe("LinkedIn campaign schedule tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const campaign = () => harness.mock.state.linkedinCampaigns[0];
+
+  it("get-linkedin-campaign-schedule describes the window, pace and audience", async () => {
+    const result = await harness.call("get-linkedin-campaign-schedule", {
+      campaign_id: "linkedin-campaign-1",
+    });
+
+    expect(harness.lastRequest().url).toBe(
+      `${API_URL}/linkedin/campaigns/linkedin-campaign-1`
+    );
+    expect(textOf(result)).toBe(
+      [
+        'Schedule of "Founders outreach":',
+        "",
+        "Runs Monday to Friday, from 09:00 to 18:00 Europe/Paris time (9 hours a day).",
+        "Starts the sequence for up to 20 new contacts a day: about 40 LinkedIn actions a day with its 2 steps.",
+        "Sends up to 100 connection requests a week.",
+        "Skips no contacts.",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "linkedin-campaign-1",
+      schedule: campaign().schedule,
+      warnings: [],
+    });
+  });
+
+  it("update-linkedin-campaign-schedule reports a campaign without a schedule", async () => {
+    harness.respondWith({
+      success: true,
+      campaign: { name: "Founders outreach", status: "DRAFT", steps: [] },
+    });
+
+    const result = await harness.call("update-linkedin-campaign-schedule", {
+      campaign_id: "linkedin-campaign-1",
+      daily_contact: 10,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Emelia returned no schedule for campaign linkedin-campaign-1"
+    );
+    expect(harness.requests.map((r) => r.method)).toEqual(["GET"]);
+  });
+
+  it("get-linkedin-campaign-schedule warns about limits past the ceilings", async () => {
+    campaign().schedule.dailyContact = 60;
+
+    const result = await harness.call("get-linkedin-campaign-schedule", {
+      campaign_id: "linkedin-campaign-1",
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      warnings: [
+        "60 new contacts a day is above the safety ceiling of 50: LinkedIn restricts accounts that act at this pace.",
+        "60 connection requests a day on 5 days makes 300 a week, above the safety ceiling of 100. Lower daily_contact to 20 or less, or send on fewer days.",
+      ],
+    });
+    expect(textOf(result)).toContain("\n\nWarnings:\n- 60 new contacts a day");
+  });
+
+  it("update-linkedin-campaign-schedule saves the window and exclusions", async () => {
+    const result = await harness.call("update-linkedin-campaign-schedule", {
+      campaign_id: "linkedin-campaign-1",
+      time_zone: "Europe/London",
+      days: [1, 2, 3, 4],
+      start: "08:00",
+      end: "12:30",
+      daily_contact: 25,
+      exclude_first_degree: true,
+      exclude_no_picture: true,
+    });
+
+    expect(harness.requests[1]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/linkedin/campaigns/linkedin-campaign-1`,
+      body: {
+        schedule: {
+          dailyContact: 25,
+          timeZone: "Europe/London",
+          days: [1, 2, 3, 4],
+          start: "08:00",
+          end: "12:30",
+          exclude1stConn: true,
+          excludeNoPictures: true,
+        },
+      },
+    });
+    expect(campaign().schedule).toEqual({
+      dailyContact: 25,
+      timeZone: "Europe/London",
+      days: [1, 2, 3, 4],
+      start: "08:00",
+      end: "12:30",
+      exclude1stConn: true,
+      excludeNoPictures: true,
+    });
+    expect(textOf(result)).toBe(
+      [
+        'Schedule of "Founders outreach" updated:',
+        "",
+        "Runs Monday to Thursday, from 08:00 to 12:30 Europe/London time (4 hours 30 minutes a day).",
+        "Starts the sequence for up to 25 new contacts a day: about 50 LinkedIn actions a day with its 2 steps.",
+        "Sends up to 100 connection requests a week.",
+        "Skips 1st-degree connections and profiles without a picture.",
+      ].join("\n")
+    );
+  });
+
+  it("update-linkedin-campaign-schedule refuses limits past the safety ceilings", async () => {
+    campaign().steps.push(
+      ...["VISIT", "LIKE", "FOLLOW"].map((stepType) => ({
+        stepType: stepType as "VISIT",
+        delay: { amount: 1, unit: "DAYS" as const },
+        versions: [],
+      }))
+    );
+
+    const result = await harness.call("update-linkedin-campaign-schedule", {
+      campaign_id: "linkedin-campaign-1",
+      daily_contact: 40,
+      end: "08:00",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      [
+        "Schedule not updated:",
+        "- The start time (09:00) must be before the end time (08:00).",
+        "- 40 new contacts a day with 5 steps makes about 200 LinkedIn actions a day, above the safety ceiling of 150. Lower daily_contact to 30 or less.",
+        "- 40 connection requests a day on 5 days makes 200 a week, above the safety ceiling of 100. Lower daily_contact to 20 or less, or send on fewer days.",
+      ].join("\n")
+    );
+    expect(harness.requests).toHaveLength(1);
+  });
+
+  it("update-linkedin-campaign-schedule keeps messages deliverable", async () => {
+    campaign().steps = campaign().steps.filter(
+      (step) => step.stepType === "MESSAGE"
+    );
+
+    const result = await harness.call("update-linkedin-campaign-schedule", {
+      campaign_id: "linkedin-campaign-1",
+      exclude_first_degree: true,
+    });
+
+    expect(textOf(result)).toBe(
+      "Schedule not updated:\n- Excluding 1st-degree connections leaves only contacts who are not connections, and the sequence messages them without a CONNECTION step, so no message would be delivered."
+    );
+  });
+});
+
+describe("LinkedIn account tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+    harness.mock.state.linkedinAccounts.push({
+      _id: "linkedin-account-2",
+      name: "Sam Lee",
+      token: "li_at-expired",
+      status: "invalid",
+      metadata: { id: "ACoAAB5678", fullName: "Sam Lee" },
+      hasAdvanced: true,
+      proxy: { host: "10.0.0.1", port: 8080, password: "secret" },
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    harness.mock.state.linkedinCampaigns.push({
+      ...campaign(),
+      _id: "linkedin-campaign-2",
+      name: "Agencies outreach",
+      account: "linkedin-account-2",
+      assignedSender: "ACoAAB5678",
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const campaign = () => harness.mock.state.linkedinCampaigns[0];
+
+  it("get-linkedin-accounts lists accounts with their health and campaigns", async () => {
+    const result = await harness.call("get-linkedin-accounts", {});
+
+    expect(harness.requests.map((r) => [r.method, r.url])).toEqual([
+      ["GET", `${API_URL}/linkedin/accounts`],
+      ["GET", `${API_URL}/linkedin/campaigns`],
+    ]);
+    expect(textOf(result)).toBe(
+      [
+        "LinkedIn Accounts:",
+        "",
+        "Account: Alex Martin (linkedin-account-1)",
+        "Status: Valid cookie",
+        "Subscriptions: Premium",
+        "Proxy: -",
+        'Campaigns: "Founders outreach" (linkedin-campaign-1, RUNNING)',
+        "---",
+        "Account: Sam Lee (linkedin-account-2)",
+        "Status: Invalid cookie",
+        "Subscriptions: Advanced",
+        "Proxy: 10.0.0.1:8080",
+        'Campaigns: "Agencies outreach" (linkedin-campaign-2, RUNNING)',
+        "---",
+        "",
+        "Warnings:",
+        '- Sam Lee has an invalid cookie: reconnect it in Emelia, meanwhile "Agencies outreach" takes no action.',
+      ].join("\n")
+    );
+    expect(JSON.stringify(result.structuredContent)).not.toMatch(
+      /li_at|secret/
+    );
+  });
+
+  it("get-linkedin-accounts never returns cookies or proxy credentials", async () => {
+    harness.respondWith({
+      success: true,
+      accounts: [
+        {
+          _id: "linkedin-account-1",
+          name: "Alex Martin",
+          token: "li_at-raw-cookie",
+          li_a: "li_a-raw-cookie",
+          jsessionid: "ajax:raw-session",
+          ua: "Mozilla/5.0",
+          status: "valid",
+          metadata: { id: "ACoAAB1234", hasPremium: true },
+          proxy: {
+            host: "10.0.0.2",
+            port: 3128,
+            username: "proxy-user",
+            password: "proxy-pass",
+          },
+        },
+      ],
+    });
+
+    const result = await harness.call("get-linkedin-accounts", {});
+
+    const output = JSON.stringify(result);
+    for (const secret of [
+      "li_at-raw-cookie",
+      "li_a-raw-cookie",
+      "ajax:raw-session",
+      "Mozilla",
+      "proxy-user",
+      "proxy-pass",
+    ]) {
+      expect(output).not.toContain(secret);
+    }
+    expect(result.structuredContent?.accounts).toEqual([
+      {
+        _id: "linkedin-account-1",
+        name: "Alex Martin",
+        status: "valid",
+        metadata: { id: "ACoAAB1234", hasPremium: true },
+        proxy: { host: "10.0.0.2", port: 3128 },
+        campaigns: [
+          {
+            _id: "linkedin-campaign-1",
+            name: "Founders outreach",
+            status: "RUNNING",
+            assignedSender: "ACoAAB1234",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("get-linkedin-accounts flags campaigns acting as another LinkedIn user", async () => {
+    campaign().assignedSender = "ACoAAB9999";
+    harness.mock.state.linkedinAccounts[1].status = "valid";
+
+    const result = await harness.call("get-linkedin-accounts", {});
+
+    expect(result.structuredContent?.warnings).toEqual([
+      '"Founders outreach" was started with LinkedIn user ACoAAB9999, but Alex Martin is LinkedIn user ACoAAB1234.',
+    ]);
+  });
+
+  it("reassign-linkedin-campaign moves a paused campaign to another account", async () => {
+    harness.mock.state.linkedinAccounts[1].status = "valid";
+    const moved = harness.mock.state.linkedinCampaigns[1];
+    moved.status = "PAUSED";
+
+    const result = await harness.call("reassign-linkedin-campaign", {
+      campaign_id: "linkedin-campaign-2",
+      account_id: "linkedin-account-1",
+    });
+
+    expect(harness.requests[3]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/linkedin/campaigns/linkedin-campaign-2`,
+      body: { account: "linkedin-account-1", assignedSender: "ACoAAB1234" },
+    });
+    expect(moved).toMatchObject({
+      account: "linkedin-account-1",
+      assignedSender: "ACoAAB1234",
+      status: "PAUSED",
+    });
+    expect(textOf(result)).toBe(
+      'Campaign "Agencies outreach" moved from Sam Lee to Alex Martin. Status: PAUSED\nUse the resume-campaign tool to restart it.'
+    );
+    expect(result.structuredContent).toEqual({
+      campaignId: "linkedin-campaign-2",
+      previousAccount: "linkedin-account-2",
+      account: "linkedin-account-1",
+      status: "PAUSED",
+    });
+  });
+
+  it("reassign-linkedin-campaign refuses running campaigns and unusable accounts", async () => {
+    const running = await harness.call("reassign-linkedin-campaign", {
+      campaign_id: "linkedin-campaign-1",
+      account_id: "linkedin-account-2",
+    });
+    expect(running.isError).toBe(true);
+    expect(textOf(running)).toBe(
+      "Campaign linkedin-campaign-1 is RUNNING: only a paused or draft campaign can move to another account. Pause it with the pause-campaign tool first."
+    );
+
+    campaign().status = "PAUSED";
+    const invalid = await harness.call("reassign-linkedin-campaign", {
+      campaign_id: "linkedin-campaign-1",
+      account_id: "linkedin-account-2",
+    });
+    expect(textOf(invalid)).toBe(
+      "Sam Lee has an invalid cookie: reconnect it in Emelia before moving a campaign to it."
+    );
+    expect(harness.requests.some((r) => r.method === "PATCH")).toBe(false);
+    expect(campaign().account).toBe("linkedin-account-1");
+  });
+});
@@ -0,0 +1,133 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getProfileNames, loadStartupApiKey } from "../src/config.js";
+import { createHarness, textOf } from "./harness.js";
+
+const PROFILES = {
+  "agency-client-a": { apiKey: "key-client-a" },
+  internal: { apiKey: "key-internal" },
+};
+
+describe("startup credentials", () => {
+  let configHome: string;
+
+  beforeEach(async () => {
+    configHome = await mkdtemp(join(tmpdir(), "emelia-config-"));
+    vi.stubEnv("XDG_CONFIG_HOME", configHome);
+    vi.stubEnv("EMELIA_API_KEY", undefined);
+    vi.stubEnv("EMELIA_PROFILE", undefined);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(configHome, { recursive: true, force: true });
+  });
+
+  async function writeConfig(config: unknown) {
+    await mkdir(join(configHome, "emelia-mcp"), { recursive: true });
+    await writeFile(
+      join(configHome, "emelia-mcp", "config.json"),
+      typeof config === "string" ? config : JSON.stringify(config)
+    );
+  }
+
+  it("starts without a key when nothing provides one", async () => {
+    expect(await loadStartupApiKey()).toBeNull();
+    expect(getProfileNames()).toEqual([]);
+  });
+
+  it("uses EMELIA_API_KEY before any profile", async () => {
+    await writeConfig({ defaultProfile: "internal", profiles: PROFILES });
+    vi.stubEnv("EMELIA_API_KEY", "key-env");
+    vi.stubEnv("EMELIA_PROFILE", "agency-client-a");
+
+    expect(await loadStartupApiKey()).toBe("key-env");
+    expect(getProfileNames()).toEqual(["agency-client-a", "internal"]);
+  });
+
+  it("uses the profile named by EMELIA_PROFILE before the default one", async () => {
+    await writeConfig({ defaultProfile: "internal", profiles: PROFILES });
+    vi.stubEnv("EMELIA_PROFILE", "agency-client-a");
+
+    expect(await loadStartupApiKey()).toBe("key-client-a");
+  });
+
+  it("rejects an EMELIA_PROFILE missing from the config file", async () => {
+    await writeConfig({ profiles: PROFILES });
+    vi.stubEnv("EMELIA_PROFILE", "agency-client-b");
+
+    await expect(loadStartupApiKey()).rejects.toThrow(
+      'EMELIA_PROFILE "agency-client-b" not found. Available profiles: agency-client-a, internal'
+    );
+  });
+
+  it("uses the default profile, or the only one", async () => {
+    await writeConfig({ defaultProfile: "internal", profiles: PROFILES });
+    expect(await loadStartupApiKey()).toBe("key-internal");
+
+    await writeConfig({ profiles: { internal: PROFILES.internal } });
+    expect(await loadStartupApiKey()).toBe("key-internal");
+
+    await writeConfig({ profiles: PROFILES });
+    expect(await loadStartupApiKey()).toBeNull();
+  });
+
+  it("rejects a broken config file", async () => {
+    await writeConfig("{ profiles: ");
+    await expect(loadStartupApiKey()).rejects.toThrow(
+      /^Invalid JSON in config file .*config\.json: /
+    );
+
+    await writeConfig({ profiles: { internal: {} } });
+    await expect(loadStartupApiKey()).rejects.toThrow(
+      /: profile "internal" has no "apiKey"$/
+    );
+
+    await writeConfig({ defaultProfile: "staging", profiles: PROFILES });
+    await expect(loadStartupApiKey()).rejects.toThrow(
+      /: default profile "staging" does not exist$/
+    );
+  });
+
+  it("ignores a broken config file when EMELIA_API_KEY is set", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    await writeConfig("{ profiles: ");
+    vi.stubEnv("EMELIA_API_KEY", "key-env");
+
+    expect(await loadStartupApiKey()).toBe("key-env");
+    expect(getProfileNames()).toEqual([]);
+    expect(logged).toHaveBeenCalledWith(
+      expect.stringMatching(/^Ignoring the config file: Invalid JSON/)
+    );
+  });
+
+  it("switches the key of the session to another profile", async () => {
+    await writeConfig({ defaultProfile: "internal", profiles: PROFILES });
+    await loadStartupApiKey();
+    const harness = await createHarness();
+
+    const switched = await harness.call("switch-profile", {
+      profile: "agency-client-a",
+    });
+    expect(switched.isError).toBeFalsy();
+    expect(textOf(switched)).toBe('Switched to profile "agency-client-a".');
+    expect(switched.structuredContent).toEqual({ profile: "agency-client-a" });
+
+    await harness.call("get-campaigns");
+    expect(harness.lastRequest().headers.authorization).toBe(
+      "Bearer key-client-a"
+    );
+
+    const unknown = await harness.call("switch-profile", {
+      profile: "staging",
+    });
+    expect(unknown.isError).toBe(true);
+    expect(textOf(unknown)).toBe(
+      'Profile "staging" not found. Available profiles: agency-client-a, internal'
+    );
+    await harness.close();
+  });
+});
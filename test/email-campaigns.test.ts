@@ -0,0 +1,342 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+describe("email campaign tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("get-campaigns lists campaigns", async () => {
+    const result = await harness.call("get-campaigns", { status: "RUNNING" });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/campaigns?status=RUNNING`,
+      method: "GET",
+      body: undefined,
+    });
+    expect(textOf(result)).toBe(
+      [
+        "Campaigns list:",
+        "",
+        "Campaign ID: email-campaign-1",
+        "Campaign Name: Q1 Outbound",
+        "Campaign Status: RUNNING",
+        "Campaign Type: Email",
+        "---",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toEqual({
+      campaigns: [
+        {
+          _id: "email-campaign-1",
+          name: "Q1 Outbound",
+          status: "RUNNING",
+          createdAt: "2025-01-06T09:00:00.000Z",
+        },
+      ],
+    });
+  });
+
+  it("get-campaigns reports an empty campaigns array", async () => {
+    harness.respondWith({ success: true, campaigns: [] });
+
+    const result = await harness.call("get-campaigns");
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe("No active campaigns");
+    expect(result.structuredContent).toEqual({ campaigns: [] });
+  });
+
+  it("get-campaigns accepts records with missing or null fields", async () => {
+    harness.respondWith({
+      success: true,
+      campaigns: [{ _id: "email-campaign-9", name: null, status: null }],
+    });
+
+    const result = await harness.call("get-campaigns");
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      campaigns: [{ _id: "email-campaign-9", name: null, status: null }],
+    });
+  });
+
+  it("get-campaigns surfaces success: false responses", async () => {
+    harness.respondWith({ success: false, error: "Account suspended" });
+
+    const result = await harness.call("get-campaigns");
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Failed to retrieve campaigns data: Account suspended [validation]\nCheck the parameters passed to this tool and try again."
+    );
+  });
+
+  it("create-email-campaign posts the name", async () => {
+    const result = await harness.call("create-email-campaign", {
+      name: "Spring launch",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/campaigns`,
+      method: "POST",
+      body: { name: "Spring launch" },
+    });
+    expect(textOf(result)).toBe(
+      'Campaign "Spring launch" created successfully!'
+    );
+  });
+
+  it("add-contact-to-campaign flattens custom fields into the contact", async () => {
+    const result = await harness.call("add-contact-to-campaign", {
+      campaign_id: "email-campaign-1",
+      email: "new@lead.com",
+      first_name: "New",
+      last_name: "Lead",
+      custom_fields: { company: "Lead Inc" },
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/campaign/contacts`,
+      method: "POST",
+      body: {
+        id: "email-campaign-1",
+        contact: {
+          email: "new@lead.com",
+          firstName: "New",
+          lastName: "Lead",
+          company: "Lead Inc",
+        },
+      },
+    });
+    expect(textOf(result)).toBe(
+      "Contact new@lead.com added to campaign successfully!"
+    );
+  });
+
+  it("add-contact-to-campaign reports an unknown campaign", async () => {
+    const result = await harness.call("add-contact-to-campaign", {
+      campaign_id: "missing",
+      email: "new@lead.com",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Failed to add contact to campaign: Campaign not found (HTTP 404) [not-found]\nCheck that the IDs passed to this tool exist in your Emelia account."
+    );
+  });
+
+  it("get-campaign-contacts pages and filters contacts", async () => {
+    const result = await harness.call("get-campaign-contacts", {
+      campaign_id: "email-campaign-1",
+      page: 1,
+      per_page: 5,
+      event: "REPLIED",
+      query: "jane",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/campaign/contacts?id=email-campaign-1&page=1&perPage=5&event=REPLIED&query=jane`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe(
+      "Campaign Contacts (Page 1 of 1, Total: 1):\n\nEmail: jane.doe@acme.com, Name: Jane Doe, Status: REPLIED"
+    );
+    expect(result.structuredContent).toMatchObject({
+      contacts: [
+        {
+          email: "jane.doe@acme.com",
+          firstName: "Jane",
+          lastName: "Doe",
+          status: "REPLIED",
+        },
+      ],
+      page: 1,
+      perPage: 5,
+      total: 1,
+    });
+  });
+
+  it("get-campaign-contacts accepts contacts without an email address", async () => {
+    harness.respondWith({
+      success: true,
+      contacts: [{ firstName: "Jane", email: null, lastName: null }],
+      total: 1,
+    });
+
+    const result = await harness.call("get-campaign-contacts", {
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      contacts: [{ firstName: "Jane", email: null, lastName: null }],
+    });
+  });
+
+  it("get-campaign-contacts reports campaigns without contacts", async () => {
+    const result = await harness.call("get-campaign-contacts", {
+      campaign_id: "email-campaign-2",
+    });
+
+    expect(textOf(result)).toBe("No contacts found for this campaign");
+  });
+
+  it("send-test-email posts the step and version", async () => {
+    const result = await harness.call("send-test-email", {
+      campaign_id: "email-campaign-1",
+      email: "me@emelia.io",
+      step: 1,
+      version: 0,
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/test`,
+      method: "POST",
+      body: {
+        campaignId: "email-campaign-1",
+        email: "me@emelia.io",
+        step: 1,
+        version: 0,
+      },
+    });
+    expect(textOf(result)).toBe(
+      "Test email sent successfully to me@emelia.io!"
+    );
+  });
+
+  it("get-campaign-stats formats global and step statistics", async () => {
+    const result = await harness.call("get-campaign-stats", {
+      campaign_id: "email-campaign-1",
+      detailed: true,
+      start_date: "2025-01-01",
+      end_date: "2025-01-31",
+      provider_id: "provider-1",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/stats?campaignId=email-campaign-1&detailed=true&start=2025-01-01&end=2025-01-31&providerId=provider-1`,
+      method: "GET",
+    });
+    const text = textOf(result);
+    expect(text).toContain(
+      "Campaign Statistics:\n\nGlobal Stats:\n- sent: 120\n"
+    );
+    expect(text).toContain(
+      "\nStep Stats:\n\nStep 1:\n- sent: 100\n- to_send: 200\n"
+    );
+    expect(text).toContain("\nStep 2:\n- sent: 20\n");
+    expect(result.structuredContent).toMatchObject({
+      global: { sent: 120 },
+      steps: [[{ sent: 100, to_send: 200 }], [{ sent: 20 }]],
+    });
+  });
+
+  it("get-campaign-stats splits steps by version and accepts partial stats", async () => {
+    harness.respondWith({
+      global: { sent: 30 },
+      steps: [[{ sent: 20, replied: 2 }, { sent: 10 }]],
+    });
+
+    const result = await harness.call("get-campaign-stats", {
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe(
+      "Campaign Statistics:\n\nGlobal Stats:\n- sent: 30\n\nStep Stats:\n\nStep 1, Version A:\n- sent: 20\n- replied: 2\n\nStep 1, Version B:\n- sent: 10\n"
+    );
+  });
+
+  it("update-contact-field patches the custom field", async () => {
+    const result = await harness.call("update-contact-field", {
+      campaign_id: "email-campaign-1",
+      email: "jane.doe@acme.com",
+      field_name: "company",
+      field_value: "Acme Corp",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/contacts`,
+      method: "PATCH",
+      body: {
+        campaignId: "email-campaign-1",
+        email: "jane.doe@acme.com",
+        fieldName: "company",
+        fieldValue: "Acme Corp",
+      },
+    });
+    expect(textOf(result)).toBe(
+      'Custom field "company" updated to "Acme Corp" for contact with email jane.doe@acme.com'
+    );
+  });
+
+  it("reply-to-email requires a sender", async () => {
+    const result = await harness.call("reply-to-email", {
+      subject: "Re: hello",
+      content: "Thanks",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Either sender_email or provider_id must be provided"
+    );
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("reply-to-email posts the reply", async () => {
+    const result = await harness.call("reply-to-email", {
+      sender_email: "sales@emelia.io",
+      message_id: "<abc@mail>",
+      subject: "Re: hello",
+      content: "Thanks",
+      to: ["jane.doe@acme.com"],
+      attachments: [{ name: "deck.pdf", url: "https://files/deck.pdf" }],
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/reply`,
+      method: "POST",
+      body: {
+        content: "Thanks",
+        subject: "Re: hello",
+        senderEmail: "sales@emelia.io",
+        messageId: "<abc@mail>",
+        to: ["jane.doe@acme.com"],
+        attachments: [{ name: "deck.pdf", url: "https://files/deck.pdf" }],
+      },
+    });
+    expect(textOf(result)).toBe("Successfully sent email reply");
+  });
+
+  it("add-to-blacklist and remove-from-blacklist update the blacklist", async () => {
+    const added = await harness.call("add-to-blacklist", { email: "spam.com" });
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/blacklists/contact`,
+      method: "POST",
+      body: { email: "spam.com" },
+    });
+    expect(textOf(added)).toBe("Successfully added spam.com to the blacklist");
+    expect(harness.mock.state.blacklist).toEqual(["spam.com"]);
+
+    const removed = await harness.call("remove-from-blacklist", {
+      email: "spam.com",
+    });
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/blacklists/contact`,
+      method: "DELETE",
+      body: { email: "spam.com" },
+    });
+    expect(textOf(removed)).toBe(
+      "Successfully removed spam.com from the blacklist"
+    );
+    expect(harness.mock.state.blacklist).toEqual([]);
+  });
+});
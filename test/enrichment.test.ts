@@ -0,0 +1,326 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { configureEmeliaRequests } from "../src/helpers.js";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+// Drop the locale-dependent date line of job status outputs
+function withoutDate(text: string): string {
+  return text.replace(/^Date: .*\n/m, "");
+}
+
+describe("enrichment tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("verify-email starts a verification job", async () => {
+    const result = await harness.call("verify-email", {
+      email: "jane.doe@acme.com",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/tools/verify/email`,
+      method: "POST",
+      body: { email: "jane.doe@acme.com" },
+    });
+    expect(textOf(result)).toBe(
+      "Email verification job started for jane.doe@acme.com. Job ID: verify-mock-1\nUse the check-email-verification tool with this job ID to get the results."
+    );
+  });
+
+  it("verify-email accepts a response without a job ID", async () => {
+    harness.respondWith({ success: true });
+
+    const result = await harness.call("verify-email", {
+      email: "jane.doe@acme.com",
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({ email: "jane.doe@acme.com" });
+  });
+
+  it("check-email-verification reports the result", async () => {
+    await harness.call("verify-email", { email: "invalid@acme.com" });
+
+    const result = await harness.call("check-email-verification", {
+      job_id: "verify-mock-1",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/tools/verify/email/verify-mock-1`,
+      method: "GET",
+    });
+    expect(withoutDate(textOf(result))).toBe(
+      "Email Verification Status for invalid@acme.com:\nStatus: done\nResult: Invalid email ✗\n"
+    );
+    expect(result.structuredContent).toMatchObject({
+      job: {
+        email: "invalid@acme.com",
+        qualification: "invalid",
+        status: "done",
+      },
+    });
+  });
+
+  it("check-email-verification reports running jobs", async () => {
+    harness.respondWith({
+      success: true,
+      data: { email: "jane.doe@acme.com", status: "running" },
+    });
+
+    const result = await harness.call("check-email-verification", {
+      job_id: "verify-mock-1",
+    });
+
+    expect(textOf(result)).toBe(
+      "Email Verification Status for jane.doe@acme.com:\nStatus: running\nThe verification is still in progress. Please check again later.\n"
+    );
+  });
+
+  it("check-email-verification reports unknown jobs", async () => {
+    const result = await harness.call("check-email-verification", {
+      job_id: "missing",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve verification status: Job not found \(HTTP 404\) \[not-found\]\n/
+    );
+  });
+
+  it("check-email-verification reports a response without job data", async () => {
+    harness.respondWith({ success: true });
+
+    const result = await harness.call("check-email-verification", {
+      job_id: "verify-email-mock-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Failed to retrieve verification status: Emelia returned no data for job verify-email-mock-1"
+    );
+  });
+
+  it("find-email starts a finder job", async () => {
+    const result = await harness.call("find-email", {
+      fullname: "Jane Doe",
+      company_name: "Acme",
+      company_website: "https://acme.com",
+      country: "FR",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/tools/find/email`,
+      method: "POST",
+      body: {
+        fullname: "Jane Doe",
+        companyName: "Acme",
+        companyWebsite: "https://acme.com",
+        country: "FR",
+      },
+    });
+    expect(textOf(result)).toBe(
+      "Email finder job started for Jane Doe at Acme. Job ID: find-email-mock-1\nUse the check-email-finder tool with this job ID to get the results."
+    );
+  });
+
+  it("check-email-finder reports the found email", async () => {
+    await harness.call("find-email", {
+      fullname: "Jane Doe",
+      company_name: "Acme",
+      country: "FR",
+    });
+
+    const result = await harness.call("check-email-finder", {
+      job_id: "find-email-mock-1",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/tools/find/email/find-email-mock-1`,
+      method: "GET",
+    });
+    expect(withoutDate(textOf(result))).toBe(
+      "Email Finder Status for Jane Doe at Acme:\nStatus: done\nEmail: jane.doe@acme.com\nQualification: Valid email ✓\n"
+    );
+  });
+
+  it("find-phone starts a finder job", async () => {
+    const result = await harness.call("find-phone", {
+      linkedin_url: "https://www.linkedin.com/in/jane-doe",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/tools/find/phone`,
+      method: "POST",
+      body: { linkedinUrl: "https://www.linkedin.com/in/jane-doe" },
+    });
+    expect(textOf(result)).toBe(
+      "Phone finder job started for LinkedIn profile: https://www.linkedin.com/in/jane-doe. Job ID: find-phone-mock-1\nUse the check-phone-finder tool with this job ID to get the results."
+    );
+  });
+
+  it("check-phone-finder reports the phone number", async () => {
+    await harness.call("find-phone", {
+      linkedin_url: "https://www.linkedin.com/in/jane-doe",
+    });
+
+    const result = await harness.call("check-phone-finder", {
+      job_id: "find-phone-mock-1",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/tools/find/phone/find-phone-mock-1`,
+      method: "GET",
+    });
+    expect(withoutDate(textOf(result))).toBe(
+      "Phone Finder Status for LinkedIn profile: https://www.linkedin.com/in/jane-doe:\nStatus: done\nPhone Number: 06 12 34 56 78\nCountry: FR\nResult: Phone found ✓\n"
+    );
+  });
+
+  it("check-phone-finder reports missing numbers", async () => {
+    await harness.call("find-phone", {
+      linkedin_url: "https://www.linkedin.com/in/unknown-person",
+    });
+
+    const result = await harness.call("check-phone-finder", {
+      job_id: "find-phone-mock-1",
+    });
+
+    expect(withoutDate(textOf(result))).toBe(
+      "Phone Finder Status for LinkedIn profile: https://www.linkedin.com/in/unknown-person:\nStatus: done\nPhone Number: Not found\nResult: Phone not found ✗\n"
+    );
+  });
+});
+
+describe("enrichment tools in wait mode", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness({ jobPolls: 2 });
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("verify-email polls until the job is done and reports progress", async () => {
+    const progress: Array<{ progress: number; total?: number }> = [];
+
+    const result = (await harness.client.callTool(
+      {
+        name: "verify-email",
+        arguments: { email: "jane.doe@acme.com", wait: true },
+      },
+      undefined,
+      { onprogress: (notification) => progress.push(notification) }
+    )) as CallToolResult;
+
+    expect(harness.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      `POST ${API_URL}/tools/verify/email`,
+      `GET ${API_URL}/tools/verify/email/verify-mock-1`,
+      `GET ${API_URL}/tools/verify/email/verify-mock-1`,
+      `GET ${API_URL}/tools/verify/email/verify-mock-1`,
+    ]);
+    expect(withoutDate(textOf(result))).toBe(
+      "Email Verification Status for jane.doe@acme.com:\nStatus: done\nResult: Valid email ✓\n"
+    );
+    expect(result.structuredContent).toMatchObject({
+      email: "jane.doe@acme.com",
+      jobId: "verify-mock-1",
+      job: { status: "done", qualification: "valid" },
+    });
+    expect(progress).toHaveLength(2);
+    expect(progress[0]).toMatchObject({ total: 60000 });
+    expect(progress[1].progress).toBeGreaterThanOrEqual(progress[0].progress);
+  });
+
+  it("find-email returns the found email", async () => {
+    const result = await harness.call("find-email", {
+      fullname: "Jane Doe",
+      company_name: "Acme",
+      country: "FR",
+      wait: true,
+    });
+
+    expect(withoutDate(textOf(result))).toBe(
+      "Email Finder Status for Jane Doe at Acme:\nStatus: done\nEmail: jane.doe@acme.com\nQualification: Valid email ✓\n"
+    );
+    expect(result.structuredContent).toMatchObject({
+      jobId: "find-email-mock-1",
+      job: { email: "jane.doe@acme.com", status: "done" },
+    });
+  });
+
+  it("find-phone returns the phone number", async () => {
+    const result = await harness.call("find-phone", {
+      linkedin_url: "https://www.linkedin.com/in/jane-doe",
+      wait: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      jobId: "find-phone-mock-1",
+      job: { phoneNumber: "06 12 34 56 78", country: "FR", status: "done" },
+    });
+  });
+
+  it("reports failures while polling", async () => {
+    harness.respondWith({ success: true, jobId: "missing" });
+
+    const result = await harness.call("verify-email", {
+      email: "jane.doe@acme.com",
+      wait: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve verification status: Job not found \(HTTP 404\) \[not-found\]\n/
+    );
+  });
+
+  it("reports polled responses without job data", async () => {
+    harness.respondWith({ success: true, jobId: "verify-email-mock-1" });
+    harness.respondWith({ success: true });
+
+    const result = await harness.call("verify-email", {
+      email: "jane.doe@acme.com",
+      wait: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve verification status: Emelia returned no job data/
+    );
+  });
+});
+
+describe("enrichment tools waiting past the timeout", () => {
+  it("stops waiting at the timeout and returns the job ID", async () => {
+    const harness = await createHarness({ jobPolls: 1_000_000 });
+    await harness.authenticate();
+    configureEmeliaRequests({ jobPollDelayMs: 400, jobPollMaxDelayMs: 400 });
+
+    const result = await harness.call("verify-email", {
+      email: "jane.doe@acme.com",
+      wait: true,
+      timeout_seconds: 1,
+    });
+    await harness.close();
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe(
+      "Email verification job verify-mock-1 for jane.doe@acme.com is still running after 1 seconds.\nUse the check-email-verification tool with this job ID to get the results."
+    );
+    expect(result.structuredContent).toMatchObject({
+      jobId: "verify-mock-1",
+      job: { status: "running" },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { vi } from "vitest";
+import { clearEmeliaApiKey, configureEmeliaRequests } from "../src/helpers.js";
+import { createMockEmeliaApi, MockEmeliaApi } from "../src/mock.js";
+import { createServer } from "../src/server.js";
+
+export const API_URL = "https://emelia.test";
+export const API_KEY = "test-api-key";
+
+export interface RecordedRequest {
+  url: string;
+  method: string;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+export interface Harness {
+  client: Client;
+  mock: MockEmeliaApi;
+  requests: RecordedRequest[];
+  authenticate(): Promise<void>;
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  lastRequest(): RecordedRequest;
+  /** Answer the next Emelia request with this body instead of the mock */
+  respondWith(body: unknown, status?: number): void;
+  close(): Promise<void>;
+}
+
+export function textOf(result: CallToolResult): string {
+  return result.content
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("\n");
+}
+
+export interface HarnessOptions {
+  /** Status checks answered with `running` before a mock job is `done` */
+  jobPolls?: number;
+  /** Register the tools using local files, as stdio does (default `true`) */
+  local?: boolean;
+}
+
+// Connect a client to a fresh server over an in-memory transport, with
+// `fetch` replaced by a recorder in front of the Emelia API mock
+export async function createHarness(
+  options: HarnessOptions = {}
+): Promise<Harness> {
+  const mock = createMockEmeliaApi({
+    apiKey: API_KEY,
+    jobPolls: options.jobPolls,
+  });
+  const requests: RecordedRequest[] = [];
+  const responses: Response[] = [];
+
+  configureEmeliaRequests({
+    maxRetries: 0,
+    burst: 1000,
+    requestsPerSecond: 1000,
+    jobPollDelayMs: 1,
+    jobPollMaxDelayMs: 1,
+  });
+
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      const text = await request.clone().text();
+      requests.push({
+        url: request.url,
+        method: request.method,
+        body: text ? JSON.parse(text) : undefined,
+        headers: Object.fromEntries(request.headers),
+      });
+      return responses.shift() ?? mock.handle(request);
+    }
+  );
+
+  const client = new Client({ name: "emelia-test", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await createServer({
+    apiUrl: API_URL,
+    local: options.local ?? true,
+  }).connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const call = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+
+  return {
+    client,
+    mock,
+    requests,
+    call,
+    async authenticate() {
+      await call("authenticate", { api_key: API_KEY });
+    },
+    lastRequest() {
+      return requests[requests.length - 1];
+    },
+    respondWith(body, status = 200) {
+      responses.push(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    },
+    async close() {
+      clearEmeliaApiKey({});
+      await client.close();
+      vi.unstubAllGlobals();
+    },
+  };
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+const JANE = "https://www.linkedin.com/in/jane-doe";
+
+describe("LinkedIn campaign tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("get-linkedin-campaigns lists campaigns", async () => {
+    const result = await harness.call("get-linkedin-campaigns", {
+      status: "RUNNING",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaigns?status=RUNNING`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe(
+      "LinkedIn Campaigns:\n\nCampaign ID: linkedin-campaign-1\nName: Founders outreach\nStatus: RUNNING\nAccount: linkedin-account-1\n---"
+    );
+  });
+
+  it("get-linkedin-campaigns reports an empty campaigns array", async () => {
+    harness.respondWith({ success: true, campaigns: [] });
+
+    const result = await harness.call("get-linkedin-campaigns");
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe("No LinkedIn campaigns found");
+  });
+
+  it("create-linkedin-campaign posts the name", async () => {
+    const result = await harness.call("create-linkedin-campaign", {
+      name: "Investors",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaigns`,
+      method: "POST",
+      body: { name: "Investors" },
+    });
+    expect(textOf(result)).toBe(
+      'LinkedIn campaign "Investors" created successfully!'
+    );
+  });
+
+  it("add-contact-to-linkedin-campaign posts the contact", async () => {
+    const url = "https://www.linkedin.com/in/john-smith";
+    const result = await harness.call("add-contact-to-linkedin-campaign", {
+      campaign_id: "linkedin-campaign-1",
+      linkedin_url: url,
+      first_name: "John",
+      custom_fields: { company: "Globex" },
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaign/contacts`,
+      method: "POST",
+      body: {
+        id: "linkedin-campaign-1",
+        contact: { url, firstName: "John", company: "Globex" },
+      },
+    });
+    expect(textOf(result)).toBe(
+      `Contact with LinkedIn URL ${url} added to campaign successfully!`
+    );
+  });
+
+  it("get-linkedin-campaign-contacts pages contacts", async () => {
+    const result = await harness.call("get-linkedin-campaign-contacts", {
+      campaign_id: "linkedin-campaign-1",
+      event: "ACCEPTED",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaign/contacts?id=linkedin-campaign-1&page=1&perPage=10&event=ACCEPTED`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe(
+      `LinkedIn Campaign Contacts (Page 1 of 1, Total: 1):\n\nLinkedIn URL: ${JANE}, Name: Jane Doe, Status: ACCEPTED`
+    );
+  });
+
+  it("remove-contact-from-linkedin-campaign deletes the contact", async () => {
+    const result = await harness.call("remove-contact-from-linkedin-campaign", {
+      campaign_id: "linkedin-campaign-1",
+      linkedin_url: JANE,
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaign/contacts`,
+      method: "DELETE",
+      body: { id: "linkedin-campaign-1", url: JANE },
+    });
+    expect(textOf(result)).toBe(
+      `Contact with LinkedIn URL ${JANE} removed from campaign successfully!`
+    );
+    expect(harness.mock.state.linkedinCampaigns[0].contacts).toHaveLength(0);
+  });
+
+  it("update-linkedin-contact-field patches the custom field", async () => {
+    const result = await harness.call("update-linkedin-contact-field", {
+      campaign_id: "linkedin-campaign-1",
+      linkedin_url: JANE,
+      field_name: "company",
+      field_value: "Acme",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/contacts`,
+      method: "PATCH",
+      body: {
+        campaignId: "linkedin-campaign-1",
+        url: JANE,
+        fieldName: "company",
+        fieldValue: "Acme",
+      },
+    });
+    expect(textOf(result)).toBe(
+      `Custom field "company" updated to "Acme" for contact with LinkedIn URL ${JANE}`
+    );
+  });
+
+  it("get-linkedin-campaign-activities filters activities", async () => {
+    const result = await harness.call("get-linkedin-campaign-activities", {
+      campaign_id: "linkedin-campaign-1",
+      type: "INVITED",
+      query: "jane",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaigns/linkedin-campaign-1/activities?page=1&type=INVITED&query=jane`,
+      method: "GET",
+    });
+    expect(textOf(result)).toMatch(
+      new RegExp(
+        `^LinkedIn Campaign Activities:\n\nEvent: INVITED\nContact: ${JANE}\nDate: .+\n---$`
+      )
+    );
+    expect(result.structuredContent).toEqual({
+      activities: [
+        { event: "INVITED", contact: JANE, date: "2025-01-06T09:00:00.000Z" },
+      ],
+      page: 1,
+    });
+  });
+
+  it("get-linkedin-campaign-activities reports no activities", async () => {
+    const result = await harness.call("get-linkedin-campaign-activities", {
+      campaign_id: "linkedin-campaign-1",
+      type: "REPLIED",
+    });
+
+    expect(textOf(result)).toBe(
+      "No activities found for this LinkedIn campaign"
+    );
+  });
+
+  it("get-linkedin-campaign-stats formats statistics", async () => {
+    const result = await harness.call("get-linkedin-campaign-stats", {
+      campaign_id: "linkedin-campaign-1",
+      account_id: "linkedin-account-1",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/stats/linkedin?campaignId=linkedin-campaign-1&accountId=linkedin-account-1`,
+      method: "GET",
+    });
+    expect(textOf(result)).toMatch(
+      /^LinkedIn Campaign Statistics:\n\nGlobal Stats:\n- sent: 0\n/
+    );
+  });
+
+  it("get-linkedin-campaign-stats surfaces server errors", async () => {
+    harness.respondWith({ success: false, error: "Upstream failure" }, 503);
+
+    const result = await harness.call("get-linkedin-campaign-stats", {
+      campaign_id: "linkedin-campaign-1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to retrieve LinkedIn campaign statistics: Upstream failure \(HTTP 503\) \[server\]\n/
+    );
+  });
+});
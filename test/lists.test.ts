@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+describe("contact list tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("get-contact-lists lists the lists of a type with their size", async () => {
+    const result = await harness.call("get-contact-lists", {
+      list_type: "linkedin",
+    });
+
+    expect(harness.requests[0]).toMatchObject({
+      method: "GET",
+      url: `${API_URL}/linkedin/lists`,
+    });
+    expect(textOf(result)).toBe(
+      "LinkedIn lists:\n\nList: Event attendees (linkedin-list-1)\nContacts: 1\n---"
+    );
+    expect(result.structuredContent).toEqual({
+      lists: [
+        { _id: "linkedin-list-1", name: "Event attendees", contactsCount: 1 },
+      ],
+    });
+  });
+
+  it("create-contact-list creates an empty list and refuses taken names", async () => {
+    const result = await harness.call("create-contact-list", {
+      list_type: "email",
+      name: "Trade show leads",
+    });
+
+    const created = harness.mock.state.contactLists[1];
+    expect(created).toMatchObject({ name: "Trade show leads", contacts: [] });
+    expect(textOf(result)).toBe(
+      `Email list "Trade show leads" created successfully! ID: ${created._id}`
+    );
+
+    const taken = await harness.call("create-contact-list", {
+      list_type: "email",
+      name: "newsletter SIGNUPS",
+    });
+    expect(taken.isError).toBe(true);
+    expect(textOf(taken)).toBe(
+      'Email list "Newsletter signups" already exists (email-list-1). Add contacts to it, or pick another name.'
+    );
+    expect(harness.mock.state.contactLists).toHaveLength(2);
+  });
+
+  it("rename-contact-list and delete-contact-list change a list by ID", async () => {
+    const renamed = await harness.call("rename-contact-list", {
+      list_type: "email",
+      list_id: "email-list-1",
+      name: "Subscribers",
+    });
+    expect(harness.requests[1]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/emails/lists/email-list-1`,
+      body: { name: "Subscribers" },
+    });
+    expect(textOf(renamed)).toBe(
+      'List "Newsletter signups" renamed to "Subscribers"'
+    );
+
+    const deleted = await harness.call("delete-contact-list", {
+      list_type: "email",
+      list_id: "email-list-1",
+    });
+    expect(textOf(deleted)).toBe(
+      'List "Subscribers" (email-list-1, 2 contacts) deleted'
+    );
+    expect(harness.mock.state.contactLists).toEqual([]);
+
+    const missing = await harness.call("delete-contact-list", {
+      list_type: "linkedin",
+      list_id: "email-list-1",
+    });
+    expect(textOf(missing)).toBe(
+      "email-list-1 is not one of the LinkedIn lists. List them with the get-contact-lists tool."
+    );
+  });
+
+  it("get-contact-list-contacts pages through the members of a list", async () => {
+    const result = await harness.call("get-contact-list-contacts", {
+      list_type: "email",
+      list_id: "email-list-1",
+      page: 2,
+      per_page: 1,
+    });
+
+    expect(harness.requests[0].url).toBe(
+      `${API_URL}/emails/lists/email-list-1/contacts?page=2&perPage=1`
+    );
+    expect(textOf(result)).toBe(
+      "List Contacts (Page 2 of 2, Total: 2):\n\nEmail: alan@example.com, Name: Alan Turing"
+    );
+    expect(result.structuredContent).toMatchObject({
+      page: 2,
+      perPage: 1,
+      total: 2,
+    });
+  });
+
+  it("add-contacts-to-list and remove-contacts-from-list move contacts in and out", async () => {
+    const added = await harness.call("add-contacts-to-list", {
+      list_type: "linkedin",
+      list_id: "linkedin-list-1",
+      contacts: [
+        {
+          linkedin_url: "https://www.linkedin.com/in/katherine-johnson",
+          first_name: "Katherine",
+          custom_fields: { company: "NASA" },
+        },
+        { linkedin_url: "https://www.linkedin.com/in/grace-hopper" },
+      ],
+    });
+
+    expect(harness.requests[1].body).toEqual({
+      contacts: [
+        {
+          url: "https://www.linkedin.com/in/katherine-johnson",
+          firstName: "Katherine",
+          company: "NASA",
+        },
+        { url: "https://www.linkedin.com/in/grace-hopper" },
+      ],
+    });
+    expect(textOf(added)).toBe(
+      'Added 1 contact to "Event attendees" (1 already in the list)'
+    );
+
+    const removed = await harness.call("remove-contacts-from-list", {
+      list_type: "linkedin",
+      list_id: "linkedin-list-1",
+      contacts: [
+        "https://www.linkedin.com/in/grace-hopper",
+        "https://www.linkedin.com/in/nobody",
+      ],
+    });
+    expect(textOf(removed)).toBe(
+      'Removed 1 contact from "Event attendees" (1 not in the list)'
+    );
+    expect(
+      harness.mock.state.linkedinLists[0].contacts.map((c) => c.url)
+    ).toEqual(["https://www.linkedin.com/in/katherine-johnson"]);
+  });
+
+  it("add-contacts-to-list requires the field identifying contacts of the list", async () => {
+    const result = await harness.call("add-contacts-to-list", {
+      list_type: "email",
+      list_id: "email-list-1",
+      contacts: [
+        { email: "new@example.com" },
+        { linkedin_url: "https://www.linkedin.com/in/a" },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Contact 2 has no email, which identifies contacts in email lists."
+    );
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("attach-campaign-lists and detach-campaign-lists set the lists of a campaign", async () => {
+    const attached = await harness.call("attach-campaign-lists", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      list_ids: ["email-list-1"],
+    });
+
+    expect(harness.requests[2]).toMatchObject({
+      method: "PATCH",
+      url: `${API_URL}/emails/campaigns/email-campaign-1`,
+      body: { recipients: { lists: ["email-list-1"] } },
+    });
+    expect(harness.mock.state.campaigns[0].lists).toEqual(["email-list-1"]);
+    expect(textOf(attached)).toBe(
+      'Lists attached. Lists of "Q1 Outbound":\n\n- "Newsletter signups" (email-list-1, 2 contacts)'
+    );
+
+    const detached = await harness.call("detach-campaign-lists", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      list_ids: ["email-list-1"],
+    });
+    expect(harness.mock.state.campaigns[0].lists).toEqual([]);
+    expect(textOf(detached)).toBe(
+      'Lists detached. Lists of "Q1 Outbound":\n\nnone'
+    );
+    expect(detached.structuredContent).toEqual({
+      campaignId: "email-campaign-1",
+      lists: [],
+    });
+  });
+
+  it("attach-campaign-lists keeps the contacts added to the campaign directly", async () => {
+    const result = await harness.call("attach-campaign-lists", {
+      campaign_type: "email",
+      campaign_id: "email-campaign-1",
+      list_ids: ["email-list-1"],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(harness.requests[2].body).toEqual({
+      recipients: {
+        lists: ["email-list-1"],
+        contacts: ["jane.doe@acme.com", "john.smith@globex.com"],
+        processing: false,
+      },
+    });
+    expect(
+      harness.mock.state.campaigns[0].contacts.map((c) => c.email)
+    ).toEqual(["jane.doe@acme.com", "john.smith@globex.com"]);
+  });
+
+  it("attach-campaign-lists refuses lists of another type", async () => {
+    const result = await harness.call("attach-campaign-lists", {
+      campaign_type: "linkedin",
+      campaign_id: "linkedin-campaign-1",
+      list_ids: ["email-list-1"],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "email-list-1 is not one of the LinkedIn lists. List them with the get-contact-lists tool."
+    );
+    expect(harness.requests.some((r) => r.method === "PATCH")).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { toE164 } from "../src/phone.js";
+
+describe("toE164", () => {
+  it.each([
+    ["06 12 34 56 78", "FR", "+33612345678"],
+    ["(415) 555-0100", "US", "+14155550100"],
+    ["1-415-555-0100", "us", "+14155550100"],
+    ["020 7946 0958", "GB", "+442079460958"],
+    ["06 12345678", "IT", "+390612345678"],
+    ["+49 30 1234567", undefined, "+49301234567"],
+    ["0049 30 1234567", "FR", "+49301234567"],
+  ])("formats %s from %s as %s", (phoneNumber, country, expected) => {
+    expect(toE164(phoneNumber, country)).toBe(expected);
+  });
+
+  it.each([
+    ["06 12 34 56 78", undefined],
+    ["06 12 34 56 78", "XX"],
+    ["123", "FR"],
+    ["+1 234 567 890 123 456", undefined],
+  ])("cannot format %s from %s", (phoneNumber, country) => {
+    expect(toE164(phoneNumber, country)).toBeUndefined();
+  });
+});
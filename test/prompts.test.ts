@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createHarness, Harness } from "./harness.js";
+
+describe("prompts", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  async function promptText(name: string, args: Record<string, string>) {
+    const { messages } = await harness.client.getPrompt({
+      name,
+      arguments: args,
+    });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe("user");
+    return messages[0].content.type === "text" ? messages[0].content.text : "";
+  }
+
+  it("lists the prompts with their arguments", async () => {
+    const { prompts } = await harness.client.listPrompts();
+
+    expect(
+      Object.fromEntries(
+        prompts.map((prompt) => [
+          prompt.name,
+          prompt.arguments?.map(
+            (arg) => `${arg.name}${arg.required ? "*" : ""}`
+          ),
+        ])
+      )
+    ).toEqual({
+      "weekly-campaign-review": [
+        "campaign_id",
+        "start_date",
+        "end_date",
+        "language",
+      ],
+      "triage-replies": ["campaign_id*", "start_date", "tone", "language"],
+      "new-email-sequence": [
+        "brief*",
+        "campaign_name",
+        "steps",
+        "tone",
+        "language",
+      ],
+    });
+  });
+
+  it("weekly-campaign-review covers running campaigns over the period", async () => {
+    const text = await promptText("weekly-campaign-review", {
+      start_date: "2025-01-06",
+      end_date: "2025-01-12",
+      language: "French",
+    });
+
+    expect(text).toContain("from 2025-01-06 to 2025-01-12");
+    expect(text).toContain('`get-campaigns` (status "RUNNING")');
+    expect(text).toContain(
+      '`get-campaign-stats` with `detailed` set to true and start_date "2025-01-06" and end_date "2025-01-12"'
+    );
+    expect(text).toContain("Write the report in French");
+  });
+
+  it("weekly-campaign-review can focus on one campaign", async () => {
+    const text = await promptText("weekly-campaign-review", {
+      campaign_id: "email-campaign-1",
+    });
+
+    expect(text).toContain("over the whole campaign");
+    expect(text).toContain("Review only the email campaign email-campaign-1.");
+    expect(text).not.toContain("`get-campaigns`");
+    expect(text).toContain("Write the report in English");
+  });
+
+  it("triage-replies drafts responses before replying", async () => {
+    const text = await promptText("triage-replies", {
+      campaign_id: "email-campaign-1",
+      tone: "casual",
+    });
+
+    expect(text).toContain("campaign email-campaign-1");
+    expect(text).toContain('`get-campaign-contacts` (event "REPLIED")');
+    expect(text).toContain("in English with a casual tone");
+    expect(text).toContain("send it with `reply-to-email`");
+  });
+
+  it("triage-replies requires a campaign ID", async () => {
+    await expect(
+      harness.client.getPrompt({ name: "triage-replies", arguments: {} })
+    ).rejects.toThrow(/campaign_id/);
+  });
+
+  it("new-email-sequence embeds the brief", async () => {
+    const text = await promptText("new-email-sequence", {
+      brief: "Sell our CRM to SaaS founders",
+      campaign_name: "SaaS founders",
+      steps: "4",
+      language: "German",
+    });
+
+    expect(text).toContain("\n\nSell our CRM to SaaS founders\n\n");
+    expect(text).toContain(
+      "Write 4 emails in German with a professional and friendly tone"
+    );
+    expect(text).toContain('`create-email-campaign` named "SaaS founders"');
+    expect(text).toContain("add each email to it with `add-campaign-step`");
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness, textOf } from "./harness.js";
+
+describe("email provider tools", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    await harness.authenticate();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("get-email-providers lists providers", async () => {
+    const result = await harness.call("get-email-providers");
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/email-providers`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe(
+      "Email Providers:\n\nSender: Sales Team <sales@emelia.io>\nType: GOOGLE\nStatus: Connected\n---"
+    );
+  });
+
+  it("get-email-providers filters disconnected providers", async () => {
+    const result = await harness.call("get-email-providers", {
+      filter: "disconnected",
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/email-providers?filter=disconnected`,
+      method: "GET",
+    });
+    expect(textOf(result)).toBe("No email providers found");
+  });
+
+  it("add-email-provider requires an SMTP configuration for SMTP", async () => {
+    const result = await harness.call("add-email-provider", {
+      sender_name: "Ops",
+      sender_email: "ops@emelia.io",
+      email_type: "SMTP",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "SMTP configuration is required for SMTP email type"
+    );
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("add-email-provider posts the provider", async () => {
+    const smtp = {
+      login: "ops",
+      password: "secret",
+      server: "smtp.emelia.io",
+      port: 465,
+    };
+    const result = await harness.call("add-email-provider", {
+      sender_name: "Ops",
+      sender_email: "ops@emelia.io",
+      email_type: "SMTP",
+      smtp_config: smtp,
+    });
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/email-providers`,
+      method: "POST",
+      body: {
+        senderName: "Ops",
+        senderEmail: "ops@emelia.io",
+        emailType: "SMTP",
+        smtp: { ...smtp, ssl: true },
+      },
+    });
+    expect(textOf(result)).toBe(
+      "Successfully added email provider: Ops <ops@emelia.io>"
+    );
+  });
+
+  it("get-email-warmups lists warmups", async () => {
+    const result = await harness.call("get-email-warmups");
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/email-providers/warmup`,
+      method: "GET",
+    });
+    expect(textOf(result).replace(/^Start Date: .*\n/m, "")).toBe(
+      [
+        "Email Warmups:",
+        "",
+        "Email: sales@emelia.io",
+        "Status: Running",
+        "Emails Sent: 40",
+        "Emails Received: 38",
+        "Spam Count: 1",
+        "Score: 92",
+        "---",
+      ].join("\n")
+    );
+    expect(result.structuredContent).toMatchObject({
+      warmups: [{ email: "sales@emelia.io", running: true, score: 92 }],
+    });
+  });
+
+  it("get-email-warmups reports an empty warmups array", async () => {
+    harness.respondWith({ success: true, warmups: [] });
+
+    const result = await harness.call("get-email-warmups");
+
+    expect(textOf(result)).toBe("No email warmups found");
+  });
+
+  it("enable-email-warmup and disable-email-warmup toggle the warmup", async () => {
+    const disabled = await harness.call("disable-email-warmup", {
+      provider_id: "provider-1",
+    });
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/email-providers/warmup/disable`,
+      method: "POST",
+      body: { providerId: "provider-1" },
+    });
+    expect(textOf(disabled)).toBe(
+      "Successfully disabled warmup for email provider with ID: provider-1"
+    );
+    expect(harness.mock.state.warmups[0].running).toBe(false);
+
+    const enabled = await harness.call("enable-email-warmup", {
+      provider_id: "provider-1",
+    });
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/email-providers/warmup/enable`,
+      method: "POST",
+      body: { providerId: "provider-1" },
+    });
+    expect(textOf(enabled)).toBe(
+      "Successfully enabled warmup for email provider with ID: provider-1"
+    );
+    expect(harness.mock.state.warmups[0].running).toBe(true);
+  });
+
+  it("enable-email-warmup reports an unknown provider", async () => {
+    const result = await harness.call("enable-email-warmup", {
+      provider_id: "missing",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /^Failed to enable email warmup: Provider not found \(HTTP 404\) \[not-found\]\n/
+    );
+  });
+});
@@ -0,0 +1,318 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { requestPolicyFromEnv } from "../src/config.js";
+import {
+  clearEmeliaApiKey,
+  configureEmeliaRequests,
+  EmeliaRequestContext,
+  makeEmeliaRequest,
+  setEmeliaApiKey,
+} from "../src/helpers.js";
+
+const URL = "https://emelia.test/emails/campaigns";
+
+// A reply of the stubbed `fetch`: a response, or a network error
+type Reply = Response | Error;
+
+function reply(
+  status: number,
+  body: unknown = { success: true },
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe("makeEmeliaRequest", () => {
+  const context: EmeliaRequestContext = { sessionId: "requests" };
+  let replies: Reply[];
+  // Fake time at which each attempt was sent
+  let attempts: number[];
+  let startedAt: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    configureEmeliaRequests({
+      maxRetries: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 1_000,
+      timeoutMs: 5_000,
+      burst: 100,
+      requestsPerSecond: 100,
+    });
+    setEmeliaApiKey(context, "key-1");
+
+    replies = [];
+    attempts = [];
+    startedAt = Date.now();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        attempts.push(Date.now() - startedAt);
+        const next = replies.shift();
+        if (next instanceof Error) throw next;
+        if (next) return next;
+        // Nothing queued: hang until the attempt is aborted
+        return new Promise<Response>((_, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("This operation was aborted", "AbortError"))
+          );
+        });
+      })
+    );
+  });
+
+  afterEach(() => {
+    clearEmeliaApiKey(context);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  // Run the request to its end, firing every timer it waits on
+  async function request(
+    options?: RequestInit,
+    requestContext: EmeliaRequestContext = context
+  ) {
+    const result = makeEmeliaRequest(requestContext, URL, options);
+    await vi.runAllTimersAsync();
+    return result;
+  }
+
+  it("returns the first successful response", async () => {
+    replies.push(reply(200, { success: true, campaigns: [] }));
+
+    const result = await request();
+
+    expect(result).toEqual({
+      ok: true,
+      data: { success: true, campaigns: [] },
+    });
+    expect(attempts).toEqual([0]);
+  });
+
+  it("retries with exponential backoff, half of it random", async () => {
+    replies.push(reply(500), reply(500), reply(500), reply(500));
+
+    const result = await request();
+
+    expect(attempts).toEqual([0, 50, 150, 350]);
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        category: "server",
+        status: 500,
+        attempts: 4,
+      }),
+    });
+  });
+
+  it("adds up to half the delay at random and caps it at the max delay", async () => {
+    vi.mocked(Math.random).mockReturnValue(0.99);
+    configureEmeliaRequests({ maxRetries: 5, baseDelayMs: 200 });
+    replies.push(...Array.from({ length: 6 }, () => reply(503)));
+
+    await request();
+
+    const waits = attempts.slice(1).map((time, i) => time - attempts[i]);
+    expect(waits).toEqual([199, 398, 796, 995, 995]);
+  });
+
+  it("waits for Retry-After instead of the backoff", async () => {
+    replies.push(
+      reply(429, { error: "Too many requests" }, { "Retry-After": "0" }),
+      reply(503, {}, { "Retry-After": "1" }),
+      reply(200)
+    );
+
+    const result = await request();
+
+    expect(result.ok).toBe(true);
+    expect(attempts).toEqual([0, 0, 1_000]);
+  });
+
+  it("gives up when Retry-After is above the max delay", async () => {
+    replies.push(
+      reply(429, { error: "Too many requests" }, { "Retry-After": "60" })
+    );
+
+    const result = await request();
+
+    expect(attempts).toEqual([0]);
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        category: "rate-limited",
+        status: 429,
+        message: "Too many requests",
+        attempts: 1,
+      }),
+    });
+  });
+
+  it.each([
+    ["GET", 500, 4],
+    ["PATCH", 500, 4],
+    ["POST", 500, 1],
+    ["POST", 408, 1],
+    ["POST", 502, 4],
+    ["POST", 503, 4],
+    ["GET", 400, 1],
+    ["GET", 404, 1],
+    ["GET", 401, 1],
+  ])("sends a %s answered with %i %i times", async (method, status, count) => {
+    replies.push(...Array.from({ length: 4 }, () => reply(status)));
+
+    const result = await request({ method });
+
+    expect(attempts).toHaveLength(count);
+    expect(result.ok || result.error.attempts).toBe(count);
+  });
+
+  it("retries network errors of idempotent requests only", async () => {
+    replies.push(new TypeError("fetch failed"), reply(200));
+    expect((await request()).ok).toBe(true);
+    expect(attempts).toHaveLength(2);
+
+    attempts.length = 0;
+    replies.length = 0;
+    replies.push(new TypeError("fetch failed"), reply(200));
+    const post = await request({ method: "POST" });
+    expect(attempts).toHaveLength(1);
+    expect(post).toEqual({
+      ok: false,
+      error: { category: "network", message: "fetch failed", attempts: 1 },
+    });
+  });
+
+  it("reports a rejected request answered with a 200", async () => {
+    replies.push(reply(200, { success: false, error: "Campaign is running" }));
+
+    const result = await request({ method: "POST" });
+
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        category: "validation",
+        message: "Campaign is running",
+        attempts: 1,
+      }),
+    });
+  });
+
+  it("aborts an attempt after the timeout", async () => {
+    configureEmeliaRequests({ maxRetries: 1, timeoutMs: 2_000 });
+
+    const result = await request();
+
+    expect(attempts).toEqual([0, 2_050]);
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        category: "network",
+        message: "Request timed out after 2000ms",
+        attempts: 2,
+      },
+    });
+  });
+
+  it("stops when the request is cancelled during an attempt", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await request(undefined, {
+      ...context,
+      signal: controller.signal,
+    });
+
+    expect(attempts).toEqual([0]);
+    expect(result).toEqual({
+      ok: false,
+      error: { category: "network", message: "Request cancelled", attempts: 1 },
+    });
+  });
+
+  it("stops when the request is cancelled during the backoff", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    replies.push(reply(503), reply(200));
+
+    const result = await request(undefined, {
+      ...context,
+      signal: controller.signal,
+    });
+
+    expect(attempts).toEqual([0]);
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({ status: 503, attempts: 1 }),
+    });
+  });
+
+  it("limits the request rate of each API key separately", async () => {
+    configureEmeliaRequests({ burst: 2, requestsPerSecond: 1 });
+    const other: EmeliaRequestContext = { sessionId: "requests-other" };
+    setEmeliaApiKey(other, "key-2");
+    replies.push(...Array.from({ length: 5 }, () => reply(200)));
+
+    const results = Promise.all([
+      makeEmeliaRequest(context, URL),
+      makeEmeliaRequest(context, URL),
+      makeEmeliaRequest(context, URL),
+      makeEmeliaRequest(other, URL),
+      makeEmeliaRequest(other, URL),
+    ]);
+    await vi.runAllTimersAsync();
+    await results;
+    clearEmeliaApiKey(other);
+
+    // The third request of key-1 waits for a token, key-2 has its own bucket
+    expect(attempts).toEqual([0, 0, 0, 0, 1_000]);
+  });
+
+  it("needs an API key", async () => {
+    const result = await request(undefined, { sessionId: "requests-none" });
+
+    expect(attempts).toEqual([]);
+    expect(result).toEqual({
+      ok: false,
+      error: { category: "auth", message: "No Emelia API key available" },
+    });
+  });
+});
+
+describe("requestPolicyFromEnv", () => {
+  it("keeps the defaults for unset variables", () => {
+    expect(requestPolicyFromEnv({})).toEqual({});
+    expect(requestPolicyFromEnv({ EMELIA_MAX_RETRIES: "" })).toEqual({});
+  });
+
+  it("reads every variable", () => {
+    expect(
+      requestPolicyFromEnv({
+        EMELIA_MAX_RETRIES: "0",
+        EMELIA_REQUEST_TIMEOUT_MS: "1500",
+        EMELIA_RATE_LIMIT_PER_SECOND: "0.5",
+        EMELIA_RATE_LIMIT_BURST: "3",
+      })
+    ).toEqual({
+      maxRetries: 0,
+      timeoutMs: 1500,
+      requestsPerSecond: 0.5,
+      burst: 3,
+    });
+  });
+
+  it.each([
+    ["EMELIA_MAX_RETRIES", "-1", "a non-negative number"],
+    ["EMELIA_MAX_RETRIES", "many", "a non-negative number"],
+    ["EMELIA_REQUEST_TIMEOUT_MS", "0", "a positive number"],
+    ["EMELIA_RATE_LIMIT_PER_SECOND", "Infinity", "a positive number"],
+    ["EMELIA_RATE_LIMIT_BURST", "0", "a positive integer"],
+    ["EMELIA_RATE_LIMIT_BURST", "0.5", "a positive integer"],
+  ])("rejects %s=%s", (name, value, expected) => {
+    expect(() => requestPolicyFromEnv({ [name]: value })).toThrow(
+      `${name} must be ${expected}, got "${value}"`
+    );
+  });
+});
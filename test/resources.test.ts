@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { API_URL, createHarness, Harness } from "./harness.js";
+
+describe("resources", () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  async function readJson(uri: string) {
+    const { contents } = await harness.client.readResource({ uri });
+    expect(contents).toHaveLength(1);
+    expect(contents[0]).toMatchObject({ uri, mimeType: "application/json" });
+    return JSON.parse(contents[0].text as string);
+  }
+
+  it("declares the resource templates", async () => {
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+      "emelia://campaigns/{id}",
+      "emelia://campaigns/{id}/contacts",
+      "emelia://email-providers/{id}",
+      "emelia://linkedin-campaigns/{id}",
+    ]);
+  });
+
+  it("lists nothing until authenticated", async () => {
+    const { resources } = await harness.client.listResources();
+
+    expect(resources).toEqual([]);
+    expect(harness.requests).toHaveLength(0);
+  });
+
+  it("lists campaigns, their contacts and providers", async () => {
+    await harness.authenticate();
+
+    const { resources } = await harness.client.listResources();
+
+    expect(resources.map((r) => r.uri).sort()).toEqual([
+      "emelia://campaigns/email-campaign-1",
+      "emelia://campaigns/email-campaign-1/contacts",
+      "emelia://campaigns/email-campaign-2",
+      "emelia://campaigns/email-campaign-2/contacts",
+      "emelia://email-providers/provider-1",
+      "emelia://linkedin-campaigns/linkedin-campaign-1",
+    ]);
+    expect(
+      resources.find((r) => r.uri === "emelia://campaigns/email-campaign-1")
+    ).toMatchObject({
+      name: "Q1 Outbound",
+      description: "Email campaign (RUNNING)",
+      mimeType: "application/json",
+    });
+  });
+
+  it("reads an email campaign's configuration", async () => {
+    await harness.authenticate();
+
+    const campaign = await readJson("emelia://campaigns/email-campaign-1");
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/emails/campaigns/email-campaign-1`,
+      method: "GET",
+    });
+    expect(campaign).toMatchObject({
+      _id: "email-campaign-1",
+      name: "Q1 Outbound",
+      provider: "provider-1",
+      schedule: { timeZone: "Europe/Paris", start: "09:00", end: "17:00" },
+      recipients: {
+        contacts: ["jane.doe@acme.com", "john.smith@globex.com"],
+      },
+    });
+    expect(campaign.steps).toHaveLength(2);
+  });
+
+  it("reads all the contacts of a campaign page by page", async () => {
+    await harness.authenticate();
+    const contacts = harness.mock.state.campaigns[0].contacts;
+    for (let i = 0; i < 150; i++) {
+      contacts.push({ email: `lead${i}@example.com`, custom: {} });
+    }
+
+    const data = await readJson("emelia://campaigns/email-campaign-1/contacts");
+
+    expect(harness.requests.map((r) => r.url)).toEqual([
+      `${API_URL}/emails/campaign/contacts?id=email-campaign-1&page=1&perPage=100`,
+      `${API_URL}/emails/campaign/contacts?id=email-campaign-1&page=2&perPage=100`,
+    ]);
+    expect(data).toMatchObject({
+      campaignId: "email-campaign-1",
+      total: 152,
+      truncated: false,
+    });
+    expect(data.contacts).toHaveLength(152);
+  });
+
+  it("reads a LinkedIn campaign's configuration", async () => {
+    await harness.authenticate();
+
+    const campaign = await readJson(
+      "emelia://linkedin-campaigns/linkedin-campaign-1"
+    );
+
+    expect(harness.lastRequest()).toMatchObject({
+      url: `${API_URL}/linkedin/campaigns/linkedin-campaign-1`,
+      method: "GET",
+    });
+    expect(campaign).toMatchObject({
+      _id: "linkedin-campaign-1",
+      account: "linkedin-account-1",
+      steps: [{ stepType: "CONNECTION" }, { stepType: "MESSAGE" }],
+    });
+  });
+
+  it("reads an email provider", async () => {
+    await harness.authenticate();
+
+    const provider = await readJson("emelia://email-providers/provider-1");
+
+    expect(provider).toEqual({
+      _id: "provider-1",
+      senderName: "Sales Team",
+      senderEmail: "sales@emelia.io",
+      emailType: "GOOGLE",
+    });
+  });
+
+  it("rejects reads before authentication", async () => {
+    await expect(
+      harness.client.readResource({
+        uri: "emelia://campaigns/email-campaign-1",
+      })
+    ).rejects.toThrow(/Authentication required/);
+  });
+
+  it("reports unknown campaigns", async () => {
+    await harness.authenticate();
+
+    await expect(
+      harness.client.readResource({ uri: "emelia://campaigns/missing" })
+    ).rejects.toThrow(
+      /Failed to read campaign: Campaign not found \(HTTP 404\) \[not-found\]/
+    );
+  });
+});
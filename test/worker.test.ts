@@ -0,0 +1,419 @@
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AUTH_REQUIRED_MESSAGE } from "../src/helpers.js";
+import { createMockEmeliaApi } from "../src/mock.js";
+import worker from "../src/worker.js";
+import { API_URL } from "./harness.js";
+
+const WORKER_URL = "https://mcp.emelia.test";
+const ENV = { EMELIA_API_URL: API_URL, EMELIA_MAX_RETRIES: "0" };
+
+const BOTH = "application/json, text/event-stream";
+
+let nextId = 1;
+
+function initializeMessage(id: number = nextId++) {
+  return {
+    jsonrpc: "2.0",
+    id,
+    method: "initialize",
+    params: {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "emelia-test", version: "1.0.0" },
+    },
+  };
+}
+
+function request(method: string, params: unknown = {}, id: number = nextId++) {
+  return { jsonrpc: "2.0", id, method, params };
+}
+
+function send(
+  path: string,
+  init: {
+    method?: string;
+    body?: unknown;
+    sessionId?: string;
+    accept?: string;
+    token?: string;
+  } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = {};
+  if (init.body !== undefined) headers["Content-Type"] = "application/json";
+  if (init.accept) headers.Accept = init.accept;
+  if (init.sessionId) headers["Mcp-Session-Id"] = init.sessionId;
+  if (init.token) headers.Authorization = `Bearer ${init.token}`;
+  return worker.fetch(
+    new Request(`${WORKER_URL}${path}`, {
+      method: init.method ?? (init.body === undefined ? "GET" : "POST"),
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }),
+    ENV
+  );
+}
+
+// JSON-RPC messages of an SSE response body, read until the stream closes
+async function sseMessages(response: Response): Promise<any[]> {
+  return (await response.text())
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+}
+
+// Call a tool in a session, with a bearer token if one is given
+async function callTool(
+  sessionId: string,
+  name: string,
+  args: Record<string, unknown> = {},
+  token?: string
+) {
+  const response = await send("/mcp", {
+    body: request("tools/call", { name, arguments: args }),
+    accept: "application/json",
+    sessionId,
+    token,
+  });
+  return (await response.json()).result;
+}
+
+// Start a Streamable HTTP session and return its ID
+async function openSession(): Promise<string> {
+  const response = await send("/mcp", {
+    body: initializeMessage(),
+    accept: "application/json",
+  });
+  const sessionId = response.headers.get("mcp-session-id")!;
+  await send("/mcp", {
+    body: { jsonrpc: "2.0", method: "notifications/initialized" },
+    accept: BOTH,
+    sessionId,
+  });
+  return sessionId;
+}
+
+describe("Streamable HTTP sessions", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", createMockEmeliaApi().fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("starts a session with an initialize request", async () => {
+    const response = await send("/mcp", {
+      body: initializeMessage(1),
+      accept: "application/json",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(response.headers.get("mcp-session-id")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers.get("access-control-expose-headers")).toBe(
+      "Mcp-Session-Id"
+    );
+    expect(await response.json()).toMatchObject({
+      jsonrpc: "2.0",
+      id: 1,
+      result: { serverInfo: { name: "emelia" } },
+    });
+  });
+
+  it("answers notifications with 202 and requests as SSE or JSON", async () => {
+    const sessionId = await openSession();
+
+    const notification = await send("/mcp", {
+      body: {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 999 },
+      },
+      accept: BOTH,
+      sessionId,
+    });
+    expect(notification.status).toBe(202);
+    expect(await notification.text()).toBe("");
+
+    const sse = await send("/mcp", {
+      body: request("tools/list", {}, 2),
+      accept: BOTH,
+      sessionId,
+    });
+    expect(sse.headers.get("content-type")).toBe("text/event-stream");
+    const [listed] = await sseMessages(sse);
+    expect(listed.id).toBe(2);
+    expect(listed.result.tools.map((tool: any) => tool.name)).toContain(
+      "authenticate"
+    );
+
+    const json = await send("/mcp", {
+      body: [request("ping", {}, 3), request("ping", {}, 4)],
+      accept: "application/json",
+      sessionId,
+    });
+    expect(json.headers.get("content-type")).toBe("application/json");
+    expect(await json.json()).toEqual([
+      { jsonrpc: "2.0", id: 3, result: {} },
+      { jsonrpc: "2.0", id: 4, result: {} },
+    ]);
+  });
+
+  it("needs a session for anything but an initialize request", async () => {
+    const post = await send("/mcp", {
+      body: request("tools/list"),
+      accept: BOTH,
+    });
+    expect(post.status).toBe(400);
+    expect(await post.json()).toMatchObject({
+      error: {
+        code: -32000,
+        message: "Bad Request: Mcp-Session-Id header is required",
+      },
+    });
+
+    const get = await send("/mcp", { accept: "text/event-stream" });
+    expect(get.status).toBe(400);
+
+    const unknown = await send("/mcp", {
+      body: request("tools/list"),
+      accept: BOTH,
+      sessionId: "unknown-session",
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("opens one standalone SSE stream per session", async () => {
+    const sessionId = await openSession();
+
+    const stream = await send("/mcp", {
+      accept: "text/event-stream",
+      sessionId,
+    });
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get("content-type")).toBe("text/event-stream");
+
+    const second = await send("/mcp", {
+      accept: "text/event-stream",
+      sessionId,
+    });
+    expect(second.status).toBe(409);
+
+    await stream.body!.cancel();
+  });
+
+  it("ends a session on DELETE", async () => {
+    const sessionId = await openSession();
+
+    const deleted = await send("/mcp", { method: "DELETE", sessionId });
+    expect(deleted.status).toBe(200);
+
+    const after = await send("/mcp", {
+      body: request("ping"),
+      accept: BOTH,
+      sessionId,
+    });
+    expect(after.status).toBe(404);
+    expect(await after.json()).toMatchObject({
+      error: { code: -32001, message: "Session not found" },
+    });
+  });
+
+  it("rejects request IDs already in use", async () => {
+    const sessionId = await openSession();
+
+    const batch = await send("/mcp", {
+      body: [request("ping", {}, 5), request("tools/list", {}, 5)],
+      accept: BOTH,
+      sessionId,
+    });
+    expect(batch.status).toBe(400);
+    expect(await batch.json()).toMatchObject({
+      error: {
+        code: -32600,
+        message: "Invalid Request: Request ID 5 is already in use",
+      },
+    });
+
+    // Hold the Emelia request of the first call until the second one is sent
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const mock = createMockEmeliaApi();
+    vi.stubGlobal(
+      "fetch",
+      async (input: RequestInfo | URL, init?: RequestInit) => {
+        await held;
+        return mock.fetch(input, init);
+      }
+    );
+
+    const first = send("/mcp", {
+      body: request("tools/call", { name: "get-campaigns", arguments: {} }, 6),
+      accept: "application/json",
+      sessionId,
+      token: "key-1",
+    });
+    const second = await send("/mcp", {
+      body: request("ping", {}, 6),
+      accept: BOTH,
+      sessionId,
+    });
+    expect(second.status).toBe(400);
+
+    release();
+    const answered = await (await first).json();
+    expect(answered.id).toBe(6);
+    expect(answered.result.isError).toBeFalsy();
+  });
+
+  it("closes sessions idle for 30 minutes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const idle = await openSession();
+    const active = await openSession();
+
+    vi.advanceTimersByTime(20 * 60 * 1000);
+    const ping = await send("/mcp", {
+      body: request("ping"),
+      accept: "application/json",
+      sessionId: active,
+    });
+    expect(ping.status).toBe(200);
+
+    vi.advanceTimersByTime(20 * 60 * 1000);
+    const closed = await send("/mcp", {
+      body: request("ping"),
+      accept: "application/json",
+      sessionId: idle,
+    });
+    expect(closed.status).toBe(404);
+
+    const open = await send("/mcp", {
+      body: request("ping"),
+      accept: "application/json",
+      sessionId: active,
+    });
+    expect(open.status).toBe(200);
+  });
+});
+
+describe("API keys of HTTP sessions", () => {
+  // API key of every request sent to Emelia
+  let keys: string[];
+
+  beforeEach(() => {
+    keys = [];
+    const mock = createMockEmeliaApi();
+    vi.stubGlobal(
+      "fetch",
+      async (input: RequestInfo | URL, init?: RequestInit) => {
+        const request = new Request(input, init);
+        keys.push(
+          request.headers.get("authorization")!.replace(/^Bearer /, "")
+        );
+        return mock.handle(request);
+      }
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the key of each session to itself", async () => {
+    const first = await openSession();
+    const second = await openSession();
+    const third = await openSession();
+
+    await callTool(first, "authenticate", { api_key: "key-first" });
+    await callTool(second, "authenticate", { api_key: "key-second" });
+    await callTool(first, "get-campaigns");
+    await callTool(second, "get-campaigns");
+    await callTool(first, "get-campaigns");
+    expect(keys).toEqual(["key-first", "key-second", "key-first"]);
+
+    const anonymous = await callTool(third, "get-campaigns");
+    expect(anonymous.isError).toBe(true);
+    expect(anonymous.content[0].text).toBe(AUTH_REQUIRED_MESSAGE);
+
+    await callTool(second, "logout");
+    expect((await callTool(second, "get-campaigns")).isError).toBe(true);
+    await callTool(first, "get-campaigns");
+    expect(keys).toEqual(["key-first", "key-second", "key-first", "key-first"]);
+  });
+
+  it("uses the bearer token of a request over the key of the session", async () => {
+    const sessionId = await openSession();
+    await callTool(sessionId, "authenticate", { api_key: "key-session" });
+
+    await callTool(sessionId, "get-campaigns", {}, "key-bearer");
+    await callTool(sessionId, "get-campaigns");
+    expect(keys).toEqual(["key-bearer", "key-session"]);
+
+    // A token is only used for its own request, never stored for the session
+    const other = await openSession();
+    await callTool(other, "get-campaigns", {}, "key-other");
+    expect((await callTool(other, "get-campaigns")).isError).toBe(true);
+    expect(keys).toEqual(["key-bearer", "key-session", "key-other"]);
+  });
+});
+
+describe("legacy HTTP+SSE transport", () => {
+  it("announces the message endpoint and answers on the stream", async () => {
+    const stream = await send("/sse");
+    expect(stream.headers.get("content-type")).toBe("text/event-stream");
+    const reader = stream.body!.getReader();
+    const decoder = new TextDecoder();
+    const nextEvent = async () => decoder.decode((await reader.read()).value);
+
+    const endpoint = await nextEvent();
+    const match = endpoint.match(
+      /^event: endpoint\ndata: (\/messages\?sessionId=([0-9a-f-]+))\n\n$/
+    );
+    expect(match).not.toBeNull();
+    const [, path, sessionId] = match!;
+
+    const posted = await send(path, { body: initializeMessage(1) });
+    expect(posted.status).toBe(202);
+    expect(await posted.text()).toBe("Accepted");
+
+    const message = await nextEvent();
+    expect(message).toMatch(/^event: message\ndata: /);
+    expect(JSON.parse(message.split("data: ")[1])).toMatchObject({
+      id: 1,
+      result: { serverInfo: { name: "emelia" } },
+    });
+
+    await reader.cancel();
+    const closed = await send(`/messages?sessionId=${sessionId}`, {
+      body: request("ping"),
+    });
+    expect(closed.status).toBe(404);
+  });
+
+  it("rejects messages for unknown sessions", async () => {
+    const response = await send("/messages?sessionId=unknown", {
+      body: request("ping"),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("other routes", () => {
+  it("answers CORS preflight requests", async () => {
+    const response = await send("/mcp", { method: "OPTIONS" });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("access-control-allow-headers")).toContain(
+      "Mcp-Session-Id"
+    );
+  });
+
+  it("describes the endpoints elsewhere", async () => {
+    const response = await send("/");
+
+    expect(await response.text()).toMatch(/^Emelia MCP Server - Use \/mcp/);
+  });
+});